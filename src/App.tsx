@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Card } from "./components/ui/card";
 import { Button } from "./components/ui/button";
 import {
@@ -7,7 +7,29 @@ import {
   TabsList,
   TabsTrigger,
 } from "./components/ui/tabs";
-import { Calendar, Palette } from "lucide-react";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "./components/ui/tooltip";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./components/ui/select";
+import {
+  Calendar,
+  CalendarCog,
+  FolderTree,
+  GitBranch,
+  Layers,
+  Palette,
+  Redo2,
+  Undo2,
+  Users,
+} from "lucide-react";
 import { Toaster } from "./components/ui/sonner";
 import { toast } from "sonner@2.0.3";
 
@@ -17,39 +39,67 @@ import { OwnerView } from "./components/OwnerView";
 import { ProgressManager } from "./components/ProgressManager";
 import { FilterPanel } from "./components/FilterPanel";
 import { ExportDialog } from "./components/ExportDialog";
-import { ColorSettingsDialog } from "./components/ColorSettingsDialog";
+import { ReportBuilderDialog } from "./components/ReportBuilderDialog";
+import { CategoryManagerDialog } from "./components/CategoryManagerDialog";
 import { CountdownTracker } from "./components/CountdownTracker";
-
-// Utility: date helpers
-const toDate = (s: string) => new Date(s);
-const daysBetween = (a: string, b: string) =>
-  Math.round(
-    (toDate(b).getTime() - toDate(a).getTime()) /
-      (1000 * 60 * 60 * 24),
-  );
-
-// Owner-based color mapping (distinct from status colors)
-export const ownerColors: Record<string, string> = {
-  Leadership: "#7c3aed", // Deep Purple (violet-600)
-  Marketing: "#f59e0b", // Amber/Orange (amber-500)
-  Design: "#ec4899", // Pink (pink-500)
-  Product: "#06b6d4", // Cyan/Teal (cyan-500)
-};
-
-// Default category colors for task types
-export const defaultCategoryColors: Record<string, string> = {
-  website: "#6366f1", // Indigo (indigo-500)
-  tradeshow: "#eab308", // Yellow (yellow-500)
-  templates: "#10b981", // Emerald/Green (emerald-500)
-  "visual-assets": "#8b5cf6", // Purple (violet-500)
-};
-
-export const categoryLabels: Record<string, string> = {
-  website: "Website",
-  tradeshow: "Tradeshow",
-  templates: "Templates",
-  "visual-assets": "Visual Assets",
-};
+import { WorkCalendarDialog } from "./components/WorkCalendarDialog";
+import { PhaseManagerDialog } from "./components/PhaseManagerDialog";
+import { BaselineDialog } from "./components/BaselineDialog";
+import { VarianceView } from "./components/VarianceView";
+import { ScenarioManagerDialog } from "./components/ScenarioManagerDialog";
+import { ScenarioComparisonView } from "./components/ScenarioComparisonView";
+import { OwnerRegistryDialog } from "./components/OwnerRegistryDialog";
+import { WorkloadView } from "./components/WorkloadView";
+import {
+  loadProjectState,
+  saveProjectState,
+  type Baseline,
+  type Category,
+  type CustomTask,
+  type Milestone,
+  type Owner,
+  type Phase,
+  type ProjectState,
+  type Scenario,
+  type SubtaskDefinition,
+  type SubtaskProgress,
+  type TaskDefinition,
+  type TaskOverride,
+} from "./utils/persistence";
+import type { ImportMode } from "./utils/projectFile";
+import { mergeProjectStates } from "./utils/projectFile";
+import { planTasks, switchScenario } from "./utils/scenarios";
+import {
+  DEFAULT_OWNERS,
+  renameOwnerInCalendar,
+  renameOwnerInPlan,
+  unregisteredOwners,
+} from "./utils/owners";
+import {
+  DEFAULT_CATEGORIES,
+  reassignCategoryInPlan,
+  unregisteredCategories,
+} from "./utils/categories";
+import { DEFAULT_CAPACITY, type GanttFocus } from "./utils/workload";
+import { cascadeSchedule } from "./utils/dependencies";
+import { computeCriticalPath } from "./utils/criticalPath";
+import type { LevelingMove } from "./utils/leveling";
+import type { NewTaskData } from "./utils/csvImport";
+import { DEFAULT_CALENDAR, type ProjectCalendar } from "./utils/workCalendar";
+import {
+  daysBetween,
+  formatDate,
+  todayPlainDate,
+  type DayUnit,
+} from "./utils/dates";
+import {
+  matchesFilterQuery,
+  parseFilterQuery,
+  renameQueryValue,
+} from "./utils/filterQuery";
+import { tagsInUse } from "./utils/tags";
+import { subtaskProgressPercent } from "./utils/subtasks";
+import { useUndoHistory } from "./hooks/useUndoHistory";
 
 // Status colors (distinct from owner colors)
 export const statusColors = {
@@ -64,17 +114,10 @@ const KICKOFF = "2025-11-10"; // Next Monday from Nov 7, 2025
 const SOFT_READY = "2026-03-30";
 const LEDUCATION = "2026-04-14";
 const END = "2026-12-10"; // 13 months from kickoff
+const PROJECT_RANGE = { start: KICKOFF, end: END };
 
 // Subtask definitions with weights and descriptions
-const subtaskDefinitions: Record<
-  string,
-  Array<{
-    id: string;
-    label: string;
-    weight: number;
-    description: string;
-  }>
-> = {
+const defaultSubtaskDefinitions: Record<string, SubtaskDefinition[]> = {
   foundations: [
     {
       id: "mission",
@@ -686,7 +729,7 @@ const subtaskDefinitions: Record<
   ],
 };
 
-// Shared tracks (only web scope changes between versions)
+// Shared tracks (only web scope changes between scenarios)
 const sharedTracks = [
   {
     id: "foundations",
@@ -708,7 +751,7 @@ const sharedTracks = [
     start: "2025-12-01",
     end: "2026-01-23",
     owner: "Design",
-    category: "visual-assets" as const,
+    categories: ["visual-assets"],
   },
   {
     id: "photo_guides",
@@ -716,7 +759,7 @@ const sharedTracks = [
     start: "2025-12-08",
     end: "2026-02-07",
     owner: "Design",
-    category: "visual-assets" as const,
+    categories: ["visual-assets"],
   },
   {
     id: "templates",
@@ -724,7 +767,7 @@ const sharedTracks = [
     start: "2026-01-05",
     end: "2026-02-21",
     owner: "Design",
-    category: "templates" as const,
+    categories: ["templates"],
   },
   {
     id: "social_templates",
@@ -732,7 +775,7 @@ const sharedTracks = [
     start: "2026-01-12",
     end: "2026-02-28",
     owner: "Marketing",
-    category: "templates" as const,
+    categories: ["templates"],
   },
   {
     id: "product_id",
@@ -747,7 +790,7 @@ const sharedTracks = [
     start: "2026-01-12",
     end: "2026-03-25",
     owner: "Product",
-    category: "templates" as const,
+    categories: ["templates"],
   },
   {
     id: "analytics",
@@ -762,7 +805,7 @@ const sharedTracks = [
     start: "2026-02-10",
     end: "2026-03-25",
     owner: "Marketing",
-    category: "tradeshow" as const,
+    categories: ["tradeshow"],
   },
   {
     id: "factory_env",
@@ -784,7 +827,7 @@ const sharedTracks = [
     start: "2026-04-14",
     end: "2026-04-14",
     owner: "Marketing",
-    category: "tradeshow" as const,
+    categories: ["tradeshow"],
   },
 
   // Post-launch optimization & expansion (Apr-Dec 2026)
@@ -808,7 +851,7 @@ const sharedTracks = [
     start: "2026-05-15",
     end: "2026-07-15",
     owner: "Design",
-    category: "visual-assets" as const,
+    categories: ["visual-assets"],
   },
   {
     id: "video_production",
@@ -816,7 +859,7 @@ const sharedTracks = [
     start: "2026-06-01",
     end: "2026-09-30",
     owner: "Marketing",
-    category: "visual-assets" as const,
+    categories: ["visual-assets"],
   },
   {
     id: "packaging_design",
@@ -845,7 +888,7 @@ const sharedTracks = [
     start: "2026-08-01",
     end: "2026-10-31",
     owner: "Marketing",
-    category: "tradeshow" as const,
+    categories: ["tradeshow"],
   },
   {
     id: "factory_env_2",
@@ -867,7 +910,7 @@ const sharedTracks = [
     start: "2026-05-01",
     end: "2026-12-10",
     owner: "Marketing",
-    category: "website" as const,
+    categories: ["website"],
   },
   {
     id: "social_campaign_q3",
@@ -900,7 +943,7 @@ const tradeshowBooth = [
     start: "2025-12-01",
     end: "2026-01-20",
     owner: "Design",
-    category: "tradeshow" as const,
+    categories: ["tradeshow"],
   },
   {
     id: "booth_engineer",
@@ -908,7 +951,10 @@ const tradeshowBooth = [
     start: "2026-01-15",
     end: "2026-02-15",
     owner: "Marketing",
-    category: "tradeshow" as const,
+    categories: ["tradeshow"],
+    dependencies: [
+      { predecessorId: "booth_design", type: "FS" as const, lag: -5 },
+    ],
   },
   {
     id: "booth_fab",
@@ -916,7 +962,10 @@ const tradeshowBooth = [
     start: "2026-02-10",
     end: "2026-03-29",
     owner: "Marketing",
-    category: "tradeshow" as const,
+    categories: ["tradeshow"],
+    dependencies: [
+      { predecessorId: "booth_engineer", type: "FS" as const, lag: -5 },
+    ],
   },
   {
     id: "booth_ship",
@@ -924,7 +973,10 @@ const tradeshowBooth = [
     start: "2026-03-30",
     end: "2026-04-13",
     owner: "Marketing",
-    category: "tradeshow" as const,
+    categories: ["tradeshow"],
+    dependencies: [
+      { predecessorId: "booth_fab", type: "FS" as const, lag: 1 },
+    ],
   },
 ];
 
@@ -936,7 +988,7 @@ const websiteTracks = [
     start: "2025-12-15",
     end: "2026-01-10",
     owner: "Product",
-    category: "website" as const,
+    categories: ["website"],
   },
   {
     id: "web_ui",
@@ -944,7 +996,7 @@ const websiteTracks = [
     start: "2026-01-05",
     end: "2026-02-05",
     owner: "Design",
-    category: "website" as const,
+    categories: ["website"],
   },
   {
     id: "cms_build",
@@ -952,7 +1004,7 @@ const websiteTracks = [
     start: "2026-01-20",
     end: "2026-03-10",
     owner: "Product",
-    category: "website" as const,
+    categories: ["website"],
   },
   {
     id: "content_load",
@@ -960,7 +1012,10 @@ const websiteTracks = [
     start: "2026-02-10",
     end: "2026-03-20",
     owner: "Marketing",
-    category: "website" as const,
+    categories: ["website"],
+    dependencies: [
+      { predecessorId: "cms_build", type: "SS" as const, lag: 21 },
+    ],
   },
   {
     id: "qa_launch",
@@ -968,7 +1023,10 @@ const websiteTracks = [
     start: "2026-03-10",
     end: "2026-03-28",
     owner: "Product",
-    category: "website" as const,
+    categories: ["website"],
+    dependencies: [
+      { predecessorId: "cms_build", type: "FS" as const, lag: 0 },
+    ],
   },
   {
     id: "go_live",
@@ -976,7 +1034,10 @@ const websiteTracks = [
     start: "2026-03-30",
     end: "2026-03-30",
     owner: "Leadership",
-    category: "website" as const,
+    categories: ["website"],
+    dependencies: [
+      { predecessorId: "qa_launch", type: "FS" as const, lag: 2 },
+    ],
   },
 
   // Post-launch web enhancements
@@ -986,7 +1047,7 @@ const websiteTracks = [
     start: "2026-04-01",
     end: "2026-12-10",
     owner: "Marketing",
-    category: "website" as const,
+    categories: ["website"],
   },
   {
     id: "web_international",
@@ -994,7 +1055,7 @@ const websiteTracks = [
     start: "2026-09-01",
     end: "2026-11-30",
     owner: "Product",
-    category: "website" as const,
+    categories: ["website"],
   },
   {
     id: "web_features_q2",
@@ -1002,12 +1063,132 @@ const websiteTracks = [
     start: "2026-08-01",
     end: "2026-10-31",
     owner: "Product",
-    category: "website" as const,
+    categories: ["website"],
+  },
+];
+
+// Website tracks - Phased Website: a lean core site for the soft launch, with
+// the full catalog and content migration following in a second phase
+const phasedWebsiteTracks = [
+  {
+    id: "web_discovery",
+    label: "Website Discovery",
+    start: "2025-12-15",
+    end: "2026-01-10",
+    owner: "Product",
+    categories: ["website"],
+  },
+  {
+    id: "web_ui",
+    label: "UI Kit + Core Templates",
+    start: "2026-01-05",
+    end: "2026-01-30",
+    owner: "Design",
+    categories: ["website"],
+  },
+  {
+    id: "cms_build",
+    label: "Core Site Build",
+    start: "2026-01-20",
+    end: "2026-02-27",
+    owner: "Product",
+    categories: ["website"],
+  },
+  {
+    id: "content_load",
+    label: "Priority Content Loading",
+    start: "2026-02-10",
+    end: "2026-03-13",
+    owner: "Marketing",
+    categories: ["website"],
+    dependencies: [
+      { predecessorId: "cms_build", type: "SS" as const, lag: 21 },
+    ],
+  },
+  {
+    id: "qa_launch",
+    label: "QA & Performance Testing",
+    start: "2026-03-02",
+    end: "2026-03-20",
+    owner: "Product",
+    categories: ["website"],
+    dependencies: [
+      { predecessorId: "cms_build", type: "FS" as const, lag: 0 },
+    ],
+  },
+  {
+    id: "go_live",
+    label: "Go Live (Soft Launch)",
+    start: "2026-03-30",
+    end: "2026-03-30",
+    owner: "Leadership",
+    categories: ["website"],
+    dependencies: [
+      { predecessorId: "qa_launch", type: "FS" as const, lag: 2 },
+    ],
+  },
+
+  // Phase 2: full catalog
+  {
+    id: "web_phase2_catalog",
+    label: "Full Product Catalog + Schema",
+    start: "2026-04-20",
+    end: "2026-06-30",
+    owner: "Product",
+    categories: ["website"],
+  },
+  {
+    id: "web_phase2_content",
+    label: "Phase 2 Content Migration",
+    start: "2026-06-01",
+    end: "2026-07-31",
+    owner: "Marketing",
+    categories: ["website"],
+    dependencies: [
+      { predecessorId: "web_phase2_catalog", type: "SS" as const, lag: 42 },
+    ],
+  },
+  {
+    id: "web_phase2_launch",
+    label: "Phase 2 Launch",
+    start: "2026-08-03",
+    end: "2026-08-03",
+    owner: "Leadership",
+    categories: ["website"],
+    dependencies: [
+      { predecessorId: "web_phase2_content", type: "FS" as const, lag: 3 },
+    ],
+  },
+
+  // Post-launch web enhancements
+  {
+    id: "web_monitoring",
+    label: "Website Performance Monitoring",
+    start: "2026-04-01",
+    end: "2026-12-10",
+    owner: "Marketing",
+    categories: ["website"],
+  },
+  {
+    id: "web_international",
+    label: "Multi-language Expansion",
+    start: "2026-09-15",
+    end: "2026-12-10",
+    owner: "Product",
+    categories: ["website"],
+  },
+  {
+    id: "web_features_q2",
+    label: "Feature Additions Q3-Q4",
+    start: "2026-08-17",
+    end: "2026-11-13",
+    owner: "Product",
+    categories: ["website"],
   },
 ];
 
 // Build chart rows from tasks
-function buildRows(tasks: typeof sharedTracks) {
+function buildRows<T extends { start: string; end: string }>(tasks: T[]) {
   const minStart = KICKOFF;
   return tasks.map((t) => {
     const offset = Math.max(0, daysBetween(minStart, t.start));
@@ -1023,129 +1204,371 @@ const allProjectTasks = [
   ...websiteTracks,
 ];
 
-const milestones = [
-  { date: "2025-12-22", label: "Brand Foundations Complete" },
-  { date: SOFT_READY, label: "Soft Launch Ready" },
-  { date: LEDUCATION, label: "LEDucation NYC" },
-  { date: "2026-06-01", label: "Q2 Content Expansion Launch" },
-  { date: "2026-09-01", label: "Q3 Campaigns Begin" },
-  { date: "2026-11-01", label: "Lightfair Prep" },
-  { date: END, label: "Year-End Review" },
+// Plan scenarios; A is the plan above, B swaps in the phased website
+const defaultScenarios: Scenario[] = [
+  {
+    id: "A",
+    name: "Full Website Relaunch",
+    description: "The whole new site goes live at the soft launch",
+  },
+  {
+    id: "B",
+    name: "Phased Website",
+    description:
+      "A core site at the soft launch; the full catalog follows in August",
+    plan: {
+      baseTracks: [...sharedTracks, ...tradeshowBooth, ...phasedWebsiteTracks],
+      taskOverrides: {},
+      customTasks: [],
+      deletedTaskIds: [],
+    },
+  },
+];
+
+// Work breakdown phases; post-launch web work nests under Post-launch
+const defaultPhases: Phase[] = [
+  { id: "brand", label: "Brand" },
+  { id: "tradeshow", label: "Tradeshow" },
+  { id: "website", label: "Website" },
+  { id: "post_launch", label: "Post-launch" },
+  { id: "post_launch_web", label: "Web Enhancements", parentId: "post_launch" },
+];
+
+const defaultPhaseTracks: Record<string, string[]> = {
+  brand: [
+    "foundations",
+    "verbal",
+    "visual_guides",
+    "photo_guides",
+    "templates",
+    "social_templates",
+    "product_id",
+    "literature",
+    "analytics",
+    "factory_env",
+    "soft_launch_prep",
+  ],
+  tradeshow: [
+    "trade_signage",
+    "leducation",
+    "booth_design",
+    "booth_engineer",
+    "booth_fab",
+    "booth_ship",
+  ],
+  website: [
+    "web_discovery",
+    "web_ui",
+    "cms_build",
+    "content_load",
+    "qa_launch",
+    "go_live",
+  ],
+  post_launch: [
+    "post_launch_review",
+    "content_expansion",
+    "photo_shoot_2",
+    "video_production",
+    "packaging_design",
+    "dealer_portal",
+    "international_adapt",
+    "lightfair",
+    "factory_env_2",
+    "brand_guidelines_v2",
+    "seo_content_opt",
+    "social_campaign_q3",
+    "social_campaign_q4",
+    "year_end_review",
+  ],
+  post_launch_web: [
+    "web_phase2_catalog",
+    "web_phase2_content",
+    "web_phase2_launch",
+    "web_monitoring",
+    "web_international",
+    "web_features_q2",
+  ],
+};
+
+const defaultTaskPhases: Record<string, string> = Object.fromEntries(
+  Object.entries(defaultPhaseTracks).flatMap(([phaseId, taskIds]) =>
+    taskIds.map((taskId) => [taskId, phaseId]),
+  ),
+);
+
+// Project data covered by undo/redo
+interface ProjectData {
+  baseTracks: TaskDefinition[];
+  subtaskDefinitions: Record<string, SubtaskDefinition[]>;
+  milestones: Milestone[];
+  phases: Phase[];
+  taskPhases: Record<string, string>;
+  taskOverrides: Record<string, TaskOverride>;
+  customTasks: CustomTask[];
+  deletedTaskIds: Set<string>;
+  subtaskProgress: Record<string, Record<string, SubtaskProgress>>;
+  calendar: ProjectCalendar;
+  baselines: Baseline[];
+  scenarios: Scenario[];
+  activeScenarioId: string;
+  owners: Owner[];
+  categories: Category[];
+}
+
+// Sample progress shown before anything has been saved
+const initialSubtaskProgress: Record<
+  string,
+  Record<string, SubtaskProgress>
+> = {
+  foundations: {
+    mission: { state: "done" },
+  },
+};
+
+const defaultMilestones: Milestone[] = [
+  { id: "brand-foundations", date: "2025-12-22", label: "Brand Foundations Complete" },
+  { id: "soft-launch-ready", date: SOFT_READY, label: "Soft Launch Ready" },
+  { id: "leducation-nyc", date: LEDUCATION, label: "LEDucation NYC" },
+  { id: "q2-content-launch", date: "2026-06-01", label: "Q2 Content Expansion Launch" },
+  { id: "q3-campaigns", date: "2026-09-01", label: "Q3 Campaigns Begin" },
+  { id: "lightfair-prep", date: "2026-11-01", label: "Lightfair Prep" },
+  { id: "year-end-review", date: END, label: "Year-End Review" },
 ];
 
 export default function App() {
-  const [currentDate, setCurrentDate] = useState(
-    new Date().toISOString().slice(0, 10),
+  const [currentDate, setCurrentDate] = useState(todayPlainDate);
+  const [filterQuery, setFilterQuery] = useState("");
+
+  // Finish date the critical path is measured against (project end or a milestone)
+  const [criticalPathTarget, setCriticalPathTarget] = useState(END);
+
+  // Saved project state (plan, overrides, custom tasks, deletions, progress, colors)
+  const [{ state: savedProject, problem: loadProblem }] = useState(() =>
+    loadProjectState({
+      baseTracks: allProjectTasks,
+      subtaskDefinitions: defaultSubtaskDefinitions,
+      milestones: defaultMilestones,
+      phases: defaultPhases,
+      taskPhases: defaultTaskPhases,
+      taskOverrides: {},
+      customTasks: [],
+      deletedTaskIds: [],
+      subtaskProgress: initialSubtaskProgress,
+      categories: DEFAULT_CATEGORIES,
+      calendar: DEFAULT_CALENDAR,
+      dayUnit: "calendar",
+      baselines: [],
+      activeBaselineId: null,
+      scenarios: defaultScenarios,
+      activeScenarioId: "A",
+      owners: DEFAULT_OWNERS,
+      workloadCapacity: DEFAULT_CAPACITY,
+    }),
   );
-  const [searchTerm, setSearchTerm] = useState("");
-  const [ownerFilter, setOwnerFilter] = useState("all");
-  const [statusFilter, setStatusFilter] = useState("all");
-
-  // Category colors - customizable by user
-  const [categoryColors, setCategoryColors] = useState<Record<string, string>>(() => {
-    const saved = localStorage.getItem('categoryColors');
-    return saved ? JSON.parse(saved) : defaultCategoryColors;
-  });
 
-  // Color settings dialog
-  const [isColorSettingsOpen, setIsColorSettingsOpen] = useState(false);
+  // Whether durations and countdowns count working or calendar days
+  const [dayUnit, setDayUnit] = useState<DayUnit>(savedProject.dayUnit);
+  const [isCalendarSettingsOpen, setIsCalendarSettingsOpen] = useState(false);
+  const [isPhaseManagerOpen, setIsPhaseManagerOpen] = useState(false);
 
-  // Task overrides for custom dates, owners, and labels
-  const [taskOverrides, setTaskOverrides] = useState<
-    Record<string, { start?: string; end?: string; owner?: string; label?: string }>
-  >({});
+  // Which saved baseline the Gantt chart and variance report compare against
+  const [activeBaselineId, setActiveBaselineId] = useState<string | null>(
+    savedProject.activeBaselineId,
+  );
+  const [isBaselineDialogOpen, setIsBaselineDialogOpen] = useState(false);
+  const [isScenarioManagerOpen, setIsScenarioManagerOpen] = useState(false);
+  const [isOwnerRegistryOpen, setIsOwnerRegistryOpen] = useState(false);
+  const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false);
 
-  // Custom tasks created by user
-  const [customTasks, setCustomTasks] = useState<
-    Array<{ id: string; label: string; start: string; end: string; owner: string; category?: string }>
-  >([]);
+  // Percent of a week one person can take on before the workload view flags them
+  const [workloadCapacity, setWorkloadCapacity] = useState(
+    savedProject.workloadCapacity,
+  );
 
-  // Deleted task IDs
-  const [deletedTaskIds, setDeletedTaskIds] = useState<Set<string>>(new Set());
+  // Tab shown, and tasks the Gantt chart picks out when another view links to it
+  const [activeTab, setActiveTab] = useState("dashboard");
+  const [ganttFocus, setGanttFocus] = useState<GanttFocus | null>(null);
 
-  // Save category colors to localStorage whenever they change
-  useEffect(() => {
-    localStorage.setItem('categoryColors', JSON.stringify(categoryColors));
-  }, [categoryColors]);
+  // Undoable project data: the plan (base tracks, subtask definitions,
+  // milestones, phases and which task sits in which), task overrides for custom dates, owners and labels, custom
+  // tasks created by the user, deleted task IDs, each subtask's state
+  // (taskId: { subtaskId: { state: todo/doing/done, percent? } }), the working calendar, saved
+  // baselines, the other scenarios' plans and the owner and category registries
+  const history = useUndoHistory<ProjectData>(() => ({
+    baseTracks: savedProject.baseTracks,
+    subtaskDefinitions: savedProject.subtaskDefinitions,
+    milestones: savedProject.milestones,
+    phases: savedProject.phases,
+    taskPhases: savedProject.taskPhases,
+    taskOverrides: savedProject.taskOverrides,
+    customTasks: savedProject.customTasks,
+    deletedTaskIds: new Set(savedProject.deletedTaskIds),
+    subtaskProgress: savedProject.subtaskProgress,
+    calendar: savedProject.calendar,
+    baselines: savedProject.baselines,
+    scenarios: savedProject.scenarios,
+    activeScenarioId: savedProject.activeScenarioId,
+    owners: savedProject.owners,
+    categories: savedProject.categories,
+  }));
+  const {
+    baseTracks,
+    subtaskDefinitions,
+    milestones,
+    phases,
+    taskPhases,
+    taskOverrides,
+    customTasks,
+    deletedTaskIds,
+    subtaskProgress,
+    calendar,
+    baselines,
+    scenarios,
+    activeScenarioId,
+    owners,
+    categories,
+  } = history.state;
 
-  // Update a single category color
-  const updateCategoryColor = (category: string, color: string) => {
-    setCategoryColors(prev => ({
-      ...prev,
-      [category]: color
-    }));
+  const undo = () => {
+    if (!history.nextUndo) return;
+    toast(`Undid: ${history.nextUndo}`);
+    history.undo();
   };
 
-  // Reset category colors to defaults
-  const resetCategoryColors = () => {
-    setCategoryColors(defaultCategoryColors);
-    toast.success('Category colors reset to defaults');
+  const redo = () => {
+    if (!history.nextRedo) return;
+    toast(`Redid: ${history.nextRedo}`);
+    history.redo();
   };
 
-  // Track which subtasks are completed (taskId: { subtaskId: boolean })
-  const [subtaskProgress, setSubtaskProgress] = useState<
-    Record<string, Record<string, boolean>>
-  >(() => {
-    const saved = localStorage.getItem('subtaskProgress');
-    if (saved) {
-      return JSON.parse(saved);
-    }
-    // Initial sample data
-    return {
-      foundations: {
-        mission: true,
-        vision: false,
-        values: false,
-        positioning: false,
-        messages: false,
-      },
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); Ctrl+Y also redoes. Text fields
+  // keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === "INPUT" ||
+          target.tagName === "TEXTAREA" ||
+          target.isContentEditable)
+      ) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
     };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
   });
 
-  // Save subtask progress to localStorage whenever it changes
+  // The whole project in its serializable form
+  const projectState: ProjectState = useMemo(
+    () => ({
+      baseTracks,
+      subtaskDefinitions,
+      milestones,
+      phases,
+      taskPhases,
+      taskOverrides,
+      customTasks,
+      deletedTaskIds: Array.from(deletedTaskIds),
+      subtaskProgress,
+      categories,
+      calendar,
+      dayUnit,
+      baselines,
+      activeBaselineId,
+      scenarios,
+      activeScenarioId,
+      owners,
+      workloadCapacity,
+    }),
+    [
+      baseTracks,
+      subtaskDefinitions,
+      milestones,
+      phases,
+      taskPhases,
+      taskOverrides,
+      customTasks,
+      deletedTaskIds,
+      subtaskProgress,
+      categories,
+      calendar,
+      dayUnit,
+      baselines,
+      activeBaselineId,
+      scenarios,
+      activeScenarioId,
+      owners,
+      workloadCapacity,
+    ],
+  );
+
+  // The active scenario's plan, as stored for the others
+  const activePlan = useMemo(
+    () => ({
+      baseTracks,
+      taskOverrides,
+      customTasks,
+      deletedTaskIds: Array.from(deletedTaskIds),
+    }),
+    [baseTracks, taskOverrides, customTasks, deletedTaskIds],
+  );
+
+  // Undoing a baseline's creation can leave the active id dangling
+  const activeBaseline =
+    baselines.find((baseline) => baseline.id === activeBaselineId) || null;
+
+  // Save the whole project state to localStorage whenever the user changes
+  // any part of it. Nothing is written on mount, so a saved project this
+  // build could not read stays in place until the first real edit.
+  const lastSavedState = useRef(projectState);
   useEffect(() => {
-    localStorage.setItem('subtaskProgress', JSON.stringify(subtaskProgress));
-  }, [subtaskProgress]);
+    if (projectState === lastSavedState.current) return;
+    lastSavedState.current = projectState;
+    saveProjectState(projectState);
+  }, [projectState]);
+
+  useEffect(() => {
+    if (!loadProblem) return;
+    toast.warning("Your saved project could not be opened", {
+      description: `${loadProblem}. A copy is kept as a backup; your next change starts a new saved project from the defaults.`,
+      duration: 15000,
+    });
+  }, [loadProblem]);
 
   const allTasks = useMemo(() => {
-    // Combine base tasks and custom tasks
-    const combinedTasks = [...allProjectTasks, ...customTasks];
-    
-    // Apply task overrides and filter out deleted tasks
-    const tasksWithOverrides = combinedTasks
-      .filter((task) => !deletedTaskIds.has(task.id))
-      .map((task) => {
-        const override = taskOverrides[task.id];
-        if (override) {
-          return {
-            ...task,
-            start: override.start || task.start,
-            end: override.end || task.end,
-            owner: override.owner || task.owner,
-            label: override.label || task.label,
-          };
-        }
-        return task;
-      });
+    // Base tasks and custom tasks of the active scenario, with overrides
+    // applied and deleted tasks left out
+    const tasksWithOverrides = planTasks({
+      baseTracks,
+      taskOverrides,
+      customTasks,
+      deletedTaskIds: Array.from(deletedTaskIds),
+    }).map((task) => {
+      const phaseId: string | undefined = taskPhases[task.id];
+      return { ...task, phaseId };
+    });
     return buildRows(tasksWithOverrides);
-  }, [taskOverrides, customTasks, deletedTaskIds]);
+  }, [baseTracks, taskOverrides, customTasks, deletedTaskIds, taskPhases]);
 
   // Calculate overall task progress based on weighted subtasks
   const progress = useMemo(() => {
     const result: Record<string, number> = {};
 
     Object.keys(subtaskDefinitions).forEach((taskId) => {
-      const subtasks = subtaskDefinitions[taskId];
-      const completed = subtaskProgress[taskId] || {};
-
-      let totalProgress = 0;
-      subtasks.forEach((subtask) => {
-        if (completed[subtask.id]) {
-          totalProgress += subtask.weight * 100;
-        }
-      });
-
-      result[taskId] = Math.round(totalProgress);
+      result[taskId] = subtaskProgressPercent(
+        subtaskDefinitions[taskId],
+        subtaskProgress[taskId] || {},
+      );
     });
 
     // For tasks without subtasks, keep at 0
@@ -1156,99 +1579,454 @@ export default function App() {
     });
 
     return result;
-  }, [subtaskProgress, allTasks]);
+  }, [subtaskProgress, subtaskDefinitions, allTasks]);
 
-  // Get unique owners for filter dropdown
-  const uniqueOwners = useMemo(() => {
-    const owners = new Set(allTasks.map((t) => t.owner));
-    return Array.from(owners).sort();
-  }, [allTasks]);
+  // Date range currently shown in the Gantt tab, used by the PDF export
+  const [ganttRange, setGanttRange] = useState({ start: KICKOFF, end: END });
 
-  // Filter tasks based on search and filters
-  const filteredTasks = useMemo(() => {
-    return allTasks.filter((task) => {
-      // Search filter
-      const matchesSearch =
-        !searchTerm ||
-        task.label
-          .toLowerCase()
-          .includes(searchTerm.toLowerCase()) ||
-        task.owner
-          .toLowerCase()
-          .includes(searchTerm.toLowerCase());
-
-      // Owner filter
-      const matchesOwner =
-        ownerFilter === "all" || task.owner === ownerFilter;
-
-      // Status filter
-      let matchesStatus = true;
-      if (statusFilter !== "all") {
-        const taskProgress = progress[task.id] || 0;
-        const today = toDate(currentDate);
-        const start = toDate(task.start);
-        const end = toDate(task.end);
-
-        if (statusFilter === "completed") {
-          matchesStatus = taskProgress === 100;
-        } else if (statusFilter === "in-progress") {
-          matchesStatus =
-            today >= start &&
-            today <= end &&
-            taskProgress < 100;
-        } else if (statusFilter === "not-started") {
-          matchesStatus = today < start;
-        } else if (statusFilter === "overdue") {
-          matchesStatus = today > end && taskProgress < 100;
-        }
-      }
+  // Total/free float per task and which tasks drive the finish target
+  const criticalPath = useMemo(
+    () => computeCriticalPath(allTasks, criticalPathTarget),
+    [allTasks, criticalPathTarget],
+  );
+
+  // Registered owners in registry order, then any that only tasks mention
+  const unregistered = useMemo(
+    () => unregisteredOwners(owners, allTasks.map((t) => t.owner)),
+    [owners, allTasks],
+  );
+  const uniqueOwners = useMemo(
+    () => [...owners.map((owner) => owner.name), ...unregistered],
+    [owners, unregistered],
+  );
+
+  const ownerTaskCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    allTasks.forEach((task) => {
+      counts[task.owner] = (counts[task.owner] || 0) + 1;
+    });
+    return counts;
+  }, [allTasks]);
 
-      return matchesSearch && matchesOwner && matchesStatus;
+  // Tasks per category, and category ids tasks use that are not registered
+  const categoryTaskCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    allTasks.forEach((task) => {
+      (task.categories || []).forEach((id) => {
+        counts[id] = (counts[id] || 0) + 1;
+      });
     });
+    return counts;
+  }, [allTasks]);
+  const unregisteredCategoryIds = useMemo(
+    () => unregisteredCategories(categories, Object.keys(categoryTaskCounts)),
+    [categories, categoryTaskCounts],
+  );
+
+  // Tags and assignees the filter query can complete
+  const uniqueTags = useMemo(() => tagsInUse(allTasks), [allTasks]);
+  const uniqueAssignees = useMemo(
+    () =>
+      Array.from(
+        new Set([
+          ...owners.flatMap((owner) => owner.members || []),
+          ...allTasks.flatMap((task) => task.assignees || []),
+        ]),
+      ).sort(),
+    [owners, allTasks],
+  );
+
+  // Filter tasks by the query in the filter panel
+  const filteredTasks = useMemo(() => {
+    const terms = parseFilterQuery(filterQuery);
+    if (terms.length === 0) return allTasks;
+    return allTasks.filter((task) =>
+      matchesFilterQuery(task, terms, {
+        progress,
+        currentDate,
+        criticalPath,
+        categories,
+      }),
+    );
   }, [
     allTasks,
-    searchTerm,
-    ownerFilter,
-    statusFilter,
+    filterQuery,
     progress,
     currentDate,
+    criticalPath,
+    categories,
   ]);
 
   const resetFilters = () => {
-    setSearchTerm("");
-    setOwnerFilter("all");
-    setStatusFilter("all");
+    setFilterQuery("");
+  };
+
+  // Open the Gantt chart with `focus` picked out; filters could hide it
+  const handleShowInGantt = (focus: GanttFocus) => {
+    resetFilters();
+    setGanttFocus(focus);
+    setActiveTab("gantt");
   };
 
-  const handleCreateTask = (taskData: {
+  const handleCreateTask = ({
+    phaseId,
+    ...taskData
+  }: {
     label: string;
     start: string;
     end: string;
     owner: string;
-    category?: string;
+    categories?: string[];
+    phaseId?: string;
+    assignees?: string[];
+    tags?: string[];
   }) => {
     const newTask = {
       id: `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       ...taskData,
     };
-    setCustomTasks((prev) => [...prev, newTask]);
+    history.execute(`Create "${taskData.label}"`, (prev) => ({
+      ...prev,
+      customTasks: [...prev.customTasks, newTask],
+      taskPhases: phaseId
+        ? { ...prev.taskPhases, [newTask.id]: phaseId }
+        : prev.taskPhases,
+    }));
+  };
+
+  // Apply an edit, then push any successors whose links it now violates. A
+  // `phaseId` moves the task to that phase; null takes it out of any phase.
+  const handleUpdateTask = (
+    taskId: string,
+    { phaseId, ...updates }: TaskOverride & { phaseId?: string | null },
+  ) => {
+    const updatedTasks = allTasks.map((task) =>
+      task.id === taskId ? { ...task, ...updates } : task,
+    );
+    const rescheduled = cascadeSchedule(updatedTasks, taskId);
+    const label =
+      updates.label ||
+      allTasks.find((task) => task.id === taskId)?.label ||
+      taskId;
+    const datesOnly =
+      phaseId === undefined &&
+      Object.keys(updates).every((key) => key === "start" || key === "end");
+
+    history.execute(
+      `${datesOnly ? "Reschedule" : "Edit"} "${label}"`,
+      (prev) => {
+        const next = {
+          ...prev.taskOverrides,
+          [taskId]: { ...prev.taskOverrides[taskId], ...updates },
+        };
+        rescheduled.forEach((task) => {
+          next[task.id] = {
+            ...next[task.id],
+            start: task.start,
+            end: task.end,
+          };
+        });
+        if (phaseId === undefined) return { ...prev, taskOverrides: next };
+        const taskPhases = { ...prev.taskPhases };
+        if (phaseId) taskPhases[taskId] = phaseId;
+        else delete taskPhases[taskId];
+        return { ...prev, taskOverrides: next, taskPhases };
+      },
+    );
+
+    if (rescheduled.length > 0) {
+      toast.info(
+        `Rescheduled ${rescheduled.length} dependent task${rescheduled.length !== 1 ? "s" : ""}`,
+        {
+          description: rescheduled
+            .map(
+              (task) =>
+                `${task.label}: +${task.shiftDays} day${task.shiftDays !== 1 ? "s" : ""}`,
+            )
+            .join("; "),
+        },
+      );
+    }
+  };
+
+  // Accept resource leveling moves. Each move keeps its successors' links on
+  // its own, but a subset of a proposal may not, so successors are pushed
+  // here the same way a manual reschedule would push them.
+  const handleApplyLeveling = (moves: LevelingMove[]) => {
+    let updatedTasks = allTasks;
+    const dates: Record<string, { start: string; end: string }> = {};
+    const setDates = (id: string, start: string, end: string) => {
+      dates[id] = { start, end };
+      updatedTasks = updatedTasks.map((task) =>
+        task.id === id ? { ...task, start, end } : task,
+      );
+    };
+    const pushed = new Set<string>();
+    moves.forEach((move) => {
+      setDates(move.taskId, move.newStart, move.newEnd);
+      cascadeSchedule(updatedTasks, move.taskId).forEach((task) => {
+        setDates(task.id, task.start, task.end);
+        pushed.add(task.id);
+      });
+    });
+
+    history.execute(
+      moves.length === 1
+        ? `Level "${moves[0].label}"`
+        : `Level ${moves.length} tasks`,
+      (prev) => {
+        const next = { ...prev.taskOverrides };
+        Object.entries(dates).forEach(([id, { start, end }]) => {
+          next[id] = { ...next[id], start, end };
+        });
+        return { ...prev, taskOverrides: next };
+      },
+    );
+
+    toast.success(
+      `Rescheduled ${moves.length} task${moves.length !== 1 ? "s" : ""} to level workload`,
+      pushed.size > 0
+        ? {
+            description: `${pushed.size} dependent task${pushed.size !== 1 ? "s were" : " was"} pushed to keep their links`,
+          }
+        : undefined,
+    );
   };
 
   const handleDeleteTask = (taskId: string) => {
-    setDeletedTaskIds((prev) => new Set([...prev, taskId]));
-    // Also remove from task overrides and subtask progress
-    setTaskOverrides((prev) => {
-      const updated = { ...prev };
-      delete updated[taskId];
-      return updated;
+    const label =
+      allTasks.find((task) => task.id === taskId)?.label || taskId;
+    history.execute(`Delete "${label}"`, (prev) => {
+      // Also remove from task overrides and subtask progress
+      const taskOverrides = { ...prev.taskOverrides };
+      delete taskOverrides[taskId];
+      const subtaskProgress = { ...prev.subtaskProgress };
+      delete subtaskProgress[taskId];
+      const taskPhases = { ...prev.taskPhases };
+      delete taskPhases[taskId];
+      return {
+        ...prev,
+        deletedTaskIds: new Set([...prev.deletedTaskIds, taskId]),
+        taskOverrides,
+        subtaskProgress,
+        taskPhases,
+      };
     });
-    setSubtaskProgress((prev) => {
-      const updated = { ...prev };
-      delete updated[taskId];
-      return updated;
+  };
+
+  // Replace a task's subtask list; progress of removed subtasks goes with them
+  const handleUpdateSubtasks = (
+    taskId: string,
+    subtasks: SubtaskDefinition[],
+    description: string,
+  ) => {
+    history.execute(description, (prev) => {
+      const subtaskDefinitions = { ...prev.subtaskDefinitions };
+      const subtaskProgress = { ...prev.subtaskProgress };
+      if (subtasks.length === 0) {
+        delete subtaskDefinitions[taskId];
+        delete subtaskProgress[taskId];
+      } else {
+        subtaskDefinitions[taskId] = subtasks;
+        const completed = prev.subtaskProgress[taskId] || {};
+        subtaskProgress[taskId] = Object.fromEntries(
+          subtasks
+            .filter((subtask) => subtask.id in completed)
+            .map((subtask) => [subtask.id, completed[subtask.id]]),
+        );
+      }
+      return { ...prev, subtaskDefinitions, subtaskProgress };
     });
   };
 
+  const handleResetTimelines = () => {
+    history.execute("Reset all timeline edits", (prev) => ({
+      ...prev,
+      taskOverrides: {},
+    }));
+  };
+
+  // Load a project file, replacing the current project or merging into it
+  const handleImportProject = (incoming: ProjectState, mode: ImportMode) => {
+    const next =
+      mode === "merge"
+        ? mergeProjectStates(projectState, incoming)
+        : incoming;
+    history.execute(
+      mode === "merge" ? "Merge project file" : "Import project file",
+      () => ({
+        baseTracks: next.baseTracks,
+        subtaskDefinitions: next.subtaskDefinitions,
+        milestones: next.milestones,
+        phases: next.phases,
+        taskPhases: next.taskPhases,
+        taskOverrides: next.taskOverrides,
+        customTasks: next.customTasks,
+        deletedTaskIds: new Set(next.deletedTaskIds),
+        subtaskProgress: next.subtaskProgress,
+        calendar: next.calendar,
+        baselines: next.baselines,
+        scenarios: next.scenarios,
+        activeScenarioId: next.activeScenarioId,
+        owners: next.owners,
+        categories: next.categories,
+      }),
+    );
+    setDayUnit(next.dayUnit);
+    setActiveBaselineId(next.activeBaselineId);
+    setWorkloadCapacity(next.workloadCapacity);
+  };
+
+  // Apply a CSV import: matched rows become overrides, the rest new tasks
+  // Imported dates can break links just like a manual reschedule, so the
+  // successors of every task whose dates changed are pushed the same way
+  const handleImportCsv = (
+    overrides: Record<string, TaskOverride>,
+    newTasks: NewTaskData[],
+  ) => {
+    const updated = Object.keys(overrides).length;
+    const created = newTasks.map((task, idx) => ({
+      id: `custom_${Date.now()}_${idx}_${Math.random().toString(36).substr(2, 9)}`,
+      ...task,
+    }));
+    let updatedTasks = allTasks.map((task) =>
+      overrides[task.id] ? { ...task, ...overrides[task.id] } : task,
+    );
+    const pushed: Record<string, { start: string; end: string }> = {};
+    allTasks.forEach((task) => {
+      const override = overrides[task.id];
+      if (
+        !override ||
+        ((override.start ?? task.start) === task.start &&
+          (override.end ?? task.end) === task.end)
+      ) {
+        return;
+      }
+      cascadeSchedule(updatedTasks, task.id).forEach(({ id, start, end }) => {
+        pushed[id] = { start, end };
+        updatedTasks = updatedTasks.map((t) =>
+          t.id === id ? { ...t, start, end } : t,
+        );
+      });
+    });
+
+    history.execute(
+      `Import CSV (${updated} updated, ${created.length} created)`,
+      (prev) => {
+        const taskOverrides = { ...prev.taskOverrides };
+        Object.entries(overrides).forEach(([taskId, override]) => {
+          taskOverrides[taskId] = { ...taskOverrides[taskId], ...override };
+        });
+        Object.entries(pushed).forEach(([taskId, { start, end }]) => {
+          taskOverrides[taskId] = { ...taskOverrides[taskId], start, end };
+        });
+        return {
+          ...prev,
+          taskOverrides,
+          customTasks: [...prev.customTasks, ...created],
+        };
+      },
+    );
+
+    const pushedCount = Object.keys(pushed).length;
+    if (pushedCount > 0) {
+      toast.info(
+        `Rescheduled ${pushedCount} dependent task${pushedCount !== 1 ? "s" : ""} to keep their links`,
+      );
+    }
+  };
+
+  const handlePhasesChange = (
+    nextPhases: Phase[],
+    nextTaskPhases: Record<string, string>,
+    description: string,
+  ) => {
+    history.execute(description, (prev) => ({
+      ...prev,
+      phases: nextPhases,
+      taskPhases: nextTaskPhases,
+    }));
+  };
+
+  // Swap the active plan for another scenario's; undo swaps back
+  const handleSwitchScenario = (scenarioId: string) => {
+    const target = scenarios.find((scenario) => scenario.id === scenarioId);
+    if (!target || scenarioId === activeScenarioId) return;
+    history.execute(`Switch to scenario ${target.id}: ${target.name}`, (prev) => {
+      const next = switchScenario(
+        { ...prev, deletedTaskIds: Array.from(prev.deletedTaskIds) },
+        scenarioId,
+      );
+      return { ...next, deletedTaskIds: new Set(next.deletedTaskIds) };
+    });
+  };
+
+  const handleScenariosChange = (next: Scenario[], description: string) => {
+    history.execute(description, (prev) => ({ ...prev, scenarios: next }));
+  };
+
+  const handleBaselinesChange = (next: Baseline[], description: string) => {
+    history.execute(description, (prev) => ({ ...prev, baselines: next }));
+  };
+
+  const handleOwnersChange = (next: Owner[], description: string) => {
+    history.execute(description, (prev) => ({ ...prev, owners: next }));
+  };
+
+  // Rename an owner everywhere it appears: the registry, every scenario's
+  // tasks and the calendar's owner exceptions
+  const handleRenameOwner = (from: string, to: string) => {
+    history.execute(`Rename owner ${from} to ${to}`, (prev) => ({
+      ...renameOwnerInPlan(prev, from, to),
+      owners: prev.owners.map((owner) =>
+        owner.name === from ? { ...owner, name: to } : owner,
+      ),
+      scenarios: prev.scenarios.map((scenario) =>
+        scenario.plan
+          ? { ...scenario, plan: renameOwnerInPlan(scenario.plan, from, to) }
+          : scenario,
+      ),
+      calendar: renameOwnerInCalendar(prev.calendar, from, to),
+    }));
+    setFilterQuery((query) => renameQueryValue(query, "owner", from, to));
+  };
+
+  const handleCategoriesChange = (next: Category[], description: string) => {
+    history.execute(description, (prev) => ({ ...prev, categories: next }));
+  };
+
+  // Delete a category, moving the tasks of every scenario that have it to
+  // `replacement`, or just taking it off them when that is null
+  const handleDeleteCategory = (id: string, replacement: string | null) => {
+    const label = categories.find((category) => category.id === id)?.label || id;
+    history.execute(`Delete category ${label}`, (prev) => ({
+      ...reassignCategoryInPlan(prev, id, replacement),
+      categories: prev.categories.filter((category) => category.id !== id),
+      scenarios: prev.scenarios.map((scenario) =>
+        scenario.plan
+          ? {
+              ...scenario,
+              plan: reassignCategoryInPlan(scenario.plan, id, replacement),
+            }
+          : scenario,
+      ),
+    }));
+  };
+
+  const handleCalendarChange = (next: ProjectCalendar, description: string) => {
+    history.execute(description, (prev) => ({ ...prev, calendar: next }));
+  };
+
+  const handleSubtaskProgressChange = (
+    next: Record<string, Record<string, SubtaskProgress>>,
+    description = "Update subtask progress",
+  ) => {
+    history.execute(description, (prev) => ({
+      ...prev,
+      subtaskProgress: next,
+    }));
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
       <Toaster />
@@ -1265,39 +2043,158 @@ export default function App() {
                 <span className="flex items-center gap-1.5">
                   <div className="w-2 h-2 rounded-full bg-green-500"></div>
                   Kickoff:{" "}
-                  {new Date(KICKOFF).toLocaleDateString()}
+                  {formatDate(KICKOFF)}
                 </span>
                 <span className="flex items-center gap-1.5">
                   <div className="w-2 h-2 rounded-full bg-blue-500"></div>
                   Soft Launch:{" "}
-                  {new Date(SOFT_READY).toLocaleDateString()}
+                  {formatDate(SOFT_READY)}
                 </span>
                 <span className="flex items-center gap-1.5">
                   <div className="w-2 h-2 rounded-full bg-purple-500"></div>
                   LEDucation:{" "}
-                  {new Date(LEDUCATION).toLocaleDateString()}
+                  {formatDate(LEDUCATION)}
                 </span>
               </div>
             </div>
             <div className="flex gap-2">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={undo}
+                      disabled={!history.nextUndo}
+                      className="gap-2"
+                    >
+                      <Undo2 className="h-4 w-4" />
+                      Undo
+                    </Button>
+                  </span>
+                </TooltipTrigger>
+                <TooltipContent>
+                  {history.nextUndo
+                    ? `Undo: ${history.nextUndo} (Ctrl+Z)`
+                    : "Nothing to undo"}
+                </TooltipContent>
+              </Tooltip>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={redo}
+                      disabled={!history.nextRedo}
+                      className="gap-2"
+                    >
+                      <Redo2 className="h-4 w-4" />
+                      Redo
+                    </Button>
+                  </span>
+                </TooltipTrigger>
+                <TooltipContent>
+                  {history.nextRedo
+                    ? `Redo: ${history.nextRedo} (Ctrl+Shift+Z)`
+                    : "Nothing to redo"}
+                </TooltipContent>
+              </Tooltip>
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setIsColorSettingsOpen(true)}
+                onClick={() => setIsCategoryManagerOpen(true)}
                 className="gap-2"
               >
                 <Palette className="h-4 w-4" />
-                Category Colors
+                Categories
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsOwnerRegistryOpen(true)}
+                className="gap-2"
+              >
+                <Users className="h-4 w-4" />
+                Owners
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsCalendarSettingsOpen(true)}
+                className="gap-2"
+              >
+                <CalendarCog className="h-4 w-4" />
+                Calendar
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsPhaseManagerOpen(true)}
+                className="gap-2"
+              >
+                <FolderTree className="h-4 w-4" />
+                Phases
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsBaselineDialogOpen(true)}
+                className="gap-2"
+              >
+                <Layers className="h-4 w-4" />
+                Baselines
+              </Button>
+              <ReportBuilderDialog
+                tasks={allTasks}
+                progress={progress}
+                currentDate={currentDate}
+                milestones={milestones}
+                owners={owners}
+                version={activeScenarioId}
+              />
               <ExportDialog
                 tasks={allTasks}
                 progress={progress}
-                version="A"
+                version={activeScenarioId}
+                project={projectState}
+                onImportProject={handleImportProject}
+                onImportCsv={handleImportCsv}
+                ganttTasks={filteredTasks}
+                ganttRange={ganttRange}
+                currentDate={currentDate}
               />
             </div>
           </div>
 
           <div className="flex gap-3 items-center justify-end">
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Scenario</span>
+              <Select
+                value={activeScenarioId}
+                onValueChange={handleSwitchScenario}
+              >
+                <SelectTrigger className="w-[260px] bg-white shadow-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {scenarios.map((scenario) => (
+                    <SelectItem key={scenario.id} value={scenario.id}>
+                      {scenario.id}: {scenario.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsScenarioManagerOpen(true)}
+                className="gap-2"
+              >
+                <GitBranch className="h-4 w-4" />
+                Scenarios
+              </Button>
+            </div>
             <div className="flex items-center gap-2 bg-white rounded-lg px-3 py-2 border shadow-sm">
               <Calendar className="h-4 w-4 text-blue-500" />
               <input
@@ -1313,8 +2210,8 @@ export default function App() {
 
       {/* Main Content */}
       <div className="container mx-auto px-6 py-8">
-        <Tabs defaultValue="dashboard" className="space-y-6">
-          <TabsList className="grid w-full max-w-3xl grid-cols-5 h-auto p-1 bg-white shadow-sm border">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList className="grid w-full max-w-6xl grid-cols-8 h-auto p-1 bg-white shadow-sm border">
             <TabsTrigger
               value="dashboard"
               className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-500 data-[state=active]:to-indigo-500 data-[state=active]:text-white"
@@ -1339,6 +2236,24 @@ export default function App() {
             >
               By Owner
             </TabsTrigger>
+            <TabsTrigger
+              value="workload"
+              className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-fuchsia-500 data-[state=active]:to-purple-500 data-[state=active]:text-white"
+            >
+              Workload
+            </TabsTrigger>
+            <TabsTrigger
+              value="variance"
+              className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-slate-600 data-[state=active]:to-slate-500 data-[state=active]:text-white"
+            >
+              Variance
+            </TabsTrigger>
+            <TabsTrigger
+              value="scenarios"
+              className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-500 data-[state=active]:to-violet-500 data-[state=active]:text-white"
+            >
+              Compare Scenarios
+            </TabsTrigger>
             <TabsTrigger
               value="progress"
               className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-orange-500 data-[state=active]:to-red-500 data-[state=active]:text-white"
@@ -1350,21 +2265,24 @@ export default function App() {
           <TabsContent value="dashboard" className="space-y-6">
             <DashboardView
               tasks={allTasks}
+              phases={phases}
+              owners={owners}
               progress={progress}
               currentDate={currentDate}
+              calendar={calendar}
+              dayUnit={dayUnit}
             />
           </TabsContent>
 
           <TabsContent value="gantt" className="space-y-4">
             <Card className="p-4 bg-white/80 backdrop-blur shadow-lg border-0">
               <FilterPanel
-                searchTerm={searchTerm}
-                setSearchTerm={setSearchTerm}
-                ownerFilter={ownerFilter}
-                setOwnerFilter={setOwnerFilter}
-                statusFilter={statusFilter}
-                setStatusFilter={setStatusFilter}
+                query={filterQuery}
+                setQuery={setFilterQuery}
                 owners={uniqueOwners}
+                categories={categories}
+                tags={uniqueTags}
+                assignees={uniqueAssignees}
                 onReset={resetFilters}
               />
             </Card>
@@ -1377,26 +2295,33 @@ export default function App() {
             ) : (
               <GanttView
                 tasks={filteredTasks}
+                phases={phases}
                 progress={progress}
                 kickoff={KICKOFF}
                 endDate={END}
                 currentDate={currentDate}
                 milestones={milestones}
-                categoryColors={categoryColors}
-                onUpdateTask={(taskId, updates) => {
-                  setTaskOverrides((prev) => ({
-                    ...prev,
-                    [taskId]: { ...prev[taskId], ...updates },
-                  }));
-                }}
+                categories={categories}
+                owners={owners}
+                allTasks={allTasks}
+                criticalPath={criticalPath}
+                criticalPathTarget={criticalPathTarget}
+                onCriticalPathTargetChange={setCriticalPathTarget}
+                onUpdateTask={handleUpdateTask}
                 onCreateTask={handleCreateTask}
                 onDeleteTask={handleDeleteTask}
-                onResetTimelines={() => setTaskOverrides({})}
+                onResetTimelines={handleResetTimelines}
                 hasOverrides={
                   Object.keys(taskOverrides).length > 0
                 }
                 subtaskDefinitions={subtaskDefinitions}
                 subtaskProgress={subtaskProgress}
+                onVisibleRangeChange={setGanttRange}
+                calendar={calendar}
+                dayUnit={dayUnit}
+                baseline={activeBaseline}
+                focus={ganttFocus}
+                onClearFocus={() => setGanttFocus(null)}
               />
             )}
           </TabsContent>
@@ -1406,19 +2331,21 @@ export default function App() {
               tasks={allTasks}
               currentDate={currentDate}
               progress={progress}
+              owners={owners}
+              calendar={calendar}
+              dayUnit={dayUnit}
             />
           </TabsContent>
 
           <TabsContent value="by-owner" className="space-y-4">
             <Card className="p-4">
               <FilterPanel
-                searchTerm={searchTerm}
-                setSearchTerm={setSearchTerm}
-                ownerFilter={ownerFilter}
-                setOwnerFilter={setOwnerFilter}
-                statusFilter={statusFilter}
-                setStatusFilter={setStatusFilter}
+                query={filterQuery}
+                setQuery={setFilterQuery}
                 owners={uniqueOwners}
+                categories={categories}
+                tags={uniqueTags}
+                assignees={uniqueAssignees}
                 onReset={resetFilters}
               />
             </Card>
@@ -1431,32 +2358,133 @@ export default function App() {
             ) : (
               <OwnerView
                 tasks={filteredTasks}
+                phases={phases}
+                owners={owners}
                 progress={progress}
                 currentDate={currentDate}
+                calendar={calendar}
+                dayUnit={dayUnit}
               />
             )}
           </TabsContent>
 
+          <TabsContent value="workload" className="space-y-4">
+            <WorkloadView
+              tasks={allTasks}
+              subtaskDefinitions={subtaskDefinitions}
+              owners={owners}
+              range={PROJECT_RANGE}
+              calendar={calendar}
+              capacity={workloadCapacity}
+              onCapacityChange={setWorkloadCapacity}
+              onShowInGantt={handleShowInGantt}
+              criticalPath={criticalPath}
+              criticalPathTarget={criticalPathTarget}
+              onApplyLeveling={handleApplyLeveling}
+            />
+          </TabsContent>
+
+          <TabsContent value="variance" className="space-y-4">
+            <VarianceView
+              tasks={allTasks}
+              baselines={baselines}
+              activeBaselineId={activeBaseline?.id ?? null}
+              onActiveBaselineChange={setActiveBaselineId}
+              onManageBaselines={() => setIsBaselineDialogOpen(true)}
+              calendar={calendar}
+              dayUnit={dayUnit}
+            />
+          </TabsContent>
+
+          <TabsContent value="scenarios" className="space-y-4">
+            <ScenarioComparisonView
+              scenarios={scenarios}
+              activeScenarioId={activeScenarioId}
+              activePlan={activePlan}
+              milestones={milestones}
+              calendar={calendar}
+              dayUnit={dayUnit}
+            />
+          </TabsContent>
+
           <TabsContent value="progress">
             <ProgressManager
               tasks={allTasks}
               progress={progress}
               subtaskProgress={subtaskProgress}
-              setSubtaskProgress={setSubtaskProgress}
+              setSubtaskProgress={handleSubtaskProgressChange}
               subtaskDefinitions={subtaskDefinitions}
+              owners={owners}
               currentDate={currentDate}
+              onUpdateSubtasks={handleUpdateSubtasks}
             />
           </TabsContent>
         </Tabs>
       </div>
 
-      {/* Color Settings Dialog */}
-      <ColorSettingsDialog
-        open={isColorSettingsOpen}
-        onOpenChange={setIsColorSettingsOpen}
-        categoryColors={categoryColors}
-        onUpdateColor={updateCategoryColor}
-        onResetColors={resetCategoryColors}
+      {/* Categories Dialog */}
+      <CategoryManagerDialog
+        open={isCategoryManagerOpen}
+        onOpenChange={setIsCategoryManagerOpen}
+        categories={categories}
+        taskCounts={categoryTaskCounts}
+        unregistered={unregisteredCategoryIds}
+        onCategoriesChange={handleCategoriesChange}
+        onDeleteCategory={handleDeleteCategory}
+      />
+
+      {/* Owners Dialog */}
+      <OwnerRegistryDialog
+        open={isOwnerRegistryOpen}
+        onOpenChange={setIsOwnerRegistryOpen}
+        owners={owners}
+        taskCounts={ownerTaskCounts}
+        unregistered={unregistered}
+        onOwnersChange={handleOwnersChange}
+        onRenameOwner={handleRenameOwner}
+      />
+
+      {/* Working Calendar Dialog */}
+      <WorkCalendarDialog
+        open={isCalendarSettingsOpen}
+        onOpenChange={setIsCalendarSettingsOpen}
+        calendar={calendar}
+        onCalendarChange={handleCalendarChange}
+        dayUnit={dayUnit}
+        onDayUnitChange={setDayUnit}
+        owners={uniqueOwners}
+      />
+
+      {/* Phases Dialog */}
+      <PhaseManagerDialog
+        open={isPhaseManagerOpen}
+        onOpenChange={setIsPhaseManagerOpen}
+        phases={phases}
+        taskPhases={taskPhases}
+        tasks={allTasks}
+        onPhasesChange={handlePhasesChange}
+      />
+
+      {/* Baselines Dialog */}
+      <BaselineDialog
+        open={isBaselineDialogOpen}
+        onOpenChange={setIsBaselineDialogOpen}
+        baselines={baselines}
+        activeBaselineId={activeBaseline?.id ?? null}
+        tasks={allTasks}
+        onBaselinesChange={handleBaselinesChange}
+        onActiveBaselineChange={setActiveBaselineId}
+      />
+
+      {/* Scenarios Dialog */}
+      <ScenarioManagerDialog
+        open={isScenarioManagerOpen}
+        onOpenChange={setIsScenarioManagerOpen}
+        scenarios={scenarios}
+        activeScenarioId={activeScenarioId}
+        activePlan={activePlan}
+        onScenariosChange={handleScenariosChange}
+        onSwitchScenario={handleSwitchScenario}
       />
     </div>
   );
@@ -0,0 +1,135 @@
+import { useState } from 'react'
+import { Camera, Check, X } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { toast } from 'sonner@2.0.3'
+import type { Baseline } from '../utils/persistence'
+import { captureBaseline } from '../utils/baselines'
+
+interface Task {
+  id: string
+  label: string
+  start: string
+  end: string
+  owner: string
+}
+
+interface BaselineDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  baselines: Baseline[]
+  activeBaselineId: string | null
+  tasks: Task[]
+  onBaselinesChange: (baselines: Baseline[], description: string) => void
+  onActiveBaselineChange: (baselineId: string | null) => void
+}
+
+const formatCapturedAt = (capturedAt: string) =>
+  new Date(capturedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' })
+
+export function BaselineDialog({ open, onOpenChange, baselines, activeBaselineId, tasks, onBaselinesChange, onActiveBaselineChange }: BaselineDialogProps) {
+  const [name, setName] = useState('')
+
+  const capture = () => {
+    const label = name.trim() || `Baseline ${baselines.length + 1}`
+    if (baselines.some(baseline => baseline.name === label)) {
+      toast.error(`A baseline named "${label}" already exists`)
+      return
+    }
+    const baseline = captureBaseline(label, tasks, baselines)
+    onBaselinesChange([...baselines, baseline], `Save baseline "${label}"`)
+    // The newest baseline is usually the one to compare against
+    onActiveBaselineChange(baseline.id)
+    setName('')
+    toast.success(`Saved baseline "${label}" with ${tasks.length} tasks`)
+  }
+
+  const remove = (baseline: Baseline) => {
+    onBaselinesChange(baselines.filter(b => b.id !== baseline.id), `Delete baseline "${baseline.name}"`)
+    if (baseline.id === activeBaselineId) onActiveBaselineChange(null)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Baselines</DialogTitle>
+          <DialogDescription>
+            A baseline records every task's dates as they are now. Compare against one to see how far tasks have slipped since.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="flex gap-2 items-end">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="baseline-name" className="text-xs">New baseline</Label>
+              <Input
+                id="baseline-name"
+                placeholder={`Baseline ${baselines.length + 1}`}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') capture() }}
+              />
+            </div>
+            <Button onClick={capture} className="gap-2">
+              <Camera className="h-4 w-4" />
+              Save Current Dates
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Saved baselines</Label>
+            <div className="rounded-lg border divide-y">
+              {baselines.length === 0 && (
+                <p className="p-3 text-sm text-muted-foreground">No baselines yet</p>
+              )}
+              {baselines.map(baseline => {
+                const isActive = baseline.id === activeBaselineId
+                return (
+                  <div key={baseline.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{baseline.name}</span>
+                        {isActive && <Badge variant="secondary">Comparing</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {formatCapturedAt(baseline.capturedAt)} • {Object.keys(baseline.tasks).length} tasks
+                      </p>
+                    </div>
+                    <Button
+                      variant={isActive ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => onActiveBaselineChange(isActive ? null : baseline.id)}
+                      className="gap-1"
+                    >
+                      {isActive && <Check className="h-4 w-4" />}
+                      {isActive ? 'Compared' : 'Compare'}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => remove(baseline)}
+                      title="Delete baseline"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end pt-4 border-t">
+          <Button onClick={() => onOpenChange(false)}>
+            Done
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
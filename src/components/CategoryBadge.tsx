@@ -0,0 +1,67 @@
+import {
+  Camera,
+  Code,
+  FileText,
+  Flag,
+  Globe,
+  Image,
+  LayoutTemplate,
+  Mail,
+  Megaphone,
+  Newspaper,
+  Package,
+  Palette,
+  PenTool,
+  Presentation,
+  Printer,
+  Share2,
+  ShoppingBag,
+  Star,
+  Store,
+  Tag,
+  Video,
+  type LucideIcon,
+} from 'lucide-react'
+import { Badge } from './ui/badge'
+import type { Category } from '../utils/persistence'
+import { categoryColor, categoryIcon, categoryLabel } from '../utils/categories'
+
+// Icons a category can pick, by the name the registry stores
+export const categoryIcons: Record<string, LucideIcon> = {
+  tag: Tag,
+  globe: Globe,
+  presentation: Presentation,
+  'layout-template': LayoutTemplate,
+  image: Image,
+  camera: Camera,
+  video: Video,
+  palette: Palette,
+  'pen-tool': PenTool,
+  printer: Printer,
+  'file-text': FileText,
+  newspaper: Newspaper,
+  megaphone: Megaphone,
+  mail: Mail,
+  'share-2': Share2,
+  store: Store,
+  'shopping-bag': ShoppingBag,
+  package: Package,
+  code: Code,
+  flag: Flag,
+  star: Star,
+}
+
+export function CategoryIcon({ icon, className = 'h-3 w-3' }: { icon: string; className?: string }) {
+  const Icon = categoryIcons[icon] || Tag
+  return <Icon className={className} />
+}
+
+// A task's category as a colored badge with its icon
+export function CategoryBadge({ categories, id }: { categories: Category[]; id: string }) {
+  return (
+    <Badge style={{ backgroundColor: categoryColor(categories, id) }} className="text-white border-0 text-xs gap-1">
+      <CategoryIcon icon={categoryIcon(categories, id)} />
+      {categoryLabel(categories, id)}
+    </Badge>
+  )
+}
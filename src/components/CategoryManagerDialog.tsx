@@ -0,0 +1,221 @@
+import { useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { toast } from 'sonner@2.0.3'
+import { ColorField } from './OwnerRegistryDialog'
+import { CategoryIcon, categoryIcons } from './CategoryBadge'
+import type { Category } from '../utils/persistence'
+import { DEFAULT_CATEGORIES, findCategory, newCategory } from '../utils/categories'
+
+interface CategoryManagerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  categories: Category[]
+  taskCounts: Record<string, number> // tasks per category id in the active scenario
+  unregistered: string[] // category ids tasks use that are not in the registry
+  onCategoriesChange: (categories: Category[], description: string) => void
+  onDeleteCategory: (id: string, replacement: string | null) => void
+}
+
+export function CategoryManagerDialog({ open, onOpenChange, categories, taskCounts, unregistered, onCategoriesChange, onDeleteCategory }: CategoryManagerDialogProps) {
+  const [newLabel, setNewLabel] = useState('')
+  // The category being deleted while its tasks wait for a new home
+  const [deleting, setDeleting] = useState<string | null>(null)
+  const [replacement, setReplacement] = useState('none')
+
+  const update = (category: Category, changes: Partial<Category>, description: string) => {
+    onCategoriesChange(categories.map(c => (c.id === category.id ? { ...c, ...changes } : c)), description)
+  }
+
+  const rename = (category: Category, value: string) => {
+    const label = value.trim()
+    if (!label || label === category.label) return
+    if (categories.some(c => c.id !== category.id && c.label.toLowerCase() === label.toLowerCase())) {
+      toast.error(`A category named "${label}" already exists`)
+      return
+    }
+    update(category, { label }, `Rename category ${category.label} to ${label}`)
+  }
+
+  const add = (value: string, id?: string) => {
+    const label = value.trim()
+    if (!label) {
+      toast.error('Enter a name for the category')
+      return
+    }
+    if (categories.some(c => c.label.toLowerCase() === label.toLowerCase())) {
+      toast.error(`A category named "${label}" already exists`)
+      return
+    }
+    onCategoriesChange([...categories, newCategory(categories, label, id)], `Add category ${label}`)
+    setNewLabel('')
+  }
+
+  // Categories nobody uses go at once; the others first ask where their tasks go
+  const remove = (category: Category) => {
+    if (!taskCounts[category.id]) {
+      onDeleteCategory(category.id, null)
+      return
+    }
+    setDeleting(category.id)
+    setReplacement('none')
+  }
+
+  const confirmRemove = () => {
+    if (!deleting) return
+    onDeleteCategory(deleting, replacement === 'none' ? null : replacement)
+    setDeleting(null)
+  }
+
+  // Built-in categories go back to their original colors
+  const resetColors = () => {
+    onCategoriesChange(
+      categories.map(category => ({ ...category, color: findCategory(DEFAULT_CATEGORIES, category.id)?.color || category.color })),
+      'Reset category colors'
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Categories</DialogTitle>
+          <DialogDescription>
+            Kinds of work tasks belong to. A task can have several; the first one colors the stripe on its Gantt bar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="rounded-lg border divide-y">
+            {categories.length === 0 && (
+              <p className="p-3 text-sm text-muted-foreground">No categories yet</p>
+            )}
+            {categories.map(category => (
+              <div key={category.id} className="p-3 space-y-2">
+                <div className="flex items-center gap-3">
+                  <ColorField
+                    value={category.color}
+                    onCommit={(color) => update(category, { color }, `Recolor category ${category.label}`)}
+                    className="h-8 w-10"
+                    label={`Color for ${category.label}`}
+                  />
+                  <Select
+                    value={categoryIcons[category.icon] ? category.icon : 'tag'}
+                    onValueChange={(icon) => update(category, { icon }, `Change icon of ${category.label}`)}
+                  >
+                    <SelectTrigger className="w-[70px] h-8" aria-label={`Icon for ${category.label}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.keys(categoryIcons).map(icon => (
+                        <SelectItem key={icon} value={icon}>
+                          <CategoryIcon icon={icon} className="h-4 w-4" />
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    key={category.label}
+                    defaultValue={category.label}
+                    onBlur={(e) => rename(category, e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+                    className="h-8 flex-1"
+                    aria-label={`Name of ${category.label}`}
+                  />
+                  <Badge variant="secondary" className="whitespace-nowrap">
+                    {taskCounts[category.id] || 0} tasks
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => remove(category)}
+                    title="Delete category"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                {deleting === category.id && (
+                  <div className="flex flex-wrap items-center gap-2 rounded-md bg-red-50 border border-red-200 p-2 text-sm">
+                    <span>Move its {taskCounts[category.id]} task{taskCounts[category.id] !== 1 ? 's' : ''} to</span>
+                    <Select value={replacement} onValueChange={setReplacement}>
+                      <SelectTrigger className="w-[180px] h-8 bg-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">
+                          <span className="text-muted-foreground">No category</span>
+                        </SelectItem>
+                        {categories.filter(c => c.id !== category.id).map(c => (
+                          <SelectItem key={c.id} value={c.id}>{c.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="ml-auto flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setDeleting(null)}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" variant="destructive" onClick={confirmRemove}>
+                        Delete {category.label}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {unregistered.length > 0 && (
+            <div className="space-y-2">
+              <Label>Used by tasks but not registered</Label>
+              <div className="flex flex-wrap gap-2">
+                {unregistered.map(id => (
+                  <Button key={id} variant="outline" size="sm" onClick={() => add(id, id)} className="gap-1">
+                    <Plus className="h-3 w-3" />
+                    {id}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2 items-end">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="category-label" className="text-xs">New category</Label>
+              <Input
+                id="category-label"
+                placeholder="e.g. Print, Social, Events"
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') add(newLabel) }}
+              />
+            </div>
+            <Button variant="outline" onClick={() => add(newLabel)} className="gap-1">
+              <Plus className="h-4 w-4" />
+              Add
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center pt-4 border-t">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={resetColors}
+            className="text-red-600 border-red-300 hover:bg-red-50"
+          >
+            Reset Colors
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>
+            Done
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
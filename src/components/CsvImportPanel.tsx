@@ -0,0 +1,177 @@
+import { useMemo, useState } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import {
+  csvFieldLabels,
+  dateFormats,
+  detectDateFormat,
+  guessColumnMapping,
+  planCsvImport,
+  type CsvField,
+  type CsvRowPlan,
+  type DateFormat,
+} from '../utils/csvImport'
+import type { Category } from '../utils/persistence'
+
+interface Task {
+  id: string
+  label: string
+  start: string
+  end: string
+  owner: string
+  categories?: string[]
+  tags?: string[]
+}
+
+interface CsvImportPanelProps {
+  fileName: string
+  rows: string[][]
+  tasks: Task[]
+  categories: Category[]
+  onCancel: () => void
+  onApply: (plan: CsvRowPlan[]) => void
+}
+
+const actionStyles: Record<CsvRowPlan['action'], { label: string; className: string }> = {
+  update: { label: 'Update', className: 'bg-blue-100 text-blue-700 border-blue-200' },
+  create: { label: 'New', className: 'bg-green-100 text-green-700 border-green-200' },
+  unchanged: { label: 'Unchanged', className: 'bg-slate-100 text-slate-600 border-slate-200' },
+  error: { label: 'Error', className: 'bg-red-100 text-red-700 border-red-200' },
+}
+
+// Column mapping, date format and a row-by-row preview for a CSV import
+export function CsvImportPanel({ fileName, rows, tasks, categories, onCancel, onApply }: CsvImportPanelProps) {
+  const headers = rows[0] || []
+  const [mapping, setMapping] = useState<CsvField[]>(() => guessColumnMapping(headers))
+
+  // Re-detect whenever the date columns change, unless the user picked one
+  const detectedFormat = useMemo(() => {
+    const dateColumns = mapping.flatMap((field, i) => (field === 'start' || field === 'end' ? [i] : []))
+    return detectDateFormat(rows.slice(1).flatMap(row => dateColumns.map(i => row[i] || '')))
+  }, [rows, mapping])
+  const [chosenFormat, setChosenFormat] = useState<DateFormat | null>(null)
+  const dateFormat = chosenFormat || detectedFormat
+
+  const plan = useMemo(
+    () => planCsvImport(rows, mapping, dateFormat, tasks, categories),
+    [rows, mapping, dateFormat, tasks, categories]
+  )
+  const counts = plan.reduce((acc, row) => {
+    acc[row.action]++
+    return acc
+  }, { update: 0, create: 0, unchanged: 0, error: 0 } as Record<CsvRowPlan['action'], number>)
+  const hasTaskColumn = mapping.includes('id') || mapping.includes('label')
+
+  const setColumnField = (column: number, field: CsvField) => {
+    // A field can only come from one column
+    setMapping(prev => prev.map((current, i) => {
+      if (i === column) return field
+      return field !== 'ignore' && current === field ? 'ignore' : current
+    }))
+  }
+
+  return (
+    <div className="rounded-lg border border-green-200 bg-green-50 p-3 text-sm space-y-3">
+      <div>
+        <div className="font-medium">{fileName}</div>
+        <div className="text-xs text-muted-foreground">
+          {rows.length - 1} row{rows.length - 1 !== 1 ? 's' : ''} • rows match existing tasks by ID, then by name
+        </div>
+      </div>
+
+      {/* Column mapping */}
+      <div className="grid grid-cols-2 gap-2">
+        {headers.map((header, i) => (
+          <div key={i} className="space-y-1">
+            <Label className="text-xs truncate" title={header}>{header || `Column ${i + 1}`}</Label>
+            <Select value={mapping[i]} onValueChange={(value) => setColumnField(i, value as CsvField)}>
+              <SelectTrigger className="h-8 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(csvFieldLabels) as CsvField[]).map(field => (
+                  <SelectItem key={field} value={field}>{csvFieldLabels[field]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Label className="text-xs">Date format</Label>
+        <Select value={dateFormat} onValueChange={(value) => setChosenFormat(value as DateFormat)}>
+          <SelectTrigger className="h-8 w-48 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {dateFormats.map(format => (
+              <SelectItem key={format} value={format}>
+                {format}{format === detectedFormat ? ' (detected)' : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Preview */}
+      <div className="max-h-64 overflow-auto rounded border bg-white">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-slate-50 text-left">
+            <tr>
+              <th className="px-2 py-1">Row</th>
+              <th className="px-2 py-1">Action</th>
+              <th className="px-2 py-1">Task</th>
+              <th className="px-2 py-1">Start</th>
+              <th className="px-2 py-1">End</th>
+              <th className="px-2 py-1">Owner</th>
+              <th className="px-2 py-1">Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.map(row => (
+              <tr key={row.rowNumber} className="border-t">
+                <td className="px-2 py-1 text-muted-foreground">{row.rowNumber}</td>
+                <td className="px-2 py-1">
+                  <Badge variant="outline" className={actionStyles[row.action].className}>
+                    {actionStyles[row.action].label}
+                  </Badge>
+                </td>
+                <td className="px-2 py-1">{row.label}</td>
+                <td className="px-2 py-1 whitespace-nowrap">{row.start}</td>
+                <td className="px-2 py-1 whitespace-nowrap">{row.end}</td>
+                <td className="px-2 py-1">{row.owner}</td>
+                <td className={`px-2 py-1 ${row.error ? 'text-red-700' : 'text-muted-foreground'}`}>
+                  {row.error || row.changes.join(', ')}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs text-muted-foreground">
+          {!hasTaskColumn
+            ? 'Map a Task ID or Task name column to continue'
+            : `${counts.update} to update • ${counts.create} new • ${counts.unchanged} unchanged${counts.error ? ` • ${counts.error} skipped with errors` : ''}`}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => onApply(plan)}
+            disabled={!hasTaskColumn || counts.update + counts.create === 0}
+            className="bg-gradient-to-r from-green-500 to-emerald-500 text-white"
+          >
+            Import
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,16 @@
-import { useMemo } from 'react'
+import { useMemo, useState } from 'react'
+import { Button } from './ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Progress } from './ui/progress'
 import { Badge } from './ui/badge'
-import { CheckCircle2, Clock, AlertCircle, Calendar } from 'lucide-react'
+import { CheckCircle2, Clock, AlertCircle, Calendar, TrendingDown } from 'lucide-react'
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, BarChart, Bar, XAxis, YAxis, Tooltip } from 'recharts'
+import { daysBetween, formatDays, formatDate, type DayUnit } from '../utils/dates'
+import { countDays, type ProjectCalendar } from '../utils/workCalendar'
+import { countTaskStatuses, getTaskStatus, taskStatusOrder, taskStatusInfo } from '../utils/taskStatus'
+import type { Owner, Phase } from '../utils/persistence'
+import { ownerColor } from '../utils/owners'
+import { buildWbs } from '../utils/wbs'
 
 interface Task {
   id: string
@@ -11,57 +18,31 @@ interface Task {
   start: string
   end: string
   owner: string
+  phaseId?: string
 }
 
 interface DashboardViewProps {
   tasks: Task[]
   progress: Record<string, number>
   currentDate: string
+  calendar: ProjectCalendar
+  dayUnit: DayUnit
+  phases?: Phase[]
+  owners: Owner[]
 }
 
-const toDate = (s: string) => new Date(s)
+export function DashboardView({ tasks, progress, currentDate, calendar, dayUnit, phases = [], owners }: DashboardViewProps) {
+  const [progressBy, setProgressBy] = useState<'owner' | 'phase'>('owner')
+  const byPhase = progressBy === 'phase' && phases.length > 0
 
-export function DashboardView({ tasks, progress, currentDate }: DashboardViewProps) {
-  const stats = useMemo(() => {
-    const today = toDate(currentDate)
-    let notStarted = 0
-    let inProgress = 0
-    let completed = 0
-    let overdue = 0
-
-    tasks.forEach(task => {
-      const taskProgress = progress[task.id] || 0
-      const start = toDate(task.start)
-      const end = toDate(task.end)
-
-      if (taskProgress === 100) {
-        completed++
-      } else if (today < start) {
-        notStarted++
-      } else if (today >= start && today <= end) {
-        inProgress++
-      } else if (today > end && taskProgress < 100) {
-        overdue++
-      }
-    })
-
-    return { notStarted, inProgress, completed, overdue, total: tasks.length }
-  }, [tasks, progress, currentDate])
-
-  // Status colors (matching GanttView and App.tsx)
-  const statusColors = {
-    completed: '#10b981',    // Green (emerald-500)
-    'in-progress': '#3b82f6', // Blue (blue-500)
-    'not-started': '#6b7280', // Gray (gray-500)
-    overdue: '#ef4444',      // Red (red-500)
-  }
+  const stats = useMemo(
+    () => countTaskStatuses(tasks.map(task => getTaskStatus(task, progress[task.id] || 0, currentDate).status)),
+    [tasks, progress, currentDate]
+  )
 
-  const pieData = [
-    { name: 'Completed', value: stats.completed, color: statusColors.completed },
-    { name: 'In Progress', value: stats.inProgress, color: statusColors['in-progress'] },
-    { name: 'Not Started', value: stats.notStarted, color: statusColors['not-started'] },
-    { name: 'Overdue', value: stats.overdue, color: statusColors.overdue },
-  ].filter(d => d.value > 0)
+  const pieData = taskStatusOrder
+    .map(status => ({ name: taskStatusInfo[status].label, value: stats[status], color: taskStatusInfo[status].color }))
+    .filter(d => d.value > 0)
 
   const ownerStats = useMemo(() => {
     const byOwner: Record<string, { total: number; avgProgress: number; tasks: number }> = {}
@@ -76,33 +57,44 @@ export function DashboardView({ tasks, progress, currentDate }: DashboardViewPro
     })
 
     return Object.entries(byOwner).map(([owner, data]) => ({
-      owner,
+      name: owner,
       avgProgress: Math.round(data.total / data.tasks),
       tasks: data.tasks
     })).sort((a, b) => b.avgProgress - a.avgProgress)
   }, [tasks, progress])
 
+  // Top-level phases in outline order, each rolled up over everything beneath
+  // and weighted by duration
+  const phaseStats = useMemo(() => {
+    if (!byPhase) return []
+    return buildWbs(phases, tasks, progress).roots
+      .filter(node => node.rollup)
+      .map(node => ({
+        name: `${node.code} ${node.phase.label}`,
+        avgProgress: node.rollup?.progress || 0,
+        tasks: node.rollup?.taskCount || 0
+      }))
+  }, [byPhase, phases, tasks, progress])
+
   const overallProgress = useMemo(() => {
     const total = tasks.reduce((sum, task) => sum + (progress[task.id] || 0), 0)
     return Math.round(total / tasks.length)
   }, [tasks, progress])
 
   const upcomingMilestones = useMemo(() => {
-    const today = toDate(currentDate)
     return tasks
       .filter(t => {
-        const end = toDate(t.end)
-        const daysUntil = Math.round((end.getTime() - today.getTime()) / (1000 * 60 * 60 * 24))
+        const daysUntil = daysBetween(currentDate, t.end)
         return daysUntil >= 0 && daysUntil <= 30 && (progress[t.id] || 0) < 100
       })
-      .sort((a, b) => toDate(a.end).getTime() - toDate(b.end).getTime())
+      .sort((a, b) => a.end.localeCompare(b.end))
       .slice(0, 5)
   }, [tasks, progress, currentDate])
 
   return (
     <div className="space-y-6">
       {/* Key Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
         <Card className="bg-gradient-to-br from-blue-500 to-indigo-600 text-white border-0 shadow-lg">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm text-white/90">Overall Progress</CardTitle>
@@ -121,7 +113,7 @@ export function DashboardView({ tasks, progress, currentDate }: DashboardViewPro
           </CardHeader>
           <CardContent>
             <div className="text-3xl">{stats.completed}</div>
-            <p className="text-xs text-white/80">of {stats.total} tasks</p>
+            <p className="text-xs text-white/80">of {tasks.length} tasks</p>
           </CardContent>
         </Card>
 
@@ -131,8 +123,19 @@ export function DashboardView({ tasks, progress, currentDate }: DashboardViewPro
             <Clock className="h-5 w-5 text-white/90" />
           </CardHeader>
           <CardContent>
-            <div className="text-3xl">{stats.inProgress}</div>
-            <p className="text-xs text-white/80">active tasks</p>
+            <div className="text-3xl">{stats['in-progress']}</div>
+            <p className="text-xs text-white/80">on track</p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gradient-to-br from-amber-500 to-orange-600 text-white border-0 shadow-lg">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm text-white/90">At Risk</CardTitle>
+            <TrendingDown className="h-5 w-5 text-white/90" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl">{stats['at-risk'] + stats.behind}</div>
+            <p className="text-xs text-white/80">{stats.behind} behind schedule</p>
           </CardContent>
         </Card>
 
@@ -142,7 +145,7 @@ export function DashboardView({ tasks, progress, currentDate }: DashboardViewPro
             <Calendar className="h-5 w-5 text-white/90" />
           </CardHeader>
           <CardContent>
-            <div className="text-3xl">{stats.notStarted}</div>
+            <div className="text-3xl">{stats['not-started']}</div>
             <p className="text-xs text-white/80">upcoming</p>
           </CardContent>
         </Card>
@@ -194,16 +197,26 @@ export function DashboardView({ tasks, progress, currentDate }: DashboardViewPro
 
         {/* Progress by Owner */}
         <Card className="bg-white/80 backdrop-blur shadow-lg border-0">
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
             <CardTitle className="bg-gradient-to-r from-orange-600 to-red-600 bg-clip-text text-transparent">
-              Progress by Owner
+              Progress by {byPhase ? 'Phase' : 'Owner'}
             </CardTitle>
+            {phases.length > 0 && (
+              <div className="flex gap-1">
+                <Button size="sm" variant={byPhase ? 'outline' : 'default'} onClick={() => setProgressBy('owner')}>
+                  Owner
+                </Button>
+                <Button size="sm" variant={byPhase ? 'default' : 'outline'} onClick={() => setProgressBy('phase')}>
+                  Phase
+                </Button>
+              </div>
+            )}
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={280}>
-              <BarChart data={ownerStats} layout="vertical">
+              <BarChart data={byPhase ? phaseStats : ownerStats} layout="vertical">
                 <XAxis type="number" domain={[0, 100]} />
-                <YAxis type="category" dataKey="owner" width={130} tick={{ fontSize: 12 }} />
+                <YAxis type="category" dataKey="name" width={130} tick={{ fontSize: 12 }} />
                 <Tooltip 
                   formatter={(value) => `${value}%`}
                   contentStyle={{ 
@@ -213,7 +226,12 @@ export function DashboardView({ tasks, progress, currentDate }: DashboardViewPro
                     boxShadow: '0 4px 12px rgba(0,0,0,0.15)'
                   }}
                 />
-                <Bar dataKey="avgProgress" fill="url(#colorGradient)" radius={[0, 6, 6, 0]} barSize={20} />
+                <Bar dataKey="avgProgress" fill="url(#colorGradient)" radius={[0, 6, 6, 0]} barSize={20}>
+                  {/* Owner bars take the owner's color; phase bars keep the gradient */}
+                  {!byPhase && ownerStats.map(entry => (
+                    <Cell key={entry.name} fill={ownerColor(owners, entry.name)} />
+                  ))}
+                </Bar>
                 <defs>
                   <linearGradient id="colorGradient" x1="0" y1="0" x2="1" y2="0">
                     <stop offset="0%" stopColor="#f59e0b" />
@@ -239,8 +257,10 @@ export function DashboardView({ tasks, progress, currentDate }: DashboardViewPro
               <p className="text-sm text-muted-foreground">No upcoming milestones in the next 30 days</p>
             ) : (
               upcomingMilestones.map(task => {
-                const daysUntil = Math.round((toDate(task.end).getTime() - toDate(currentDate).getTime()) / (1000 * 60 * 60 * 24))
+                const daysUntil = daysBetween(currentDate, task.end)
                 const taskProgress = progress[task.id] || 0
+                const { status, expectedProgress } = getTaskStatus(task, taskProgress, currentDate)
+                const slipping = status === 'at-risk' || status === 'behind'
                 return (
                   <div key={task.id} className="flex items-center gap-4 p-4 bg-gradient-to-r from-slate-50 to-blue-50 rounded-lg border shadow-sm hover:shadow-md transition-shadow">
                     <div className="flex-1">
@@ -250,15 +270,25 @@ export function DashboardView({ tasks, progress, currentDate }: DashboardViewPro
                           variant={daysUntil <= 7 ? 'destructive' : 'secondary'}
                           className={daysUntil <= 7 ? 'bg-gradient-to-r from-red-500 to-pink-500 border-0 shadow-sm' : ''}
                         >
-                          {daysUntil === 0 ? 'Today' : daysUntil === 1 ? 'Tomorrow' : `${daysUntil} days`}
+                          {daysUntil === 0
+                            ? 'Today'
+                            : daysUntil === 1
+                              ? 'Tomorrow'
+                              : formatDays(countDays(currentDate, task.end, { unit: dayUnit, calendar, owner: task.owner }), dayUnit)}
                         </Badge>
+                        {slipping && (
+                          <Badge className="text-white border-0" style={{ backgroundColor: taskStatusInfo[status].color }}>
+                            {taskStatusInfo[status].label}
+                          </Badge>
+                        )}
                       </div>
                       <div className="flex items-center gap-3">
                         <Progress value={taskProgress} className="h-2.5 flex-1" />
                         <span className="text-xs">{taskProgress}%</span>
                       </div>
                       <p className="text-xs text-muted-foreground mt-2">
-                        Due: {toDate(task.end).toLocaleDateString()} • {task.owner}
+                        {slipping && `Expected ${expectedProgress}% by now • `}
+                        Due: {formatDate(task.end)} • {task.owner}
                       </p>
                     </div>
                   </div>
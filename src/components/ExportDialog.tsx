@@ -1,6 +1,8 @@
-import { useState } from 'react'
-import { Download, FileSpreadsheet, FileText, Code } from 'lucide-react'
+import { useRef, useState } from 'react'
+import { Download, FileSpreadsheet, FileText, Code, FileJson, Upload, AlertCircle, TableProperties, CalendarDays, FileCode } from 'lucide-react'
 import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { RadioGroup, RadioGroupItem } from './ui/radio-group'
 import {
   Dialog,
   DialogContent,
@@ -10,6 +12,23 @@ import {
   DialogTrigger,
 } from './ui/dialog'
 import { toast } from 'sonner@2.0.3'
+import type { ProjectState, TaskOverride } from '../utils/persistence'
+import type { TaskDependency } from '../utils/dependencies'
+import {
+  buildProjectFile,
+  parseProjectFile,
+  projectStateFromFile,
+  type ImportMode,
+  type ProjectFileError,
+} from '../utils/projectFile'
+import { csvPlanToChanges, parseCSV, type CsvRowPlan, type NewTaskData } from '../utils/csvImport'
+import { buildIcsCalendar } from '../utils/icsExport'
+import { buildMspdiXml, parseMspdiXml } from '../utils/mspdi'
+import { drawGanttPdf } from '../utils/ganttPdf'
+import { todayPlainDate } from '../utils/dates'
+import { ownerColorMap } from '../utils/owners'
+import { categoryColorMap, categoryLabel, categoryLabelMap } from '../utils/categories'
+import { CsvImportPanel } from './CsvImportPanel'
 
 interface Task {
   id: string
@@ -17,6 +36,9 @@ interface Task {
   start: string
   end: string
   owner: string
+  categories?: string[]
+  tags?: string[]
+  dependencies?: TaskDependency[]
   offset?: number
   length?: number
 }
@@ -25,115 +47,200 @@ interface ExportDialogProps {
   tasks: Task[]
   progress: Record<string, number>
   version: string
+  project: ProjectState
+  onImportProject: (project: ProjectState, mode: ImportMode) => void
+  onImportCsv: (overrides: Record<string, TaskOverride>, newTasks: NewTaskData[]) => void
+  ganttTasks: Task[]
+  ganttRange: { start: string; end: string }
+  currentDate: string
+}
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type })
+  const link = document.createElement('a')
+  const url = URL.createObjectURL(blob)
+  link.setAttribute('href', url)
+  link.setAttribute('download', fileName)
+  link.style.visibility = 'hidden'
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
 }
 
-export function ExportDialog({ tasks, progress, version }: ExportDialogProps) {
+export function ExportDialog({ tasks, progress, version, project, onImportProject, onImportCsv, ganttTasks, ganttRange, currentDate }: ExportDialogProps) {
   const [open, setOpen] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const mspdiInputRef = useRef<HTMLInputElement>(null)
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string
+    source: 'project' | 'mspdi'
+    project?: ProjectState
+    exportedAt?: string
+    errors: ProjectFileError[]
+  } | null>(null)
+  const [importMode, setImportMode] = useState<ImportMode>('replace')
+  const csvInputRef = useRef<HTMLInputElement>(null)
+  const [pendingCsv, setPendingCsv] = useState<{ fileName: string; rows: string[][]; loadedAt: number } | null>(null)
+
+  const fileBaseName = `brand-rebuild-v${version}-${todayPlainDate()}`
 
   const exportToCSV = () => {
-    const headers = ['Task', 'Start Date', 'End Date', 'Duration (days)', 'Owner', 'Progress (%)']
+    const headers = ['Task', 'Start Date', 'End Date', 'Duration (days)', 'Owner', 'Category', 'Tags', 'Progress (%)', 'Task ID']
     const rows = tasks.map(task => [
       task.label,
       task.start,
       task.end,
       task.length || 0,
       task.owner,
-      progress[task.id] || 0
+      (task.categories || []).map(id => categoryLabel(project.categories, id)).join('; '),
+      (task.tags || []).join('; '),
+      progress[task.id] || 0,
+      task.id
     ])
 
     const csvContent = [
       headers.join(','),
-      ...rows.map(row => row.map(cell => `"${cell}"`).join(','))
+      ...rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
     ].join('\n')
 
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
-    const link = document.createElement('a')
-    const url = URL.createObjectURL(blob)
-    link.setAttribute('href', url)
-    link.setAttribute('download', `brand-rebuild-v${version}-${new Date().toISOString().split('T')[0]}.csv`)
-    link.style.visibility = 'hidden'
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
+    downloadFile(csvContent, `${fileBaseName}.csv`, 'text/csv;charset=utf-8;')
 
     toast.success('CSV exported successfully')
     setOpen(false)
   }
 
+  const exportToJSON = () => {
+    const file = buildProjectFile(project, version)
+    downloadFile(JSON.stringify(file, null, 2), `${fileBaseName}.json`, 'application/json')
+
+    toast.success('Project file exported successfully')
+    setOpen(false)
+  }
+
+  const exportToICS = () => {
+    const calendar = buildIcsCalendar(tasks, project.milestones, progress, categoryLabelMap(project.categories), `Brand Rebuild - Version ${version}`)
+    downloadFile(calendar, `${fileBaseName}.ics`, 'text/calendar;charset=utf-8')
+
+    toast.success('Calendar exported successfully', {
+      description: 'Re-importing a newer export updates the same events'
+    })
+    setOpen(false)
+  }
+
+  const handleProjectFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    const { project: parsed, errors } = parseProjectFile(await file.text())
+    setPendingCsv(null)
+    setPendingImport({
+      fileName: file.name,
+      source: 'project',
+      project: parsed && projectStateFromFile(parsed),
+      exportedAt: parsed?.exportedAt,
+      errors,
+    })
+    setImportMode('replace')
+  }
+
+  const exportToMSPDI = () => {
+    const xml = buildMspdiXml(
+      tasks.map(({ id, label, start, end, owner, categories, dependencies }) => ({ id, label, start, end, owner, categories, dependencies })),
+      project.subtaskDefinitions,
+      project.subtaskProgress,
+      progress,
+      project.milestones,
+      `Brand Rebuild - Version ${version}`
+    )
+    downloadFile(xml, `${fileBaseName}.xml`, 'application/xml')
+
+    toast.success('MS Project XML exported successfully')
+    setOpen(false)
+  }
+
+  // An MS Project file describes the whole plan, so it replaces tracks,
+  // subtasks and edits; the owner and category registries are kept
+  const handleMspdiFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    const { project: parsed, errors } = parseMspdiXml(await file.text())
+    setPendingCsv(null)
+    setPendingImport({
+      fileName: file.name,
+      source: 'mspdi',
+      project: parsed && {
+        ...project,
+        baseTracks: parsed.baseTracks,
+        subtaskDefinitions: parsed.subtaskDefinitions,
+        subtaskProgress: parsed.subtaskProgress,
+        milestones: parsed.milestones.length > 0 ? parsed.milestones : project.milestones,
+        taskOverrides: {},
+        customTasks: [],
+        deletedTaskIds: [],
+      },
+      errors,
+    })
+    setImportMode('replace')
+  }
+
+  const confirmImport = () => {
+    if (!pendingImport?.project) return
+    onImportProject(pendingImport.project, importMode)
+    const what = pendingImport.source === 'mspdi' ? 'MS Project file' : 'Project file'
+    toast.success(importMode === 'merge' ? `${what} merged` : `${what} imported`, {
+      description: `${pendingImport.fileName} • Undo with Ctrl+Z`
+    })
+    setPendingImport(null)
+    setOpen(false)
+  }
+
+  const handleCsvFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    const rows = parseCSV(await file.text())
+    if (rows.length < 2) {
+      toast.error('Nothing to import', { description: `${file.name} needs a header row and at least one task row` })
+      return
+    }
+    setPendingImport(null)
+    setPendingCsv({ fileName: file.name, rows, loadedAt: Date.now() })
+  }
+
+  const confirmCsvImport = (plan: CsvRowPlan[]) => {
+    const { overrides, newTasks } = csvPlanToChanges(plan)
+    onImportCsv(overrides, newTasks)
+    const skipped = plan.filter(row => row.action === 'error').length
+    toast.success(`Imported ${pendingCsv?.fileName}`, {
+      description: `${Object.keys(overrides).length} updated • ${newTasks.length} created${skipped ? ` • ${skipped} skipped` : ''} • Undo with Ctrl+Z`
+    })
+    setPendingCsv(null)
+    setOpen(false)
+  }
+
   const exportToPDF = async () => {
     try {
       // Dynamic import for PDF generation
       const { default: jsPDF } = await import('jspdf')
       const doc = new jsPDF('l', 'mm', 'a4')
-      
-      // Title
-      doc.setFontSize(18)
-      doc.text(`Brand Rebuild - Version ${version}`, 15, 15)
-      
-      doc.setFontSize(10)
-      doc.text(`Generated: ${new Date().toLocaleDateString()}`, 15, 22)
-      
-      // Summary stats
-      const totalTasks = tasks.length
-      const completedTasks = tasks.filter(t => (progress[t.id] || 0) === 100).length
-      const avgProgress = Math.round(tasks.reduce((sum, t) => sum + (progress[t.id] || 0), 0) / totalTasks)
-      
-      doc.setFontSize(12)
-      doc.text(`Summary: ${completedTasks}/${totalTasks} tasks completed (${avgProgress}% overall)`, 15, 30)
-      
-      // Table headers
-      doc.setFontSize(9)
-      let y = 40
-      const colWidths = [80, 25, 25, 20, 40, 15]
-      const headers = ['Task', 'Start', 'End', 'Days', 'Owner', 'Progress']
-      
-      doc.setFillColor(59, 130, 246)
-      doc.setTextColor(255, 255, 255)
-      doc.rect(15, y - 5, 270, 7, 'F')
-      
-      let x = 15
-      headers.forEach((header, i) => {
-        doc.text(header, x + 2, y)
-        x += colWidths[i]
+      drawGanttPdf(doc, {
+        title: `Brand Rebuild - Version ${version}`,
+        tasks: ganttTasks,
+        rangeStart: ganttRange.start,
+        rangeEnd: ganttRange.end,
+        currentDate,
+        milestones: project.milestones,
+        progress,
+        ownerColors: ownerColorMap(project.owners),
+        categoryColors: categoryColorMap(project.categories),
+        categoryLabels: categoryLabelMap(project.categories),
       })
-      
-      // Table rows
-      doc.setTextColor(0, 0, 0)
-      y += 8
-      
-      tasks.forEach((task, idx) => {
-        if (y > 190) { // New page if needed
-          doc.addPage()
-          y = 15
-        }
-        
-        // Alternate row colors
-        if (idx % 2 === 0) {
-          doc.setFillColor(248, 250, 252)
-          doc.rect(15, y - 5, 270, 7, 'F')
-        }
-        
-        x = 15
-        const row = [
-          task.label.substring(0, 50),
-          task.start,
-          task.end,
-          (task.length || 0).toString(),
-          task.owner.substring(0, 25),
-          `${progress[task.id] || 0}%`
-        ]
-        
-        doc.setFontSize(8)
-        row.forEach((cell, i) => {
-          doc.text(cell, x + 2, y)
-          x += colWidths[i]
-        })
-        
-        y += 7
+      doc.save(`${fileBaseName}.pdf`)
+      toast.success('PDF exported successfully', {
+        description: `${doc.getNumberOfPages()} page${doc.getNumberOfPages() !== 1 ? 's' : ''} • current Gantt range and filters`
       })
-      
-      doc.save(`brand-rebuild-v${version}-${new Date().toISOString().split('T')[0]}.pdf`)
-      toast.success('PDF exported successfully')
       setOpen(false)
     } catch (error) {
       console.error('PDF export error:', error)
@@ -155,9 +262,10 @@ To export the source code of this application:
    - Navigate to view individual component files
 
 3. **Copy Application State:**
-   - Your progress data is saved in browser localStorage
+   - Your edits and progress are saved in browser localStorage
    - Open DevTools > Application tab > Local Storage
-   - Keys: 'subtaskProgress' and 'categoryColors'
+   - Key: 'brandRebuildProject'
+   - Or use "Project file (.json)" to save a portable copy
 
 4. **For Full Project Files:**
    This is a React + TypeScript application built with:
@@ -177,18 +285,18 @@ is stored locally and persists across sessions.
   }
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={(isOpen) => { setOpen(isOpen); if (!isOpen) { setPendingImport(null); setPendingCsv(null) } }}>
       <DialogTrigger asChild>
         <Button variant="outline">
           <Download className="h-4 w-4 mr-2" />
           Export
         </Button>
       </DialogTrigger>
-      <DialogContent>
+      <DialogContent className={`max-h-[90vh] overflow-y-auto ${pendingCsv ? 'sm:max-w-3xl' : ''}`}>
         <DialogHeader>
           <DialogTitle>Export Project Data</DialogTitle>
           <DialogDescription>
-            Choose a format to export the current project timeline and progress data.
+            Choose a format to export the current project timeline and progress data, or import a project file or spreadsheet.
           </DialogDescription>
         </DialogHeader>
         <div className="grid gap-3 py-4">
@@ -207,10 +315,163 @@ is stored locally and persists across sessions.
             <div className="text-left">
               <div>Export as PDF</div>
               <div className="text-xs text-muted-foreground">
-                Printable document with full task list and progress
+                Printable Gantt chart of the current range and filters
+              </div>
+            </div>
+          </Button>
+
+          <Button onClick={exportToICS} variant="outline" className="justify-start h-auto py-4">
+            <CalendarDays className="h-5 w-5 mr-3 text-sky-600" />
+            <div className="text-left">
+              <div>Calendar (.ics)</div>
+              <div className="text-xs text-muted-foreground">
+                Tasks and milestones for Google Calendar, Outlook or Apple Calendar
+              </div>
+            </div>
+          </Button>
+
+          <Button onClick={exportToJSON} variant="outline" className="justify-start h-auto py-4">
+            <FileJson className="h-5 w-5 mr-3 text-amber-600" />
+            <div className="text-left">
+              <div>Project file (.json)</div>
+              <div className="text-xs text-muted-foreground">
+                Complete plan, edits and progress to hand to a teammate
+              </div>
+            </div>
+          </Button>
+
+          <Button onClick={exportToMSPDI} variant="outline" className="justify-start h-auto py-4">
+            <FileCode className="h-5 w-5 mr-3 text-emerald-700" />
+            <div className="text-left">
+              <div>MS Project XML</div>
+              <div className="text-xs text-muted-foreground">
+                Tracks, subtasks, owners and milestones for Microsoft Project
+              </div>
+            </div>
+          </Button>
+
+          <Button onClick={() => fileInputRef.current?.click()} variant="outline" className="justify-start h-auto py-4">
+            <Upload className="h-5 w-5 mr-3 text-indigo-600" />
+            <div className="text-left">
+              <div>Import project file</div>
+              <div className="text-xs text-muted-foreground">
+                Load a .json project file exported from this app
               </div>
             </div>
           </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleProjectFileSelected}
+          />
+
+          <Button onClick={() => mspdiInputRef.current?.click()} variant="outline" className="justify-start h-auto py-4">
+            <Upload className="h-5 w-5 mr-3 text-emerald-700" />
+            <div className="text-left">
+              <div>Import MS Project XML</div>
+              <div className="text-xs text-muted-foreground">
+                Rebuild tracks and subtasks from a Microsoft Project (MSPDI) file
+              </div>
+            </div>
+          </Button>
+          <input
+            ref={mspdiInputRef}
+            type="file"
+            accept=".xml,application/xml,text/xml"
+            className="hidden"
+            onChange={handleMspdiFileSelected}
+          />
+
+          {pendingImport && pendingImport.errors.length > 0 && (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm">
+              <div className="flex items-center gap-2 font-medium text-red-700 mb-2">
+                <AlertCircle className="h-4 w-4" />
+                {pendingImport.errors.length} problem{pendingImport.errors.length !== 1 ? 's' : ''} in {pendingImport.fileName}
+              </div>
+              <ul className="max-h-48 overflow-y-auto space-y-1 text-xs">
+                {pendingImport.errors.map((error, idx) => (
+                  <li key={idx}>
+                    <code className="font-mono text-red-800">{error.field}</code>{' '}
+                    <span className="text-red-700">{error.message}</span>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-muted-foreground mt-2">Nothing was imported. Fix the file and try again.</p>
+            </div>
+          )}
+
+          {pendingImport?.project && (
+            <div className="rounded-lg border border-indigo-200 bg-indigo-50 p-3 text-sm space-y-3">
+              <div>
+                <div className="font-medium">{pendingImport.fileName}</div>
+                <div className="text-xs text-muted-foreground">
+                  {pendingImport.project.baseTracks.length} tracks • {pendingImport.project.customTasks.length} custom tasks • {Object.keys(pendingImport.project.taskOverrides).length} edits • {pendingImport.project.milestones.length} milestones
+                  {pendingImport.exportedAt && ` • exported ${new Date(pendingImport.exportedAt).toLocaleDateString()}`}
+                </div>
+              </div>
+              {pendingImport.source === 'mspdi' ? (
+                <p className="text-xs text-muted-foreground">
+                  Replaces all tracks, subtasks, edits and custom tasks with the tasks in this file. Owners and categories are kept.
+                </p>
+              ) : (
+                <RadioGroup value={importMode} onValueChange={(value) => setImportMode(value as ImportMode)}>
+                  <div className="flex items-start gap-2">
+                    <RadioGroupItem value="replace" id="import-replace" className="mt-0.5" />
+                    <Label htmlFor="import-replace" className="flex-col items-start gap-0.5">
+                      Replace current project
+                      <span className="text-xs text-muted-foreground font-normal">Discard the current plan and use the file as-is</span>
+                    </Label>
+                  </div>
+                  <div className="flex items-start gap-2">
+                    <RadioGroupItem value="merge" id="import-merge" className="mt-0.5" />
+                    <Label htmlFor="import-merge" className="flex-col items-start gap-0.5">
+                      Merge into current project
+                      <span className="text-xs text-muted-foreground font-normal">Add new tasks; the file wins where both edit the same task</span>
+                    </Label>
+                  </div>
+                </RadioGroup>
+              )}
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setPendingImport(null)}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={confirmImport} className="bg-gradient-to-r from-indigo-500 to-blue-500 text-white">
+                  {importMode === 'merge' ? 'Merge' : 'Replace'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <Button onClick={() => csvInputRef.current?.click()} variant="outline" className="justify-start h-auto py-4">
+            <TableProperties className="h-5 w-5 mr-3 text-emerald-600" />
+            <div className="text-left">
+              <div>Import tasks from CSV</div>
+              <div className="text-xs text-muted-foreground">
+                Update dates and owners or add tasks from a spreadsheet
+              </div>
+            </div>
+          </Button>
+          <input
+            ref={csvInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleCsvFileSelected}
+          />
+
+          {pendingCsv && (
+            <CsvImportPanel
+              key={pendingCsv.loadedAt}
+              fileName={pendingCsv.fileName}
+              rows={pendingCsv.rows}
+              tasks={tasks}
+              categories={project.categories}
+              onCancel={() => setPendingCsv(null)}
+              onApply={confirmCsvImport}
+            />
+          )}
 
           <Button onClick={exportSourceCode} variant="outline" className="justify-start h-auto py-4">
             <Code className="h-5 w-5 mr-3 text-blue-600" />
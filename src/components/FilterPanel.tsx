@@ -1,101 +1,202 @@
-import { Search, X } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { ChevronDown, Search, X } from 'lucide-react'
 import { Input } from './ui/input'
 import { Button } from './ui/button'
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Badge } from './ui/badge'
+import { Checkbox } from './ui/checkbox'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { taskStatusInfo, taskStatusOrder } from '../utils/taskStatus'
+import type { Category } from '../utils/persistence'
+import {
+  applySuggestion,
+  CRITICAL_STATUS,
+  describeQueryTerm,
+  parseFilterQuery,
+  querySuggestions,
+  removeQueryTerm,
+  selectedValues,
+  statusSuggestions,
+  toggleQueryValue,
+  type QueryField,
+  type QueryValues,
+} from '../utils/filterQuery'
 
 interface FilterPanelProps {
-  searchTerm: string
-  setSearchTerm: (term: string) => void
-  ownerFilter: string
-  setOwnerFilter: (owner: string) => void
-  statusFilter: string
-  setStatusFilter: (status: string) => void
+  query: string
+  setQuery: (query: string) => void
   owners: string[]
+  categories: Category[]
+  tags: string[]
+  assignees: string[]
   onReset: () => void
 }
 
+interface FilterOption {
+  value: string
+  label: string
+}
+
 export function FilterPanel({
-  searchTerm,
-  setSearchTerm,
-  ownerFilter,
-  setOwnerFilter,
-  statusFilter,
-  setStatusFilter,
+  query,
+  setQuery,
   owners,
+  categories,
+  tags,
+  assignees,
   onReset
 }: FilterPanelProps) {
-  const hasActiveFilters = searchTerm || ownerFilter !== 'all' || statusFilter !== 'all'
+  const [showSuggestions, setShowSuggestions] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+  const terms = useMemo(() => parseFilterQuery(query), [query])
+
+  const values: QueryValues = useMemo(() => ({
+    owner: owners.map(value => ({ value })),
+    status: statusSuggestions,
+    category: categories.map(category => ({ value: category.id, hint: category.label })),
+    tag: tags.map(value => ({ value })),
+    assignee: assignees.map(value => ({ value })),
+  }), [owners, categories, tags, assignees])
+
+  const suggestions = showSuggestions ? querySuggestions(query, values) : []
+
+  const changeQuery = (next: string) => {
+    setQuery(next)
+    setHighlighted(0)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setHighlighted(prev => (prev + step + suggestions.length) % suggestions.length)
+    } else if (e.key === 'Tab' || (e.key === 'Enter' && /\S$/.test(query))) {
+      e.preventDefault()
+      changeQuery(applySuggestion(query, suggestions[Math.min(highlighted, suggestions.length - 1)]))
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false)
+    }
+  }
+
+  // A multi-select over one list field of the query
+  const multiSelect = (field: QueryField, title: string, options: FilterOption[]) => {
+    const selected = selectedValues(terms, field).map(value => value.toLowerCase())
+    const isSelected = (option: FilterOption) =>
+      selected.includes(option.value.toLowerCase()) || selected.includes(option.label.toLowerCase())
+    const count = options.filter(isSelected).length
+    return (
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="w-[160px] justify-between font-normal">
+            <span className="flex items-center gap-2">
+              {title}
+              {count > 0 && <Badge className="h-5 px-1.5">{count}</Badge>}
+            </span>
+            <ChevronDown className="h-4 w-4 text-muted-foreground" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-[220px] p-1 max-h-[320px] overflow-y-auto">
+          {options.length === 0 && (
+            <p className="p-2 text-sm text-muted-foreground">Nothing to filter by</p>
+          )}
+          {options.map(option => (
+            <label
+              key={option.value}
+              className="flex items-center gap-2 rounded-sm px-2 py-1.5 text-sm cursor-pointer hover:bg-accent"
+            >
+              <Checkbox
+                checked={isSelected(option)}
+                onCheckedChange={() => changeQuery(toggleQueryValue(query, field, option.value, [option.label]))}
+              />
+              {option.label}
+            </label>
+          ))}
+        </PopoverContent>
+      </Popover>
+    )
+  }
 
   return (
     <div className="flex flex-wrap gap-3 items-center">
       <div className="relative flex-1 min-w-[200px]">
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
         <Input
-          placeholder="Search tasks..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="pl-9"
+          placeholder="Search or filter, e.g. owner:Design status:overdue end<2026-04-01"
+          value={query}
+          onChange={(e) => {
+            changeQuery(e.target.value)
+            setShowSuggestions(true)
+          }}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={() => setShowSuggestions(false)}
+          onKeyDown={handleKeyDown}
+          className="pl-9 pr-9"
+          aria-label="Filter query"
+          autoComplete="off"
         />
-        {searchTerm && (
+        {query && (
           <button
-            onClick={() => setSearchTerm('')}
+            onClick={() => changeQuery('')}
             className="absolute right-3 top-1/2 transform -translate-y-1/2"
           >
             <X className="h-4 w-4 text-muted-foreground hover:text-foreground" />
           </button>
         )}
+        {suggestions.length > 0 && (
+          <div className="absolute left-0 right-0 top-full z-50 mt-1 max-h-[260px] overflow-y-auto rounded-md border bg-popover p-1 shadow-md">
+            {suggestions.map((suggestion, i) => (
+              <button
+                key={suggestion.text}
+                type="button"
+                // Keep focus in the input so typing can carry on
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => changeQuery(applySuggestion(query, suggestion))}
+                onMouseEnter={() => setHighlighted(i)}
+                className={`flex w-full items-center justify-between gap-4 rounded-sm px-2 py-1.5 text-left text-sm ${
+                  i === highlighted ? 'bg-accent text-accent-foreground' : ''
+                }`}
+              >
+                <span className="font-mono">{suggestion.label}</span>
+                {suggestion.hint && <span className="text-xs text-muted-foreground">{suggestion.hint}</span>}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
-      <Select value={ownerFilter} onValueChange={setOwnerFilter}>
-        <SelectTrigger className="w-[180px]">
-          <SelectValue placeholder="Filter by owner" />
-        </SelectTrigger>
-        <SelectContent>
-          <SelectItem value="all">All Owners</SelectItem>
-          {owners.map(owner => (
-            <SelectItem key={owner} value={owner}>{owner}</SelectItem>
-          ))}
-        </SelectContent>
-      </Select>
-
-      <Select value={statusFilter} onValueChange={setStatusFilter}>
-        <SelectTrigger className="w-[180px]">
-          <SelectValue placeholder="Filter by status" />
-        </SelectTrigger>
-        <SelectContent>
-          <SelectItem value="all">All Status</SelectItem>
-          <SelectItem value="completed">Completed</SelectItem>
-          <SelectItem value="in-progress">In Progress</SelectItem>
-          <SelectItem value="not-started">Not Started</SelectItem>
-          <SelectItem value="overdue">Overdue</SelectItem>
-        </SelectContent>
-      </Select>
+      {multiSelect('owner', 'Owner', owners.map(owner => ({ value: owner, label: owner })))}
+      {multiSelect('status', 'Status', [
+        ...taskStatusOrder.map(status => ({ value: status, label: taskStatusInfo[status].label })),
+        { value: CRITICAL_STATUS, label: 'Critical Path Only' },
+      ])}
+      {multiSelect('category', 'Category', categories.map(category => ({ value: category.id, label: category.label })))}
 
-      {hasActiveFilters && (
+      {query.trim() && (
         <Button variant="ghost" size="sm" onClick={onReset}>
           <X className="h-4 w-4 mr-1" />
           Clear Filters
         </Button>
       )}
 
-      {hasActiveFilters && (
-        <div className="flex gap-2 flex-wrap">
-          {searchTerm && (
-            <Badge variant="secondary">
-              Search: {searchTerm}
-            </Badge>
-          )}
-          {ownerFilter !== 'all' && (
-            <Badge variant="secondary">
-              Owner: {ownerFilter}
+      {terms.length > 0 && (
+        <div className="flex gap-2 flex-wrap w-full">
+          {terms.map((term, i) => (
+            <Badge
+              key={`${i}-${term.raw}`}
+              variant={term.error ? 'outline' : 'secondary'}
+              className={`gap-1 pr-1 ${term.error ? 'border-red-300 text-red-600 line-through' : ''}`}
+              title={term.error}
+            >
+              {describeQueryTerm(term, categories)}
+              <button
+                onClick={() => changeQuery(removeQueryTerm(query, i))}
+                className="rounded-sm hover:bg-black/10"
+                aria-label={`Remove ${term.raw}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
             </Badge>
-          )}
-          {statusFilter !== 'all' && (
-            <Badge variant="secondary">
-              Status: {statusFilter.replace('-', ' ')}
-            </Badge>
-          )}
+          ))}
         </div>
       )}
     </div>
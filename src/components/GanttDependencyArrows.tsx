@@ -0,0 +1,132 @@
+import { useState } from 'react'
+import { requiredShift, dependencyTypeLabels, type TaskDependency } from '../utils/dependencies'
+
+interface BarTask {
+  id: string
+  label: string
+  start: string
+  end: string
+  startOffset: number
+  endOffset: number
+  dependencies?: TaskDependency[]
+}
+
+interface BarRect {
+  x: number
+  y: number
+  width: number
+  height: number
+  payload: BarTask
+}
+
+// Props injected by recharts when rendered through <Customized component={...} />
+interface GanttDependencyArrowsProps {
+  formattedGraphicalItems?: Array<{ item: { props: { dataKey?: string } }; props: { data?: BarRect[] } }>
+  xAxisMap?: Record<string, { scale: (value: number) => number; x: number; width: number }>
+}
+
+const ARROW_COLOR = '#64748b'
+const HOVER_COLOR = '#0f172a'
+const VIOLATION_COLOR = '#ef4444'
+const ELBOW = 10
+
+// Draws elbow connectors between the bars of linked tasks. Links whose
+// successor starts (or finishes) too early for its predecessor are drawn red.
+export function GanttDependencyArrows({ formattedGraphicalItems = [], xAxisMap = {} }: GanttDependencyArrowsProps) {
+  const [hoveredLink, setHoveredLink] = useState<string | null>(null)
+
+  const durationBars = formattedGraphicalItems.find(entry => entry.item.props.dataKey === 'length')
+  const xAxis = Object.values(xAxisMap)[0]
+  if (!durationBars?.props.data || !xAxis) return null
+
+  const toPlotX = (offset: number) => Math.min(xAxis.x + xAxis.width, Math.max(xAxis.x, xAxis.scale(offset)))
+
+  const rows: Record<string, BarRect> = {}
+  durationBars.props.data.forEach(rect => { rows[rect.payload.id] = rect })
+
+  const links = durationBars.props.data.flatMap(successorRect => {
+    const successor = successorRect.payload
+    return (successor.dependencies || []).flatMap(dep => {
+      const predecessorRect = rows[dep.predecessorId]
+      if (!predecessorRect) return []
+      const predecessor = predecessorRect.payload
+
+      // Anchor on the real task dates (not the bar clipped to the visible
+      // range), kept inside the plot area
+      const fromEnd = dep.type === 'FS' || dep.type === 'FF'
+      const toEnd = dep.type === 'FF' || dep.type === 'SF'
+      const x1 = toPlotX(fromEnd ? predecessor.endOffset : predecessor.startOffset)
+      const x2 = toPlotX(toEnd ? successor.endOffset : successor.startOffset)
+      const y1 = predecessorRect.y + predecessorRect.height / 2
+      const y2 = successorRect.y + successorRect.height / 2
+
+      const exitDir = fromEnd ? 1 : -1
+      const entryDir = toEnd ? -1 : 1 // direction of travel into the successor
+      const xa = x1 + exitDir * ELBOW
+      const xb = x2 - entryDir * ELBOW
+
+      // Go straight across when the elbows line up, otherwise detour through
+      // the gap between the two rows
+      const direct = entryDir === 1 ? xa <= xb : xa >= xb
+      const midY = y1 + (y2 - y1) / 2
+      const path = direct
+        ? `M ${x1} ${y1} H ${xb} V ${y2} H ${x2}`
+        : `M ${x1} ${y1} H ${xa} V ${midY} H ${xb} V ${y2} H ${x2}`
+
+      const lagLabel = dep.lag ? ` ${dep.lag > 0 ? '+' : ''}${dep.lag}d` : ''
+      return [{
+        key: `${predecessor.id}->${successor.id}`,
+        path,
+        violated: requiredShift(predecessor, successor, dep) > 0,
+        title: `${predecessor.label} → ${successor.label} (${dependencyTypeLabels[dep.type]}${lagLabel})`,
+      }]
+    })
+  })
+
+  return (
+    <g className="gantt-dependency-arrows">
+      <defs>
+        {[['normal', ARROW_COLOR], ['hover', HOVER_COLOR], ['violated', VIOLATION_COLOR]].map(([name, color]) => (
+          <marker
+            key={name}
+            id={`gantt-arrow-${name}`}
+            viewBox="0 0 10 10"
+            refX={9}
+            refY={5}
+            markerWidth={6}
+            markerHeight={6}
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+          </marker>
+        ))}
+      </defs>
+      {links.map(link => {
+        const hovered = hoveredLink === link.key
+        const color = link.violated ? VIOLATION_COLOR : hovered ? HOVER_COLOR : ARROW_COLOR
+        const marker = link.violated ? 'violated' : hovered ? 'hover' : 'normal'
+        return (
+          <g
+            key={link.key}
+            onMouseEnter={() => setHoveredLink(link.key)}
+            onMouseLeave={() => setHoveredLink(null)}
+          >
+            <title>{link.violated ? `Conflict: ${link.title}` : link.title}</title>
+            {/* Wide transparent stroke makes the thin connector easy to hover */}
+            <path d={link.path} fill="none" stroke="transparent" strokeWidth={10} />
+            <path
+              d={link.path}
+              fill="none"
+              stroke={color}
+              strokeWidth={hovered ? 2.5 : 1.5}
+              strokeDasharray={link.violated ? '4 3' : undefined}
+              markerEnd={`url(#gantt-arrow-${marker})`}
+              opacity={hoveredLink && !hovered ? 0.35 : 1}
+              style={{ pointerEvents: 'none' }}
+            />
+          </g>
+        )
+      })}
+    </g>
+  )
+}
@@ -1,4 +1,4 @@
-import { useMemo, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { Card, CardContent } from './ui/card'
 import { Badge } from './ui/badge'
 import { Button } from './ui/button'
@@ -6,11 +6,25 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, Dialog
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog'
 import { Input } from './ui/input'
 import { Label } from './ui/label'
-import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, LabelList, ReferenceLine, Cell } from 'recharts'
-import { Edit, Save, X, Plus, Trash2 } from 'lucide-react'
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, LabelList, ReferenceLine, Cell, Customized } from 'recharts'
+import { Edit, Save, X, Plus, Trash2, Route, ListTree, FolderTree, Layers, Users } from 'lucide-react'
 import { toast } from 'sonner@2.0.3'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
-import { categoryLabels } from '../App'
+import { CategoryBadge, CategoryIcon } from './CategoryBadge'
+import { GanttDependencyArrows } from './GanttDependencyArrows'
+import type { TaskSchedule } from '../utils/criticalPath'
+import { dependencyTypeLabels, wouldCreateCycle, type DependencyType, type TaskDependency } from '../utils/dependencies'
+import { addDays, addMonths, daysBetween, endOfMonth, formatDate, formatDays, startOfMonth, toDate, type DayUnit } from '../utils/dates'
+import { countDays, DEFAULT_CALENDAR, type ProjectCalendar } from '../utils/workCalendar'
+import { formatVariance, getTaskStatus, taskStatusInfo, taskStatusOrder, type TaskStatus } from '../utils/taskStatus'
+import { isSubtaskOverdue, subtaskPercent, subtaskStateInfo, subtaskStateOf, subtaskStateOrder } from '../utils/subtasks'
+import type { Baseline, Category, Owner, Phase, SubtaskProgress } from '../utils/persistence'
+import { findOwner, ownerColor, ownerOptions, unregisteredOwners } from '../utils/owners'
+import { categoryColor, categoryIcon, categoryLabel, unregisteredCategories } from '../utils/categories'
+import { formatTags, parseTags } from '../utils/tags'
+import type { GanttFocus } from '../utils/workload'
+import { buildWbs, flattenWbs, phasePath } from '../utils/wbs'
+import { formatSlip, slipColor, taskVariance } from '../utils/baselines'
 
 interface Task {
   id: string
@@ -20,7 +34,11 @@ interface Task {
   owner: string
   offset: number
   length: number
-  category?: string
+  categories?: string[]
+  dependencies?: TaskDependency[]
+  phaseId?: string
+  assignees?: string[]
+  tags?: string[]
 }
 
 interface Subtask {
@@ -28,67 +46,156 @@ interface Subtask {
   label: string
   weight: number
   description: string
+  due?: string
+  assignee?: string
 }
 
 interface GanttViewProps {
   tasks: Task[]
+  allTasks?: Task[]
   progress: Record<string, number>
   kickoff: string
   endDate: string
   currentDate: string
   milestones?: { date: string; label: string }[]
-  categoryColors: Record<string, string>
-  onUpdateTask?: (taskId: string, updates: { start?: string; end?: string; owner?: string; label?: string }) => void
-  onCreateTask?: (taskData: { label: string; start: string; end: string; owner: string; category?: string }) => void
+  phases?: Phase[]
+  categories: Category[]
+  owners: Owner[]
+  criticalPath?: Record<string, TaskSchedule>
+  criticalPathTarget?: string
+  onCriticalPathTargetChange?: (date: string) => void
+  onUpdateTask?: (taskId: string, updates: { start?: string; end?: string; owner?: string; label?: string; dependencies?: TaskDependency[]; assignees?: string[]; categories?: string[]; tags?: string[]; phaseId?: string | null }) => void
+  onCreateTask?: (taskData: { label: string; start: string; end: string; owner: string; categories?: string[]; phaseId?: string; assignees?: string[]; tags?: string[] }) => void
   onDeleteTask?: (taskId: string) => void
   onResetTimelines?: () => void
   hasOverrides?: boolean
   subtaskDefinitions?: Record<string, Subtask[]>
-  subtaskProgress?: Record<string, Record<string, boolean>>
+  subtaskProgress?: Record<string, Record<string, SubtaskProgress>>
+  onVisibleRangeChange?: (range: { start: string; end: string }) => void
+  calendar?: ProjectCalendar
+  dayUnit?: DayUnit
+  baseline?: Baseline | null // drawn as ghost bars when shown
+  focus?: GanttFocus | null // tasks picked out from elsewhere, such as the workload view
+  onClearFocus?: () => void
 }
 
-const toDate = (s: string) => new Date(s)
-const daysBetween = (a: string, b: string) => Math.round((toDate(b).getTime() - toDate(a).getTime()) / (1000 * 60 * 60 * 24))
-const addDays = (s: string, d: number) => new Date(toDate(s).getTime() + d * 86400000).toISOString().slice(0, 10)
+type DragMode = 'move' | 'start' | 'end'
+
+export function GanttView({ tasks, allTasks = tasks, progress, kickoff, endDate, currentDate, milestones = [], phases = [], categories, owners, criticalPath = {}, criticalPathTarget = endDate, onCriticalPathTargetChange, onUpdateTask, onCreateTask, onDeleteTask, onResetTimelines, hasOverrides, subtaskDefinitions = {}, subtaskProgress = {}, onVisibleRangeChange, calendar = DEFAULT_CALENDAR, dayUnit = 'calendar', baseline, focus, onClearFocus }: GanttViewProps) {
+  // Durations shown to the user follow the chosen day unit; bar positions stay on calendar days
+  const formatDuration = (start: string, end: string, owner?: string) =>
+    formatDays(Math.max(1, countDays(start, end, { unit: dayUnit, calendar, owner })), dayUnit)
 
-export function GanttView({ tasks, progress, kickoff, endDate, currentDate, milestones = [], categoryColors, onUpdateTask, onCreateTask, onDeleteTask, onResetTimelines, hasOverrides, subtaskDefinitions = {}, subtaskProgress = {} }: GanttViewProps) {
   const [editingTask, setEditingTask] = useState<Task | null>(null)
   const [editStart, setEditStart] = useState('')
   const [editEnd, setEditEnd] = useState('')
   const [editOwner, setEditOwner] = useState('')
   const [editLabel, setEditLabel] = useState('')
+  const [editDependencies, setEditDependencies] = useState<TaskDependency[]>([])
+  const [editPhase, setEditPhase] = useState('none')
+  const [editAssignees, setEditAssignees] = useState<string[]>([])
+  const [editCategories, setEditCategories] = useState<string[]>([])
+  const [editTags, setEditTags] = useState('')
   const [isEditMode, setIsEditMode] = useState(false)
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
   const [newTaskLabel, setNewTaskLabel] = useState('')
   const [newTaskStart, setNewTaskStart] = useState(kickoff)
   const [newTaskEnd, setNewTaskEnd] = useState(kickoff)
-  const [newTaskOwner, setNewTaskOwner] = useState('Leadership')
-  const [newTaskCategory, setNewTaskCategory] = useState<string>('none')
+  const [newTaskOwner, setNewTaskOwner] = useState(owners[0]?.name || '')
+  const [newTaskCategories, setNewTaskCategories] = useState<string[]>([])
+  const [newTaskPhase, setNewTaskPhase] = useState('none')
+  const [newTaskAssignees, setNewTaskAssignees] = useState<string[]>([])
+  const [newTaskTags, setNewTaskTags] = useState('')
   const [taskToDelete, setTaskToDelete] = useState<Task | null>(null)
+  const [showCriticalPath, setShowCriticalPath] = useState(false)
+  const [expandedTaskIds, setExpandedTaskIds] = useState<Set<string>>(new Set())
+  const [groupByPhase, setGroupByPhase] = useState(phases.length > 0)
+  const [collapsedPhaseIds, setCollapsedPhaseIds] = useState<Set<string>>(new Set())
+  const [showBaseline, setShowBaseline] = useState(false)
+
+  const toggleCollapsed = (phaseId: string) => {
+    setCollapsedPhaseIds(prev => {
+      const next = new Set(prev)
+      if (next.has(phaseId)) next.delete(phaseId)
+      else next.add(phaseId)
+      return next
+    })
+  }
+
+  const toggleExpanded = (taskId: string) => {
+    setExpandedTaskIds(prev => {
+      const next = new Set(prev)
+      if (next.has(taskId)) next.delete(taskId)
+      else next.add(taskId)
+      return next
+    })
+  }
+
+  // Drag-to-reschedule state: the fixed drag origin lives in a ref, the live
+  // preview (dates + pointer position for the date tooltip) in state
+  const chartContainerRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ task: Task; mode: DragMode; originX: number; pxPerDay: number } | null>(null)
+  const [dragPreview, setDragPreview] = useState<{ taskId: string; start: string; end: string; x: number; y: number } | null>(null)
+  const [snapUnit, setSnapUnit] = useState<'day' | 'week'>('day')
+  const isDragging = dragPreview !== null
   
   // Timeline zoom state
   const [viewRange, setViewRange] = useState<'full' | '3months' | '6months' | 'custom'>('full')
   const [customStartDate, setCustomStartDate] = useState(kickoff)
   const [customEndDate, setCustomEndDate] = useState(endDate)
 
+  // Zoom in around the dates a focus is about
+  const focusIds = useMemo(() => new Set(focus?.taskIds || []), [focus])
+  useEffect(() => {
+    if (!focus) return
+    setViewRange('custom')
+    setCustomStartDate(addDays(focus.start, -14))
+    setCustomEndDate(addDays(focus.end, 42))
+  }, [focus])
+
   const openEditDialog = (task: Task) => {
     setEditingTask(task)
     setEditStart(task.start)
     setEditEnd(task.end)
     setEditOwner(task.owner)
     setEditLabel(task.label)
+    setEditDependencies(task.dependencies || [])
+    setEditPhase(task.phaseId && phases.some(phase => phase.id === task.phaseId) ? task.phaseId : 'none')
+    setEditAssignees(task.assignees || [])
+    setEditCategories(task.categories || [])
+    setEditTags(formatTags(task.tags))
+  }
+
+  const updateEditDependency = (index: number, updates: Partial<TaskDependency>) => {
+    setEditDependencies(prev => prev.map((dep, i) => i === index ? { ...dep, ...updates } : dep))
   }
 
   const saveEdit = () => {
     if (editingTask && onUpdateTask) {
+      const dependencies = editDependencies.filter((dep, i) =>
+        dep.predecessorId && editDependencies.findIndex(d => d.predecessorId === dep.predecessorId) === i
+      )
+      const cyclic = dependencies.find(dep => wouldCreateCycle(allTasks, editingTask.id, dep.predecessorId))
+      if (cyclic) {
+        const predecessor = allTasks.find(t => t.id === cyclic.predecessorId)
+        toast.error('Circular dependency', {
+          description: `"${predecessor?.label}" already depends on "${editingTask.label}"`
+        })
+        return
+      }
       onUpdateTask(editingTask.id, {
         start: editStart,
         end: editEnd,
         owner: editOwner,
-        label: editLabel
+        label: editLabel,
+        dependencies,
+        assignees: editAssignees,
+        categories: editCategories,
+        tags: parseTags(editTags),
+        ...(editPhase !== (editingTask.phaseId || 'none') && { phaseId: editPhase === 'none' ? null : editPhase })
       })
       toast.success(`Updated task "${editLabel}"`, {
-        description: `Owner: ${editOwner} | Dates: ${new Date(editStart).toLocaleDateString()} - ${new Date(editEnd).toLocaleDateString()}`
+        description: `Owner: ${editOwner} | Dates: ${formatDate(editStart)} - ${formatDate(editEnd)}`
       })
     }
     setEditingTask(null)
@@ -100,24 +207,29 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
       return
     }
     if (onCreateTask) {
-      const categoryValue = newTaskCategory === 'none' ? undefined : newTaskCategory
       onCreateTask({
         label: newTaskLabel,
         start: newTaskStart,
         end: newTaskEnd,
         owner: newTaskOwner,
-        category: categoryValue
+        phaseId: newTaskPhase === 'none' ? undefined : newTaskPhase,
+        ...(newTaskCategories.length > 0 && { categories: newTaskCategories }),
+        ...(newTaskAssignees.length > 0 && { assignees: newTaskAssignees }),
+        ...(parseTags(newTaskTags).length > 0 && { tags: parseTags(newTaskTags) })
       })
-      const categoryInfo = categoryValue ? ` | ${categoryLabels[categoryValue]}` : ''
+      const categoryInfo = newTaskCategories.length > 0 ? ` | ${newTaskCategories.map(id => categoryLabel(categories, id)).join(', ')}` : ''
       toast.success(`Created task "${newTaskLabel}"`, {
-        description: `Owner: ${newTaskOwner}${categoryInfo} | ${new Date(newTaskStart).toLocaleDateString()} - ${new Date(newTaskEnd).toLocaleDateString()}`
+        description: `Owner: ${newTaskOwner}${categoryInfo} | ${formatDate(newTaskStart)} - ${formatDate(newTaskEnd)}`
       })
       // Reset form
       setNewTaskLabel('')
       setNewTaskStart(kickoff)
       setNewTaskEnd(kickoff)
-      setNewTaskOwner('Leadership')
-      setNewTaskCategory('none')
+      setNewTaskOwner(owners[0]?.name || '')
+      setNewTaskCategories([])
+      setNewTaskPhase('none')
+      setNewTaskAssignees([])
+      setNewTaskTags('')
       setIsCreateDialogOpen(false)
     }
   }
@@ -130,26 +242,90 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
     }
   }
 
+  // Dates the dragged task would get if released at `clientX`
+  const draggedDates = (clientX: number) => {
+    const drag = dragRef.current!
+    const step = snapUnit === 'week' ? 7 : 1
+    const delta = Math.round((clientX - drag.originX) / drag.pxPerDay / step) * step
+    const { start, end } = drag.task
+
+    if (drag.mode === 'move') {
+      return { start: addDays(start, delta), end: addDays(end, delta) }
+    }
+    if (drag.mode === 'start') {
+      const newStart = addDays(start, delta)
+      return { start: newStart > end ? end : newStart, end }
+    }
+    const newEnd = addDays(end, delta)
+    return { start, end: newEnd < start ? start : newEnd }
+  }
+
+  const pointerPosition = (clientX: number, clientY: number) => {
+    const rect = chartContainerRef.current?.getBoundingClientRect()
+    return { x: clientX - (rect?.left || 0), y: clientY - (rect?.top || 0) }
+  }
+
+  const startDrag = (e: React.PointerEvent, task: Task, mode: DragMode, pxPerDay: number) => {
+    if (!onUpdateTask || !(pxPerDay > 0)) return
+    e.preventDefault()
+    e.stopPropagation()
+    dragRef.current = { task, mode, originX: e.clientX, pxPerDay }
+    setDragPreview({ taskId: task.id, start: task.start, end: task.end, ...pointerPosition(e.clientX, e.clientY) })
+  }
+
+  useEffect(() => {
+    if (!isDragging) return
+
+    const handleMove = (e: PointerEvent) => {
+      if (!dragRef.current) return
+      setDragPreview({ taskId: dragRef.current.task.id, ...draggedDates(e.clientX), ...pointerPosition(e.clientX, e.clientY) })
+    }
+    const handleUp = (e: PointerEvent) => {
+      const drag = dragRef.current
+      if (!drag) return
+      const { start, end } = draggedDates(e.clientX)
+      dragRef.current = null
+      setDragPreview(null)
+      if (onUpdateTask && (start !== drag.task.start || end !== drag.task.end)) {
+        onUpdateTask(drag.task.id, { start, end })
+        toast.success(`Rescheduled "${drag.task.label}"`, {
+          description: `${formatDate(start)} - ${formatDate(end)}`
+        })
+      }
+    }
+    // The browser took the pointer away (touch scroll, lost capture,
+    // switching windows): drop the drag without rescheduling anything
+    const handleCancel = () => {
+      dragRef.current = null
+      setDragPreview(null)
+    }
+
+    window.addEventListener('pointermove', handleMove)
+    window.addEventListener('pointerup', handleUp)
+    window.addEventListener('pointercancel', handleCancel)
+    return () => {
+      window.removeEventListener('pointermove', handleMove)
+      window.removeEventListener('pointerup', handleUp)
+      window.removeEventListener('pointercancel', handleCancel)
+    }
+  }, [isDragging, snapUnit, onUpdateTask])
+
   // Calculate visible date range based on view mode
   const { visibleStart, visibleEnd } = useMemo(() => {
-    const today = toDate(currentDate)
+    const monthStart = startOfMonth(currentDate)
     
     switch (viewRange) {
       case '3months':
         // Show 0 month before today and 3 months after
-        const threeMonthStart = new Date(today.getFullYear(), today.getMonth() +0, 1)
-        const threeMonthEnd = new Date(today.getFullYear(), today.getMonth() + 3, 0)
         return {
-          visibleStart: threeMonthStart.toISOString().slice(0, 10),
-          visibleEnd: threeMonthEnd.toISOString().slice(0, 10)
+          visibleStart: monthStart,
+          visibleEnd: endOfMonth(addMonths(monthStart, 2))
         }
       case '6months':
         // Show 0 months before today and 5 months after
-        const sixMonthStart = new Date(today.getFullYear(), today.getMonth() + 0, 1)
-        const sixMonthEnd = new Date(today.getFullYear(), today.getMonth() + 5, 0)
         return {
-          visibleStart: sixMonthStart.toISOString().slice(0, 10),
-          visibleEnd: sixMonthEnd.toISOString().slice(0, 10)
+          visibleStart: monthStart,
+          visibleEnd: endOfMonth(addMonths(monthStart, 4))
         }
       case 'custom':
         return {
@@ -165,25 +341,28 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
     }
   }, [viewRange, currentDate, kickoff, endDate, customStartDate, customEndDate])
 
+  // Let the PDF export draw the same range the chart shows
+  useEffect(() => {
+    onVisibleRangeChange?.({ start: visibleStart, end: visibleEnd })
+  }, [visibleStart, visibleEnd, onVisibleRangeChange])
+
   const visibleStartOffset = useMemo(() => daysBetween(kickoff, visibleStart), [kickoff, visibleStart])
   const visibleEndOffset = useMemo(() => daysBetween(kickoff, visibleEnd), [kickoff, visibleEnd])
 
   const xTicks = useMemo(() => {
     const ticks = []
-    const start = toDate(visibleStart)
-    const end = toDate(visibleEnd)
     
     // Generate ticks for the 1st of each month in visible range
-    let currentMonth = new Date(start.getFullYear(), start.getMonth(), 1)
+    let currentMonth = startOfMonth(visibleStart)
     
-    while (currentMonth <= end) {
-      const dayOffset = daysBetween(kickoff, currentMonth.toISOString().slice(0, 10))
+    while (currentMonth <= visibleEnd) {
+      const dayOffset = daysBetween(kickoff, currentMonth)
       if (dayOffset >= visibleStartOffset && dayOffset <= visibleEndOffset) {
         ticks.push(dayOffset)
       }
       
       // Move to next month
-      currentMonth = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 1)
+      currentMonth = addMonths(currentMonth, 1)
     }
     
     return ticks
@@ -193,20 +372,84 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
     return daysBetween(kickoff, currentDate)
   }, [kickoff, currentDate])
 
-  // Owner-based color mapping (distinct from status colors)
-  const ownerColors: Record<string, string> = {
-    'Leadership': '#7c3aed', // Deep Purple
-    'Marketing': '#f59e0b', // Amber/Orange
-    'Design': '#ec4899',     // Pink
-    'Product': '#06b6d4',    // Cyan/Teal
+  // Registered owners, then any the shown tasks use without being registered
+  const legendOwners = useMemo(
+    () => [...owners.map(owner => owner.name), ...unregisteredOwners(owners, tasks.map(task => task.owner))],
+    [owners, tasks]
+  )
+
+  // Registered categories, then any that only tasks mention
+  const legendCategories = useMemo(
+    () => [...categories.map(category => category.id), ...unregisteredCategories(categories, tasks.flatMap(task => task.categories || []))],
+    [categories, tasks]
+  )
+
+  // Category choices for the create and edit dialogs; the first one picked is
+  // the task's main category
+  const categoryToggles = (selected: string[], onChange: (next: string[]) => void) => {
+    const ids = [...categories.map(category => category.id), ...selected.filter(id => !categories.some(c => c.id === id))]
+    if (ids.length === 0) {
+      return <p className="text-xs text-muted-foreground">No categories yet. Add them under Categories.</p>
+    }
+    return (
+      <div className="flex flex-wrap gap-1">
+        {ids.map(id => {
+          const isSelected = selected.includes(id)
+          return (
+            <Button
+              key={id}
+              type="button"
+              size="sm"
+              variant="outline"
+              className="h-7 text-xs gap-1"
+              style={isSelected ? { backgroundColor: categoryColor(categories, id), borderColor: categoryColor(categories, id), color: '#fff' } : undefined}
+              onClick={() => onChange(isSelected ? selected.filter(c => c !== id) : [...selected, id])}
+            >
+              <CategoryIcon icon={categoryIcon(categories, id)} />
+              {categoryLabel(categories, id)}
+            </Button>
+          )
+        })}
+      </div>
+    )
   }
-  
-  // Status colors (distinct from owner colors)
-  const statusColors = {
-    'completed': '#10b981',    // Green
-    'in-progress': '#3b82f6',  // Blue
-    'not-started': '#6b7280',  // Gray
-    'overdue': '#ef4444',      // Red
+
+  // Owner choices for the create and edit dialogs, swatched in the owner's color
+  const ownerSelectItems = (current: string) => ownerOptions(owners, current).map(owner => (
+    <SelectItem key={owner} value={owner}>
+      <div className="flex items-center gap-2">
+        <div className="w-3 h-3 rounded" style={{ backgroundColor: ownerColor(owners, owner) }}></div>
+        {owner}
+      </div>
+    </SelectItem>
+  ))
+
+  // People to pick from: the owner team's members, plus anyone already picked
+  const assigneeToggles = (owner: string, selected: string[], onChange: (next: string[]) => void) => {
+    const members = findOwner(owners, owner)?.members || []
+    const people = [...members, ...selected.filter(person => !members.includes(person))]
+    if (people.length === 0) {
+      return <p className="text-xs text-muted-foreground">{owner} has no members yet. Add them under Owners.</p>
+    }
+    return (
+      <div className="flex flex-wrap gap-1">
+        {people.map(person => {
+          const isSelected = selected.includes(person)
+          return (
+            <Button
+              key={person}
+              type="button"
+              size="sm"
+              variant={isSelected ? 'default' : 'outline'}
+              className="h-7 text-xs"
+              onClick={() => onChange(isSelected ? selected.filter(p => p !== person) : [...selected, person])}
+            >
+              {person}
+            </Button>
+          )
+        })}
+      </div>
+    )
   }
 
   // Filter tasks based on visible date range
@@ -222,66 +465,167 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
     })
   }, [tasks, visibleStart, visibleEnd])
 
+  // Clip a bar to the visible range, keeping at least one day visible
+  const clipToVisible = (startOffset: number, endOffset: number) => {
+    const offset = Math.max(startOffset, visibleStartOffset)
+    const length = Math.max(1, Math.min(endOffset, visibleEndOffset) - offset)
+    return { offset, length }
+  }
+
   const enrichedTasks = useMemo(() => {
     return visibleTasks.map(task => {
       const taskProgress = progress[task.id] || 0
-      const today = toDate(currentDate)
-      const start = toDate(task.start)
-      const end = toDate(task.end)
-      
-      let status = 'not-started'
-      if (taskProgress === 100) {
-        status = 'completed'
-      } else if (today >= start && today <= end) {
-        status = 'in-progress'
-      } else if (today > end) {
-        status = 'overdue'
-      }
+      const { status, expectedProgress, variance } = getTaskStatus(task, taskProgress, currentDate)
 
       // Assign color based on owner
-      const color = ownerColors[task.owner] || '#94a3b8'
+      const color = ownerColor(owners, task.owner)
 
-      // Clip the task bar to visible range
-      let clippedOffset = task.offset
-      let clippedLength = task.length
       const taskStartOffset = task.offset
       const taskEndOffset = task.offset + task.length
 
-      // If task starts before visible range, clip the start
-      if (taskStartOffset < visibleStartOffset) {
-        clippedOffset = visibleStartOffset
-        clippedLength = taskEndOffset - visibleStartOffset
-      }
-
-      // If task ends after visible range, clip the end
-      if (taskEndOffset > visibleEndOffset) {
-        clippedLength = visibleEndOffset - clippedOffset
-      }
-
-      // Ensure length is at least 1 day for visibility
-      clippedLength = Math.max(1, clippedLength)
-
       return { 
         ...task, 
-        offset: clippedOffset, 
-        length: clippedLength, 
+        ...clipToVisible(taskStartOffset, taskEndOffset),
+        startOffset: taskStartOffset,
+        endOffset: taskEndOffset,
+        schedule: criticalPath[task.id],
+        baselineVariance: baseline ? taskVariance(task, baseline, dayUnit, calendar) : undefined,
         status, 
+        expectedProgress,
+        variance,
         progress: taskProgress, 
         color 
       }
     })
-  }, [visibleTasks, progress, currentDate, visibleStartOffset, visibleEndOffset])
-
-  const getBarColor = (status: string) => {
-    switch (status) {
-      case 'completed': return statusColors.completed
-      case 'in-progress': return statusColors['in-progress']
-      case 'overdue': return statusColors.overdue
-      case 'not-started': return statusColors['not-started']
-      default: return '#94a3b8'
+  }, [visibleTasks, progress, currentDate, visibleStartOffset, visibleEndOffset, criticalPath, baseline, dayUnit, calendar, owners])
+
+  // Tasks beneath each phase, with rollups over every task passed in (not
+  // just those in the visible range)
+  const wbs = useMemo(() => buildWbs(phases, tasks, progress), [phases, tasks, progress])
+  const showPhases = groupByPhase && phases.length > 0
+  const phaseOutline = useMemo(() => flattenWbs(wbs.roots), [wbs])
+
+  // Chart rows: each task, followed by its subtasks when expanded. A subtask
+  // bar runs from its task's start to its due date (or the task's end). When
+  // grouped by phase, each phase's summary row comes before its tasks and
+  // sub-phases, and collapsing it hides them.
+  const chartRows = useMemo(() => {
+    const taskRows = (task: typeof enrichedTasks[number]) => {
+      const subtasks = subtaskDefinitions[task.id] || []
+      if (!expandedTaskIds.has(task.id) || subtasks.length === 0) return [{ ...task, kind: 'task' as const }]
+      const entries = subtaskProgress[task.id] || {}
+      const subtaskRows = subtasks.map(subtask => {
+        const end = subtask.due || task.end
+        const start = end < task.start ? end : task.start
+        const startOffset = task.startOffset + daysBetween(task.start, start)
+        const endOffset = Math.max(startOffset + 1, task.startOffset + daysBetween(task.start, end))
+        const entry = entries[subtask.id]
+        return {
+          kind: 'subtask' as const,
+          id: `${task.id}/${subtask.id}`,
+          label: `↳ ${subtask.label}`,
+          start,
+          end,
+          ...clipToVisible(startOffset, endOffset),
+          startOffset,
+          endOffset,
+          parent: task,
+          subtask,
+          state: subtaskStateOf(entry),
+          percent: subtaskPercent(entry),
+          overdue: isSubtaskOverdue(subtask, entry, currentDate),
+        }
+      })
+      return [{ ...task, kind: 'task' as const }, ...subtaskRows]
+    }
+
+    if (!showPhases) return enrichedTasks.flatMap(taskRows)
+
+    const visibleById = new Map(enrichedTasks.map(task => [task.id, task]))
+    const visibleTaskRows = (phaseTasks: Task[]) =>
+      phaseTasks.flatMap(task => (visibleById.has(task.id) ? taskRows(visibleById.get(task.id)!) : []))
+
+    // Outline order puts each phase before its sub-phases; everything deeper
+    // than a collapsed phase is skipped until the outline climbs back out
+    let collapsedDepth = Infinity
+    const phaseRows = flattenWbs(wbs.roots).flatMap(node => {
+      if (node.depth > collapsedDepth) return []
+      collapsedDepth = collapsedPhaseIds.has(node.phase.id) ? node.depth : Infinity
+      const rollup = node.rollup
+      if (!rollup || rollup.end < visibleStart || rollup.start > visibleEnd) return []
+      const startOffset = daysBetween(kickoff, rollup.start)
+      const endOffset = Math.max(startOffset + 1, daysBetween(kickoff, rollup.end))
+      const summary = {
+        kind: 'phase' as const,
+        id: `phase:${node.phase.id}`,
+        label: `${node.code} ${node.phase.label}`,
+        start: rollup.start,
+        end: rollup.end,
+        ...clipToVisible(startOffset, endOffset),
+        startOffset,
+        endOffset,
+        phase: node.phase,
+        depth: node.depth,
+        progress: rollup.progress,
+        taskCount: rollup.taskCount,
+      }
+      return collapsedPhaseIds.has(node.phase.id) ? [summary] : [summary, ...visibleTaskRows(node.tasks)]
+    })
+    return [...phaseRows, ...visibleTaskRows(wbs.unphased)]
+  }, [enrichedTasks, expandedTaskIds, subtaskDefinitions, subtaskProgress, currentDate, showPhases, wbs, collapsedPhaseIds, visibleStart, visibleEnd, kickoff])
+
+  const expandableTaskIds = enrichedTasks.filter(task => (subtaskDefinitions[task.id] || []).length > 0).map(task => task.id)
+  const allExpanded = expandableTaskIds.length > 0 && expandableTaskIds.every(id => expandedTaskIds.has(id))
+
+  // Row labels; phases and tasks with subtasks toggle open and closed
+  const renderRowLabel = ({ x, y, payload }: { x: number; y: number; payload: { index: number } }) => {
+    const row = chartRows[payload.index]
+    if (!row) return <g />
+    if (row.kind === 'phase') {
+      return (
+        <text
+          x={x}
+          y={y}
+          textAnchor="end"
+          dominantBaseline="middle"
+          fontSize={12}
+          fontWeight={600}
+          fill="#0f172a"
+          style={{ cursor: 'pointer' }}
+          onClick={() => toggleCollapsed(row.phase.id)}
+        >
+          <tspan fill="#94a3b8">{collapsedPhaseIds.has(row.phase.id) ? '▸ ' : '▾ '}</tspan>
+          {row.label}
+        </text>
+      )
+    }
+    if (row.kind === 'subtask') {
+      return (
+        <text x={x} y={y} textAnchor="end" dominantBaseline="middle" fontSize={11} fill="#64748b">
+          {row.label}
+        </text>
+      )
     }
+    const expandable = (subtaskDefinitions[row.id] || []).length > 0
+    return (
+      <text
+        x={x}
+        y={y}
+        textAnchor="end"
+        dominantBaseline="middle"
+        fontSize={12}
+        fill="#334155"
+        style={expandable ? { cursor: 'pointer' } : undefined}
+        onClick={expandable ? () => toggleExpanded(row.id) : undefined}
+      >
+        {expandable && <tspan fill="#94a3b8">{expandedTaskIds.has(row.id) ? '▾ ' : '▸ '}</tspan>}
+        {row.label}
+      </text>
+    )
   }
 
+  const getBarColor = (status: TaskStatus) => taskStatusInfo[status]?.color || '#94a3b8'
+
   return (
     <Card className="bg-white/80 backdrop-blur shadow-lg border-0">
       <CardContent className="p-6">
@@ -307,7 +651,63 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
                   <SelectItem value="custom">Custom Range</SelectItem>
                 </SelectContent>
               </Select>
+              {onUpdateTask && (
+                <Select value={snapUnit} onValueChange={(value: any) => setSnapUnit(value)}>
+                  <SelectTrigger className="w-[130px] h-8 text-xs border-0 shadow-none" title="Snap when dragging bars">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="day">Snap to Days</SelectItem>
+                    <SelectItem value="week">Snap to Weeks</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
             </div>
+
+            <Button
+              variant={showCriticalPath ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowCriticalPath(!showCriticalPath)}
+              className={showCriticalPath ? "bg-gradient-to-r from-red-500 to-rose-500 text-white" : ""}
+            >
+              <Route className="h-4 w-4 mr-2" />
+              {showCriticalPath ? 'Hide Critical Path' : 'Show Critical Path'}
+            </Button>
+
+            {baseline && (
+              <Button
+                variant={showBaseline ? "default" : "outline"}
+                size="sm"
+                onClick={() => setShowBaseline(!showBaseline)}
+                title={`Draw "${baseline.name}" under each bar`}
+              >
+                <Layers className="h-4 w-4 mr-2" />
+                {showBaseline ? 'Hide Baseline' : 'Show Baseline'}
+              </Button>
+            )}
+
+            {phases.length > 0 && (
+              <Button
+                variant={groupByPhase ? "default" : "outline"}
+                size="sm"
+                onClick={() => setGroupByPhase(!groupByPhase)}
+                title="Group tasks under their phases with summary bars"
+              >
+                <FolderTree className="h-4 w-4 mr-2" />
+                {groupByPhase ? 'Ungroup Phases' : 'Group by Phase'}
+              </Button>
+            )}
+
+            {expandableTaskIds.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setExpandedTaskIds(allExpanded ? new Set() : new Set(expandableTaskIds))}
+              >
+                <ListTree className="h-4 w-4 mr-2" />
+                {allExpanded ? 'Collapse Subtasks' : 'Expand Subtasks'}
+              </Button>
+            )}
             
             {onUpdateTask && (
               <>
@@ -360,6 +760,46 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
           </div>
         </div>
 
+        {focus && (
+          <div className="mb-4 p-3 bg-orange-50 rounded-lg border border-orange-200 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2 text-sm">
+              <Users className="h-4 w-4 text-orange-600" />
+              <span>{focus.label}</span>
+              <span className="text-muted-foreground">• {focus.taskIds.length} task{focus.taskIds.length !== 1 ? 's' : ''} outlined</span>
+            </div>
+            {onClearFocus && (
+              <Button variant="ghost" size="sm" onClick={onClearFocus} className="gap-1">
+                <X className="h-4 w-4" />
+                Clear
+              </Button>
+            )}
+          </div>
+        )}
+
+        {showCriticalPath && (
+          <div className="mb-4 p-3 bg-red-50 rounded-lg border border-red-200 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Label className="text-xs">Critical path to:</Label>
+              <Select value={criticalPathTarget} onValueChange={(value) => onCriticalPathTargetChange?.(value)}>
+                <SelectTrigger className="w-[260px] h-8 text-xs bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={endDate}>Project End ({formatDate(endDate)})</SelectItem>
+                  {milestones.filter(m => m.date !== endDate).map(m => (
+                    <SelectItem key={m.date} value={m.date}>
+                      {m.label} ({formatDate(m.date)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {Object.values(criticalPath).filter(s => s.critical).length} critical tasks • outlined bars have no float
+            </div>
+          </div>
+        )}
+
         {viewRange !== 'full' && (
           <div className="mb-4 p-3 bg-blue-50 rounded-lg border border-blue-200 flex items-center justify-between gap-4">
             {viewRange === 'custom' ? (
@@ -400,66 +840,68 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
             <div className="flex items-center gap-2 font-semibold">
               Status:
             </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded shadow-sm" style={{ backgroundColor: statusColors.completed }}></div>
-              <span>Completed</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded shadow-sm" style={{ backgroundColor: statusColors['in-progress'] }}></div>
-              <span>In Progress</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded shadow-sm" style={{ backgroundColor: statusColors.overdue }}></div>
-              <span>Overdue</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded shadow-sm" style={{ backgroundColor: statusColors['not-started'] }}></div>
-              <span>Not Started</span>
+            {taskStatusOrder.map(status => (
+              <div key={status} className="flex items-center gap-2" title={taskStatusInfo[status].description}>
+                <div className="w-4 h-4 rounded shadow-sm" style={{ backgroundColor: getBarColor(status) }}></div>
+                <span>{taskStatusInfo[status].label}</span>
+              </div>
+            ))}
+            
+            <div className="w-px h-5 bg-gray-300 mx-1"></div>
+
+            <div className="flex items-center gap-2 font-semibold">
+              Subtasks:
             </div>
+            {subtaskStateOrder.map(state => (
+              <div key={state} className="flex items-center gap-2">
+                <div className="w-4 h-2 rounded-sm" style={{ backgroundColor: subtaskStateInfo[state].color }}></div>
+                <span>{subtaskStateInfo[state].label}</span>
+              </div>
+            ))}
             
             <div className="w-px h-5 bg-gray-300 mx-1"></div>
             
             <div className="flex items-center gap-2 font-semibold">
               Owner:
             </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded shadow-sm" style={{ backgroundColor: ownerColors.Leadership }}></div>
-              <span>Leadership</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded shadow-sm" style={{ backgroundColor: ownerColors.Marketing }}></div>
-              <span>Marketing</span>
+            {legendOwners.map(owner => (
+              <div key={owner} className="flex items-center gap-2">
+                <div className="w-4 h-4 rounded shadow-sm" style={{ backgroundColor: ownerColor(owners, owner) }}></div>
+                <span>{owner}</span>
+              </div>
+            ))}
+            
+            <div className="w-px h-5 bg-gray-300 mx-1"></div>
+            
+            <div className="flex items-center gap-2 font-semibold">
+              Links:
             </div>
             <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded shadow-sm" style={{ backgroundColor: ownerColors.Design }}></div>
-              <span>Design</span>
+              <div className="w-5 h-0.5 bg-slate-500"></div>
+              <span>Dependency</span>
             </div>
             <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded shadow-sm" style={{ backgroundColor: ownerColors.Product }}></div>
-              <span>Product</span>
+              <div className="w-5 border-t-2 border-dashed border-red-500"></div>
+              <span>Conflict</span>
             </div>
+            {showBaseline && baseline && (
+              <div className="flex items-center gap-2">
+                <div className="w-5 h-1.5 rounded-sm bg-slate-400/60 border border-slate-500"></div>
+                <span>Baseline ({baseline.name})</span>
+              </div>
+            )}
             
             <div className="w-px h-5 bg-gray-300 mx-1"></div>
             
             <div className="flex items-center gap-2 font-semibold">
               Category:
             </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded shadow-sm" style={{ backgroundColor: categoryColors.website }}></div>
-              <span>Website</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded shadow-sm" style={{ backgroundColor: categoryColors.tradeshow }}></div>
-              <span>Tradeshow</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded shadow-sm" style={{ backgroundColor: categoryColors.templates }}></div>
-              <span>Templates</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded shadow-sm" style={{ backgroundColor: categoryColors['visual-assets'] }}></div>
-              <span>Visual Assets</span>
-            </div>
+            {legendCategories.map(id => (
+              <div key={id} className="flex items-center gap-2">
+                <div className="w-4 h-4 rounded shadow-sm" style={{ backgroundColor: categoryColor(categories, id) }}></div>
+                <span>{categoryLabel(categories, id)}</span>
+              </div>
+            ))}
           </div>
 
         {isEditMode && onUpdateTask && (
@@ -471,7 +913,7 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
                   <th className="text-left p-3 border-b">Owner</th>
                   <th className="text-left p-3 border-b">Start Date</th>
                   <th className="text-left p-3 border-b">End Date</th>
-                  <th className="text-center p-3 border-b">Duration (days)</th>
+                  <th className="text-center p-3 border-b">Duration ({dayUnit === 'working' ? 'working days' : 'days'})</th>
                   <th className="text-center p-3 border-b">Action</th>
                 </tr>
               </thead>
@@ -481,24 +923,22 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
                     <td className="p-3 border-b">
                       <div className="flex items-center gap-2">
                         {task.label}
-                        {task.category && (
-                          <Badge 
-                            style={{ backgroundColor: categoryColors[task.category] }} 
-                            className="text-white border-0 text-xs"
-                          >
-                            {categoryLabels[task.category]}
-                          </Badge>
-                        )}
+                        {(task.categories || []).map(id => (
+                          <CategoryBadge key={id} categories={categories} id={id} />
+                        ))}
+                        {(task.tags || []).map(tag => (
+                          <Badge key={tag} variant="outline" className="text-xs">#{tag}</Badge>
+                        ))}
                       </div>
                     </td>
                     <td className="p-3 border-b">
-                      <Badge style={{ backgroundColor: ownerColors[task.owner] || '#94a3b8' }} className="text-white border-0">
+                      <Badge style={{ backgroundColor: ownerColor(owners, task.owner) }} className="text-white border-0">
                         {task.owner}
                       </Badge>
                     </td>
-                    <td className="p-3 border-b">{new Date(task.start).toLocaleDateString()}</td>
-                    <td className="p-3 border-b">{new Date(task.end).toLocaleDateString()}</td>
-                    <td className="p-3 border-b text-center">{task.length}</td>
+                    <td className="p-3 border-b">{formatDate(task.start)}</td>
+                    <td className="p-3 border-b">{formatDate(task.end)}</td>
+                    <td className="p-3 border-b text-center">{Math.max(1, countDays(task.start, task.end, { unit: dayUnit, calendar, owner: task.owner }))}</td>
                     <td className="p-3 border-b text-center">
                       <div className="flex items-center justify-center gap-2">
                         <Button
@@ -530,205 +970,506 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
           </div>
         )}
 
-        <ResponsiveContainer width="100%" height={Math.max(600, enrichedTasks.length * 40)}>
-          <BarChart data={enrichedTasks} layout="vertical" margin={{ top: 10, right: 20, left: 240, bottom: 10 }}>
-            <XAxis 
-              type="number" 
-              domain={[visibleStartOffset, visibleEndOffset]} 
-              ticks={xTicks} 
-              tickFormatter={(d) => {
-                const labelDate = addDays(kickoff, d)
-                const dt = new Date(labelDate)
-                return dt.toLocaleDateString('en-US', { month: 'short', year: '2-digit' })
-              }} 
-            />
-            <YAxis 
-              type="category" 
-              dataKey="label" 
-              width={240}
-              tick={{ fontSize: 12 }}
-            />
-            <Tooltip 
-              contentStyle={{ 
-                backgroundColor: 'rgba(255, 255, 255, 0.95)', 
-                border: 'none', 
-                borderRadius: '8px',
-                boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
-                padding: '12px'
-              }}
-              content={({ active, payload }) => {
-                if (active && payload && payload.length > 0) {
-                  const task = payload[0].payload
-                  const subtasks = subtaskDefinitions[task.id] || []
-                  const completed = subtaskProgress[task.id] || {}
-                  const hasSubtasks = subtasks.length > 0
-                  
-                  return (
-                    <div className="bg-white/95 p-4 rounded-lg shadow-xl border max-w-md">
-                      <div className="flex items-start justify-between gap-3 mb-3">
-                        <p className="font-semibold">{task.label}</p>
-                        <Badge 
-                          style={{ backgroundColor: task.color }} 
-                          className="text-white border-0 shrink-0"
-                        >
-                          {task.owner}
-                        </Badge>
-                      </div>
-                      
-                      <div className="space-y-1 text-sm mb-3">
-                        <div className="flex gap-2">
-                          <span className="text-muted-foreground w-20">Start:</span>
-                          <span>{new Date(task.start).toLocaleDateString()}</span>
+        <div ref={chartContainerRef} className="relative select-none">
+          {/* Live dates while dragging a bar */}
+          {dragPreview && (
+            <div
+              className="absolute z-10 pointer-events-none bg-slate-900 text-white text-xs rounded-md px-3 py-2 shadow-lg"
+              style={{ left: dragPreview.x + 14, top: dragPreview.y + 14 }}
+            >
+              <div className="font-semibold">
+                {formatDate(dragPreview.start)} → {formatDate(dragPreview.end)}
+              </div>
+              <div className="text-white/70">
+                {formatDuration(dragPreview.start, dragPreview.end, tasks.find(t => t.id === dragPreview.taskId)?.owner)}
+              </div>
+            </div>
+          )}
+          <ResponsiveContainer width="100%" height={Math.max(600, chartRows.length * 40)}>
+            <BarChart data={chartRows} layout="vertical" margin={{ top: 10, right: 20, left: 240, bottom: 10 }}>
+              <XAxis 
+                type="number" 
+                domain={[visibleStartOffset, visibleEndOffset]} 
+                ticks={xTicks} 
+                tickFormatter={(d) => {
+                  return formatDate(addDays(kickoff, d), { month: 'short', year: '2-digit' }, 'en-US')
+                }} 
+              />
+              <YAxis 
+                type="category" 
+                dataKey="label" 
+                width={240}
+                tick={renderRowLabel}
+              />
+              <Tooltip 
+                contentStyle={{ 
+                  backgroundColor: 'rgba(255, 255, 255, 0.95)', 
+                  border: 'none', 
+                  borderRadius: '8px',
+                  boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+                  padding: '12px'
+                }}
+                content={({ active, payload }) => {
+                  if (active && payload && payload.length > 0 && !isDragging) {
+                    const row = payload[0].payload as typeof chartRows[number]
+                    if (row.kind === 'phase') {
+                      return (
+                        <div className="bg-white/95 p-4 rounded-lg shadow-xl border max-w-sm">
+                          <p className="font-semibold">{row.label}</p>
+                          {row.phase.parentId && (
+                            <p className="text-xs text-muted-foreground">{phasePath(phases, row.phase.id)}</p>
+                          )}
+                          <div className="space-y-1 text-sm mt-3">
+                            <div className="flex gap-2">
+                              <span className="text-muted-foreground w-20">Start:</span>
+                              <span>{formatDate(row.start)}</span>
+                            </div>
+                            <div className="flex gap-2">
+                              <span className="text-muted-foreground w-20">End:</span>
+                              <span>{formatDate(row.end)}</span>
+                            </div>
+                            <div className="flex gap-2">
+                              <span className="text-muted-foreground w-20">Duration:</span>
+                              <span>{formatDuration(row.start, row.end)}</span>
+                            </div>
+                            <div className="flex gap-2">
+                              <span className="text-muted-foreground w-20">Progress:</span>
+                              <span className="font-semibold">{row.progress}%</span>
+                              <span className="text-muted-foreground">weighted by duration</span>
+                            </div>
+                            <div className="flex gap-2">
+                              <span className="text-muted-foreground w-20">Tasks:</span>
+                              <span>{row.taskCount}, including sub-phases</span>
+                            </div>
+                          </div>
                         </div>
-                        <div className="flex gap-2">
-                          <span className="text-muted-foreground w-20">End:</span>
-                          <span>{new Date(task.end).toLocaleDateString()}</span>
+                      )
+                    }
+                    if (row.kind === 'subtask') {
+                      const { subtask, parent } = row
+                      return (
+                        <div className="bg-white/95 p-4 rounded-lg shadow-xl border max-w-sm">
+                          <p className="font-semibold">{subtask.label}</p>
+                          <p className="text-xs text-muted-foreground mb-3">Subtask of {parent.label}</p>
+                          <div className="space-y-1 text-sm">
+                            <div className="flex gap-2">
+                              <span className="text-muted-foreground w-20">Status:</span>
+                              <span style={{ color: subtaskStateInfo[row.state].color }} className="font-semibold">
+                                {subtaskStateInfo[row.state].label}
+                              </span>
+                              {row.state === 'doing' && <span>{row.percent}%</span>}
+                            </div>
+                            <div className="flex gap-2">
+                              <span className="text-muted-foreground w-20">Due:</span>
+                              <span className={row.overdue ? 'font-semibold text-red-600' : ''}>
+                                {subtask.due ? formatDate(subtask.due) : `With task (${formatDate(parent.end)})`}
+                                {row.overdue && ' (overdue)'}
+                              </span>
+                            </div>
+                            <div className="flex gap-2">
+                              <span className="text-muted-foreground w-20">Assignee:</span>
+                              <span>{subtask.assignee || parent.owner}</span>
+                            </div>
+                            <div className="flex gap-2">
+                              <span className="text-muted-foreground w-20">Weight:</span>
+                              <span>{Math.round(subtask.weight * 100)}% of task</span>
+                            </div>
+                          </div>
+                          {subtask.description && (
+                            <p className="text-xs text-muted-foreground mt-3 leading-tight">{subtask.description}</p>
+                          )}
                         </div>
-                        <div className="flex gap-2">
-                          <span className="text-muted-foreground w-20">Duration:</span>
-                          <span>{task.length} days</span>
+                      )
+                    }
+                    const task = row
+                    const subtasks = subtaskDefinitions[task.id] || []
+                    const entries = subtaskProgress[task.id] || {}
+                    const hasSubtasks = subtasks.length > 0
+                  
+                    return (
+                      <div className="bg-white/95 p-4 rounded-lg shadow-xl border max-w-md">
+                        <div className="flex items-start justify-between gap-3 mb-3">
+                          <p className="font-semibold">{task.label}</p>
+                          <Badge 
+                            style={{ backgroundColor: task.color }} 
+                            className="text-white border-0 shrink-0"
+                          >
+                            {task.owner}
+                          </Badge>
                         </div>
-                        {task.category && (
+                      
+                        <div className="space-y-1 text-sm mb-3">
+                          {task.assignees && task.assignees.length > 0 && (
+                            <div className="flex gap-2">
+                              <span className="text-muted-foreground w-20">Assigned:</span>
+                              <span>{task.assignees.join(', ')}</span>
+                            </div>
+                          )}
                           <div className="flex gap-2">
-                            <span className="text-muted-foreground w-20">Category:</span>
-                            <Badge 
-                              style={{ backgroundColor: categoryColors[task.category] }} 
-                              className="text-white border-0 text-xs"
-                            >
-                              {categoryLabels[task.category]}
-                            </Badge>
+                            <span className="text-muted-foreground w-20">Start:</span>
+                            <span>{formatDate(task.start)}</span>
                           </div>
-                        )}
-                        <div className="flex gap-2">
-                          <span className="text-muted-foreground w-20">Progress:</span>
-                          <span className="font-semibold">{task.progress}%</span>
+                          <div className="flex gap-2">
+                            <span className="text-muted-foreground w-20">End:</span>
+                            <span>{formatDate(task.end)}</span>
+                          </div>
+                          <div className="flex gap-2">
+                            <span className="text-muted-foreground w-20">Duration:</span>
+                            <span>{formatDuration(task.start, task.end, task.owner)}</span>
+                          </div>
+                          {task.categories && task.categories.length > 0 && (
+                            <div className="flex gap-2">
+                              <span className="text-muted-foreground w-20">Category:</span>
+                              <div className="flex flex-wrap gap-1">
+                                {task.categories.map(id => (
+                                  <CategoryBadge key={id} categories={categories} id={id} />
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                          {task.tags && task.tags.length > 0 && (
+                            <div className="flex gap-2">
+                              <span className="text-muted-foreground w-20">Tags:</span>
+                              <span>{task.tags.map(tag => `#${tag}`).join(' ')}</span>
+                            </div>
+                          )}
+                          <div className="flex gap-2">
+                            <span className="text-muted-foreground w-20">Progress:</span>
+                            <span className="font-semibold">{task.progress}%</span>
+                          </div>
+                          <div className="flex gap-2">
+                            <span className="text-muted-foreground w-20">Status:</span>
+                            <span style={{ color: getBarColor(task.status) }} className="font-semibold">
+                              {taskStatusInfo[task.status as TaskStatus].label}
+                            </span>
+                            {task.status !== 'not-started' && task.status !== 'completed' && (
+                              <span className="text-muted-foreground">
+                                expected {task.expectedProgress}% ({formatVariance(task.variance)})
+                              </span>
+                            )}
+                          </div>
+                          {task.baselineVariance && (
+                            <div className="flex gap-2">
+                              <span className="text-muted-foreground w-20">Baseline:</span>
+                              <span>
+                                {formatDate(task.baselineVariance.baseline.start)} – {formatDate(task.baselineVariance.baseline.end)}
+                                <span className="block text-xs">
+                                  Start <span style={{ color: slipColor(task.baselineVariance.startSlip) }}>{formatSlip(task.baselineVariance.startSlip, dayUnit)}</span>
+                                  , finish <span style={{ color: slipColor(task.baselineVariance.finishSlip) }}>{formatSlip(task.baselineVariance.finishSlip, dayUnit)}</span>
+                                </span>
+                              </span>
+                            </div>
+                          )}
+                          {task.schedule && (
+                            <div className="flex gap-2">
+                              <span className="text-muted-foreground w-20">Float:</span>
+                              <span className={task.schedule.critical ? 'font-semibold text-red-600' : ''}>
+                                {task.schedule.totalFloat} days total, {task.schedule.freeFloat} free
+                                {task.schedule.critical && ' (critical)'}
+                              </span>
+                            </div>
+                          )}
                         </div>
-                      </div>
 
-                      {hasSubtasks && (
-                        <>
-                          <div className="border-t pt-3 mt-3">
-                            <p className="text-xs font-semibold text-muted-foreground mb-2">
-                              TASK BREAKDOWN ({Object.values(completed).filter(Boolean).length}/{subtasks.length} complete)
-                            </p>
-                            <div className="space-y-2 max-h-48 overflow-y-auto pr-1">
-                              {subtasks.map((subtask) => (
-                                <div 
-                                  key={subtask.id} 
-                                  className={`text-xs p-2 rounded ${
-                                    completed[subtask.id] 
-                                      ? 'bg-green-50 border border-green-200' 
-                                      : 'bg-slate-50 border border-slate-200'
-                                  }`}
-                                >
-                                  <div className="flex items-start gap-2 mb-1">
-                                    <div className={`w-4 h-4 rounded-sm shrink-0 mt-0.5 flex items-center justify-center ${
-                                      completed[subtask.id] 
-                                        ? 'bg-green-500 text-white' 
-                                        : 'bg-white border-2 border-slate-300'
-                                    }`}>
-                                      {completed[subtask.id] && (
-                                        <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 16 16">
-                                          <path d="M13.854 3.646a.5.5 0 0 1 0 .708l-7 7a.5.5 0 0 1-.708 0l-3.5-3.5a.5.5 0 1 1 .708-.708L6.5 10.293l6.646-6.647a.5.5 0 0 1 .708 0z"/>
-                                        </svg>
-                                      )}
-                                    </div>
-                                    <div className="flex-1">
-                                      <div className="flex items-center justify-between gap-2">
-                                        <span className={`font-medium ${completed[subtask.id] ? 'line-through text-green-700' : ''}`}>
-                                          {subtask.label}
-                                        </span>
-                                        <span className="text-muted-foreground shrink-0">
-                                          {Math.round(subtask.weight * 100)}%
-                                        </span>
+                        {hasSubtasks && (
+                          <>
+                            <div className="border-t pt-3 mt-3">
+                              <p className="text-xs font-semibold text-muted-foreground mb-2">
+                                TASK BREAKDOWN ({subtasks.filter(st => subtaskStateOf(entries[st.id]) === 'done').length}/{subtasks.length} done)
+                              </p>
+                              <div className="space-y-2 max-h-48 overflow-y-auto pr-1">
+                                {subtasks.map((subtask) => {
+                                  const state = subtaskStateOf(entries[subtask.id])
+                                  const done = state === 'done'
+                                  return (
+                                    <div 
+                                      key={subtask.id} 
+                                      className={`text-xs p-2 rounded ${
+                                        done 
+                                          ? 'bg-green-50 border border-green-200' 
+                                          : 'bg-slate-50 border border-slate-200'
+                                      }`}
+                                    >
+                                      <div className="flex items-start gap-2 mb-1">
+                                        <div className={`w-4 h-4 rounded-sm shrink-0 mt-0.5 flex items-center justify-center ${
+                                          done 
+                                            ? 'bg-green-500 text-white' 
+                                            : state === 'doing'
+                                              ? 'bg-blue-100 border-2 border-blue-500'
+                                              : 'bg-white border-2 border-slate-300'
+                                        }`}>
+                                          {done && (
+                                            <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 16 16">
+                                              <path d="M13.854 3.646a.5.5 0 0 1 0 .708l-7 7a.5.5 0 0 1-.708 0l-3.5-3.5a.5.5 0 1 1 .708-.708L6.5 10.293l6.646-6.647a.5.5 0 0 1 .708 0z"/>
+                                            </svg>
+                                          )}
+                                        </div>
+                                        <div className="flex-1">
+                                          <div className="flex items-center justify-between gap-2">
+                                            <span className={`font-medium ${done ? 'line-through text-green-700' : ''}`}>
+                                              {subtask.label}
+                                            </span>
+                                            <span className="text-muted-foreground shrink-0">
+                                              {state === 'doing' && `${subtaskPercent(entries[subtask.id])}% of `}
+                                              {Math.round(subtask.weight * 100)}%
+                                            </span>
+                                          </div>
+                                          {(subtask.due || subtask.assignee) && (
+                                            <p className={`mt-0.5 ${isSubtaskOverdue(subtask, entries[subtask.id], currentDate) ? 'text-red-600' : 'text-muted-foreground'}`}>
+                                              {[subtask.due && `Due ${formatDate(subtask.due)}`, subtask.assignee].filter(Boolean).join(' • ')}
+                                            </p>
+                                          )}
+                                          <p className="text-muted-foreground mt-1 leading-tight">
+                                            {subtask.description}
+                                          </p>
+                                        </div>
                                       </div>
-                                      <p className="text-muted-foreground mt-1 leading-tight">
-                                        {subtask.description}
-                                      </p>
                                     </div>
-                                  </div>
-                                </div>
-                              ))}
+                                  )
+                                })}
+                              </div>
                             </div>
-                          </div>
-                        </>
+                          </>
+                        )}
+                      </div>
+                    )
+                  }
+                  return null
+                }}
+              />
+            
+              {/* Today marker */}
+              <ReferenceLine 
+                x={currentDayOffset} 
+                stroke="#f59e0b" 
+                strokeWidth={3}
+                strokeDasharray="5 5"
+                label={{ 
+                  value: 'Today', 
+                  position: 'top', 
+                  fill: '#f59e0b', 
+                  fontSize: 14,
+                  fontWeight: 'bold'
+                }}
+              />
+
+              {/* Offset bar (transparent) to push the duration bar */}
+              <Bar dataKey="offset" stackId="a" fill="rgba(0,0,0,0)" barSize={28} />
+            
+              {/* Duration bar with dynamic color based on owner/status */}
+              <Bar dataKey="length" stackId="a" radius={[0, 8, 8, 0]} barSize={28} shape={(props: any) => {
+                const { x, y, width, height, payload } = props
+                if (payload.kind === 'phase') {
+                  // Summary bar: a dark band filled to the rolled-up progress,
+                  // with the usual notches hanging from both ends
+                  const barHeight = height * 0.4
+                  const notch = Math.min(6, width / 2)
+                  const color = '#334155'
+                  return (
+                    <g opacity={showCriticalPath ? 0.45 : 1} style={{ cursor: 'pointer' }} onClick={() => toggleCollapsed(payload.phase.id)}>
+                      <rect x={x} y={y} width={width} height={barHeight} fill={color} fillOpacity={0.3} />
+                      <rect x={x} y={y} width={(width * payload.progress) / 100} height={barHeight} fill={color} />
+                      <path d={`M ${x} ${y + barHeight} h ${notch} l ${-notch} ${notch} Z`} fill={color} />
+                      <path d={`M ${x + width} ${y + barHeight} h ${-notch} l ${notch} ${notch} Z`} fill={color} />
+                      {width > 40 && (
+                        <text
+                          x={x + width / 2}
+                          y={y + barHeight + 9}
+                          textAnchor="middle"
+                          dominantBaseline="middle"
+                          fill={color}
+                          fontSize={10}
+                          fontWeight="600"
+                        >
+                          {payload.progress}%
+                        </text>
                       )}
-                    </div>
+                    </g>
                   )
                 }
-                return null
-              }}
-            />
-            
-            {/* Today marker */}
-            <ReferenceLine 
-              x={currentDayOffset} 
-              stroke="#f59e0b" 
-              strokeWidth={3}
-              strokeDasharray="5 5"
-              label={{ 
-                value: 'Today', 
-                position: 'top', 
-                fill: '#f59e0b', 
-                fontSize: 14,
-                fontWeight: 'bold'
-              }}
-            />
-
-            {/* Offset bar (transparent) to push the duration bar */}
-            <Bar dataKey="offset" stackId="a" fill="rgba(0,0,0,0)" barSize={28} />
-            
-            {/* Duration bar with dynamic color based on owner/status */}
-            <Bar dataKey="length" stackId="a" radius={[0, 8, 8, 0]} barSize={28} shape={(props: any) => {
-              const { x, y, width, height, payload } = props
-              const task = payload
-              const categoryColor = task.category ? categoryColors[task.category] : null
+                if (payload.kind === 'subtask') {
+                  // Slim bar filled to the subtask's progress, outlined red when overdue
+                  const color = subtaskStateInfo[payload.state as keyof typeof subtaskStateInfo].color
+                  const barHeight = height / 2
+                  const barY = y + (height - barHeight) / 2
+                  return (
+                    <g opacity={showCriticalPath ? 0.45 : 1}>
+                      <rect x={x} y={barY} width={width} height={barHeight} fill={color} fillOpacity={0.25} rx={4} ry={4} />
+                      <rect x={x} y={barY} width={(width * payload.percent) / 100} height={barHeight} fill={color} rx={4} ry={4} />
+                      {payload.overdue && (
+                        <rect x={x} y={barY} width={width} height={barHeight} fill="none" stroke="#ef4444" strokeWidth={2} rx={4} ry={4} />
+                      )}
+                      {payload.subtask.assignee && width > 80 && (
+                        <text
+                          x={x + width - 6}
+                          y={y + height / 2}
+                          textAnchor="end"
+                          dominantBaseline="middle"
+                          fill="#334155"
+                          fontSize={10}
+                        >
+                          {payload.subtask.assignee}
+                        </text>
+                      )}
+                    </g>
+                  )
+                }
+                const task = payload
+                const stripeColors: string[] = (task.categories || []).map((id: string) => categoryColor(categories, id))
+                const isCritical = showCriticalPath && task.schedule?.critical
+                const isFocused = focusIds.has(task.id)
+                const isDimmed = (showCriticalPath && !isCritical) || (!!focus && !isFocused)
+                const canDrag = !!onUpdateTask
+                const pxPerDay = width / task.length
+                const preview = dragPreview?.taskId === task.id ? dragPreview : null
+                const handleWidth = Math.min(8, width / 3)
+                // The baseline's dates, clipped to the visible range like the bar
+                const planned = showBaseline ? task.baselineVariance?.baseline : undefined
+                const plannedStart = planned ? Math.max(daysBetween(kickoff, planned.start), visibleStartOffset) : 0
+                const plannedEnd = planned ? Math.min(daysBetween(kickoff, planned.end), visibleEndOffset) : 0
+                // The dragged dates, from the kickoff like the bar and kept in view
+                const ghostStart = preview ? Math.min(Math.max(daysBetween(kickoff, preview.start), visibleStartOffset), visibleEndOffset - 1) : 0
+                const ghostEnd = preview ? Math.min(Math.max(daysBetween(kickoff, preview.end), ghostStart + 1), visibleEndOffset) : 0
               
-              return (
-                <g>
-                  {/* Main bar */}
-                  <rect
-                    x={x}
-                    y={y}
-                    width={width}
-                    height={height}
-                    fill={task.color}
-                    rx={8}
-                    ry={8}
-                  />
-                  {/* Category indicator stripe on left edge */}
-                  {categoryColor && (
+                return (
+                  <g
+                    opacity={isDimmed ? 0.45 : 1}
+                    style={{ cursor: canDrag ? (preview ? 'grabbing' : 'grab') : undefined }}
+                    onPointerDown={canDrag ? (e) => startDrag(e, task, 'move', pxPerDay) : undefined}
+                  >
+                    {/* Baseline ghost bar just below the current one */}
+                    {planned && plannedEnd > plannedStart && (
+                      <rect
+                        x={x + (plannedStart - task.offset) * pxPerDay}
+                        y={y + height + 1}
+                        width={(plannedEnd - plannedStart) * pxPerDay}
+                        height={4}
+                        fill="#94a3b8"
+                        fillOpacity={0.6}
+                        stroke="#64748b"
+                        strokeWidth={0.5}
+                        rx={2}
+                        ry={2}
+                        style={{ pointerEvents: 'none' }}
+                      />
+                    )}
+                    {/* Main bar */}
                     <rect
                       x={x}
                       y={y}
-                      width={6}
+                      width={width}
                       height={height}
-                      fill={categoryColor}
+                      fill={task.color}
                       rx={8}
                       ry={8}
                     />
-                  )}
-                  {/* Owner label */}
-                  <text
-                    x={x + width - 8}
-                    y={y + height / 2}
-                    textAnchor="end"
-                    dominantBaseline="middle"
-                    fill="#fff"
-                    fontSize={11}
-                    fontWeight="500"
-                  >
-                    {task.owner}
-                  </text>
-                </g>
-              )
-            }}>
-              {enrichedTasks.map((task, index) => (
-                <Cell key={`cell-${index}`} />
-              ))}
-            </Bar>
-          </BarChart>
-        </ResponsiveContainer>
+                    {/* Category indicator stripe on left edge, split between the task's categories */}
+                    {stripeColors.map((color, i) => (
+                      <rect
+                        key={i}
+                        x={x}
+                        y={y + (i * height) / stripeColors.length}
+                        width={6}
+                        height={height / stripeColors.length}
+                        fill={color}
+                        rx={stripeColors.length > 1 ? 2 : 8}
+                        ry={stripeColors.length > 1 ? 2 : 8}
+                      />
+                    ))}
+                    {/* Owner label */}
+                    <text
+                      x={x + width - 8}
+                      y={y + height / 2}
+                      textAnchor="end"
+                      dominantBaseline="middle"
+                      fill="#fff"
+                      fontSize={11}
+                      fontWeight="500"
+                    >
+                      {task.owner}
+                    </text>
+                    {/* Critical path outline */}
+                    {isCritical && (
+                      <rect
+                        x={x - 2}
+                        y={y - 2}
+                        width={width + 4}
+                        height={height + 4}
+                        fill="none"
+                        stroke="#dc2626"
+                        strokeWidth={3}
+                        rx={9}
+                        ry={9}
+                      />
+                    )}
+                    {/* Focus outline */}
+                    {isFocused && (
+                      <rect
+                        x={x - 3}
+                        y={y - 3}
+                        width={width + 6}
+                        height={height + 6}
+                        fill="none"
+                        stroke="#ea580c"
+                        strokeWidth={2}
+                        strokeDasharray="5 3"
+                        rx={10}
+                        ry={10}
+                      />
+                    )}
+                    {/* Ghost of the new dates while dragging */}
+                    {preview && (
+                      <rect
+                        x={x + (ghostStart - task.offset) * pxPerDay}
+                        y={y - 3}
+                        width={(ghostEnd - ghostStart) * pxPerDay}
+                        height={height + 6}
+                        fill={task.color}
+                        fillOpacity={0.25}
+                        stroke={task.color}
+                        strokeWidth={2}
+                        strokeDasharray="6 3"
+                        rx={8}
+                        ry={8}
+                        style={{ pointerEvents: 'none' }}
+                      />
+                    )}
+                    {/* Edge handles for resizing */}
+                    {canDrag && (
+                      <>
+                        <rect
+                          x={x}
+                          y={y}
+                          width={handleWidth}
+                          height={height}
+                          fill="transparent"
+                          style={{ cursor: 'ew-resize' }}
+                          onPointerDown={(e) => startDrag(e, task, 'start', pxPerDay)}
+                        />
+                        <rect
+                          x={x + width - handleWidth}
+                          y={y}
+                          width={handleWidth}
+                          height={height}
+                          fill="transparent"
+                          style={{ cursor: 'ew-resize' }}
+                          onPointerDown={(e) => startDrag(e, task, 'end', pxPerDay)}
+                        />
+                      </>
+                    )}
+                  </g>
+                )
+              }}>
+                {chartRows.map((row, index) => (
+                  <Cell key={`cell-${index}`} />
+                ))}
+              </Bar>
+
+              {/* Dependency connectors between linked bars */}
+              <Customized component={<GanttDependencyArrows />} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
 
         {milestones && milestones.length > 0 && (
           <div className="mt-6 p-4 bg-gradient-to-r from-slate-50 to-blue-50 rounded-lg border">
@@ -746,7 +1487,7 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
                 ]
                 return (
                   <Badge key={m.date} className={`${colors[idx % colors.length]} text-white border-0 shadow-md px-3 py-1`}>
-                    {m.label}: {new Date(m.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                    {m.label}: {formatDate(m.date, { month: 'short', day: 'numeric', year: 'numeric' }, 'en-US')}
                   </Badge>
                 )
               })}
@@ -758,11 +1499,11 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
       {/* Edit Dialog */}
       {editingTask && (
         <Dialog open={!!editingTask} onOpenChange={(open) => !open && setEditingTask(null)}>
-          <DialogContent>
+          <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Edit Task: {editingTask.label}</DialogTitle>
               <DialogDescription>
-                Update the task title, owner, start date, and end date.
+                Update the task title, owner, dates, and predecessor links.
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4 py-4">
@@ -783,33 +1524,47 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
                     <SelectValue placeholder="Select owner" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="Leadership">
-                      <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 rounded" style={{ backgroundColor: ownerColors.Leadership }}></div>
-                        Leadership
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="Marketing">
-                      <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 rounded" style={{ backgroundColor: ownerColors.Marketing }}></div>
-                        Marketing
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="Design">
-                      <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 rounded" style={{ backgroundColor: ownerColors.Design }}></div>
-                        Design
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="Product">
-                      <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 rounded" style={{ backgroundColor: ownerColors.Product }}></div>
-                        Product
-                      </div>
-                    </SelectItem>
+                    {ownerSelectItems(editOwner)}
                   </SelectContent>
                 </Select>
               </div>
+              <div className="space-y-2">
+                <Label>Assignees</Label>
+                {assigneeToggles(editOwner, editAssignees, setEditAssignees)}
+              </div>
+              <div className="space-y-2">
+                <Label>Categories</Label>
+                {categoryToggles(editCategories, setEditCategories)}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-tags">Tags</Label>
+                <Input
+                  id="edit-tags"
+                  value={editTags}
+                  onChange={(e) => setEditTags(e.target.value)}
+                  placeholder="e.g. print, needs-legal"
+                />
+              </div>
+              {phaseOutline.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="edit-phase">Phase</Label>
+                  <Select value={editPhase} onValueChange={setEditPhase}>
+                    <SelectTrigger id="edit-phase">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">
+                        <span className="text-muted-foreground">No phase</span>
+                      </SelectItem>
+                      {phaseOutline.map(node => (
+                        <SelectItem key={node.phase.id} value={node.phase.id}>
+                          {'\u00a0\u00a0'.repeat(node.depth)}{node.code} {node.phase.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               <div className="space-y-2">
                 <Label htmlFor="start-date">Start Date</Label>
                 <Input
@@ -828,10 +1583,68 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
                   onChange={(e) => setEditEnd(e.target.value)}
                 />
               </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Predecessors</Label>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setEditDependencies(prev => [...prev, { predecessorId: '', type: 'FS', lag: 0 }])}
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Add
+                  </Button>
+                </div>
+                {editDependencies.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    No predecessors. Linked tasks move this one automatically when they are rescheduled.
+                  </p>
+                ) : (
+                  editDependencies.map((dep, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Select value={dep.predecessorId} onValueChange={(value) => updateEditDependency(index, { predecessorId: value })}>
+                        <SelectTrigger className="flex-1 h-8 text-xs">
+                          <SelectValue placeholder="Select task" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {allTasks.filter(t => t.id !== editingTask.id).map(t => (
+                            <SelectItem key={t.id} value={t.id}>{t.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select value={dep.type} onValueChange={(value) => updateEditDependency(index, { type: value as DependencyType })}>
+                        <SelectTrigger className="w-[140px] h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(dependencyTypeLabels) as DependencyType[]).map(type => (
+                            <SelectItem key={type} value={type}>{dependencyTypeLabels[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        value={dep.lag}
+                        onChange={(e) => updateEditDependency(index, { lag: parseInt(e.target.value, 10) || 0 })}
+                        className="w-20 h-8 text-xs"
+                        title="Lag (days)"
+                      />
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setEditDependencies(prev => prev.filter((_, i) => i !== index))}
+                        className="h-8 w-8 p-0 text-red-600"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
               <div className="text-sm text-muted-foreground bg-slate-50 p-3 rounded">
                 <p><span className="font-semibold">Original Owner:</span> {editingTask.owner}</p>
-                <p><span className="font-semibold">Current Duration:</span> {editingTask.length} days</p>
-                <p><span className="font-semibold">New Duration:</span> {Math.max(1, daysBetween(editStart, editEnd))} days</p>
+                <p><span className="font-semibold">Current Duration:</span> {formatDuration(editingTask.start, editingTask.end, editingTask.owner)}</p>
+                <p><span className="font-semibold">New Duration:</span> {formatDuration(editStart, editEnd, editOwner)}</p>
               </div>
             </div>
             <DialogFooter>
@@ -874,70 +1687,47 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
                   <SelectValue placeholder="Select owner" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="Leadership">
-                    <div className="flex items-center gap-2">
-                      <div className="w-3 h-3 rounded" style={{ backgroundColor: ownerColors.Leadership }}></div>
-                      Leadership
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="Marketing">
-                    <div className="flex items-center gap-2">
-                      <div className="w-3 h-3 rounded" style={{ backgroundColor: ownerColors.Marketing }}></div>
-                      Marketing
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="Design">
-                    <div className="flex items-center gap-2">
-                      <div className="w-3 h-3 rounded" style={{ backgroundColor: ownerColors.Design }}></div>
-                      Design
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="Product">
-                    <div className="flex items-center gap-2">
-                      <div className="w-3 h-3 rounded" style={{ backgroundColor: ownerColors.Product }}></div>
-                      Product
-                    </div>
-                  </SelectItem>
+                  {ownerSelectItems(newTaskOwner)}
                 </SelectContent>
               </Select>
             </div>
             <div className="space-y-2">
-              <Label htmlFor="new-category">Category (Optional)</Label>
-              <Select value={newTaskCategory || "none"} onValueChange={(val) => setNewTaskCategory(val === "none" ? "" : val)}>
-                <SelectTrigger id="new-category">
-                  <SelectValue placeholder="None" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="none">
-                    <span className="text-muted-foreground">None</span>
-                  </SelectItem>
-                  <SelectItem value="website">
-                    <div className="flex items-center gap-2">
-                      <div className="w-3 h-3 rounded" style={{ backgroundColor: categoryColors.website }}></div>
-                      Website
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="tradeshow">
-                    <div className="flex items-center gap-2">
-                      <div className="w-3 h-3 rounded" style={{ backgroundColor: categoryColors.tradeshow }}></div>
-                      Tradeshow
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="templates">
-                    <div className="flex items-center gap-2">
-                      <div className="w-3 h-3 rounded" style={{ backgroundColor: categoryColors.templates }}></div>
-                      Templates
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="visual-assets">
-                    <div className="flex items-center gap-2">
-                      <div className="w-3 h-3 rounded" style={{ backgroundColor: categoryColors['visual-assets'] }}></div>
-                      Visual Assets
-                    </div>
-                  </SelectItem>
-                </SelectContent>
-              </Select>
+              <Label>Assignees (Optional)</Label>
+              {assigneeToggles(newTaskOwner, newTaskAssignees, setNewTaskAssignees)}
+            </div>
+            <div className="space-y-2">
+              <Label>Categories (Optional)</Label>
+              {categoryToggles(newTaskCategories, setNewTaskCategories)}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-tags">Tags (Optional)</Label>
+              <Input
+                id="new-tags"
+                value={newTaskTags}
+                onChange={(e) => setNewTaskTags(e.target.value)}
+                placeholder="e.g. print, needs-legal"
+              />
             </div>
+            {phaseOutline.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="new-phase">Phase</Label>
+                <Select value={newTaskPhase} onValueChange={setNewTaskPhase}>
+                  <SelectTrigger id="new-phase">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">
+                      <span className="text-muted-foreground">No phase</span>
+                    </SelectItem>
+                    {phaseOutline.map(node => (
+                      <SelectItem key={node.phase.id} value={node.phase.id}>
+                        {'\u00a0\u00a0'.repeat(node.depth)}{node.code} {node.phase.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div className="space-y-2">
               <Label htmlFor="new-start-date">Start Date</Label>
               <Input
@@ -957,7 +1747,7 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
               />
             </div>
             <div className="text-sm text-muted-foreground bg-slate-50 p-3 rounded">
-              <p><span className="font-semibold">Duration:</span> {Math.max(1, daysBetween(newTaskStart, newTaskEnd))} days</p>
+              <p><span className="font-semibold">Duration:</span> {formatDuration(newTaskStart, newTaskEnd, newTaskOwner)}</p>
             </div>
           </div>
           <DialogFooter>
@@ -978,7 +1768,7 @@ export function GanttView({ tasks, progress, kickoff, endDate, currentDate, mile
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Task</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{taskToDelete?.label}"? This action cannot be undone.
+              Are you sure you want to delete "{taskToDelete?.label}"? You can restore it with Undo (Ctrl+Z).
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -0,0 +1,162 @@
+import { useEffect, useMemo, useState } from 'react'
+import { ArrowRight, Check } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { formatDate } from '../utils/dates'
+import type { TaskDependency } from '../utils/dependencies'
+import type { TaskSchedule } from '../utils/criticalPath'
+import type { ProjectCalendar } from '../utils/workCalendar'
+import type { SubtaskDefinition } from '../utils/persistence'
+import { proposeLeveling, type LevelingMove } from '../utils/leveling'
+
+interface Task {
+  id: string
+  label: string
+  start: string
+  end: string
+  owner: string
+  assignees?: string[]
+  dependencies?: TaskDependency[]
+}
+
+interface LevelingDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  tasks: Task[]
+  subtaskDefinitions: Record<string, SubtaskDefinition[]>
+  range: { start: string; end: string }
+  calendar: ProjectCalendar
+  capacity: number
+  criticalPath: Record<string, TaskSchedule>
+  finishTarget: string
+  onAccept: (moves: LevelingMove[]) => void
+}
+
+const shortDate = (date: string) => formatDate(date, { month: 'short', day: 'numeric' })
+
+export function LevelingDialog({ open, onOpenChange, tasks, subtaskDefinitions, range, calendar, capacity, criticalPath, finishTarget, onAccept }: LevelingDialogProps) {
+  // Moves accepted since the dialog opened, listed above the live proposal
+  // while the plan still has them
+  const [accepted, setAccepted] = useState<LevelingMove[]>([])
+
+  useEffect(() => {
+    if (open) setAccepted([])
+  }, [open])
+
+  // Follows the plan while the dialog is open, so the suggestions are
+  // recomputed after accepting a move or an undo behind the dialog
+  const proposal = useMemo(
+    () => (open ? proposeLeveling(tasks, subtaskDefinitions, range, calendar, criticalPath, finishTarget, capacity) : null),
+    [open, tasks, subtaskDefinitions, range, calendar, criticalPath, finishTarget, capacity],
+  )
+
+  const pending = proposal?.moves || []
+
+  // Accepted moves the plan still holds: an undo takes a move out, and a task
+  // with a new suggestion is only listed under that
+  const stillAccepted = useMemo(() => {
+    const byId = new Map(tasks.map(task => [task.id, task]))
+    const pendingIds = new Set(pending.map(move => move.taskId))
+    const latest = new Map(accepted.map(move => [move.taskId, move]))
+    return Array.from(latest.values()).filter(move => {
+      const task = byId.get(move.taskId)
+      return !!task && task.start === move.newStart && task.end === move.newEnd && !pendingIds.has(move.taskId)
+    })
+  }, [accepted, pending, tasks])
+
+  const accept = (moves: LevelingMove[]) => {
+    onAccept(moves)
+    setAccepted(prev => [...prev, ...moves])
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Level Resources</DialogTitle>
+          <DialogDescription>
+            Non-critical tasks delayed within their float to flatten over-allocation peaks. No move pushes a successor or the {formatDate(finishTarget)} finish target.
+          </DialogDescription>
+        </DialogHeader>
+
+        {proposal && (
+          <div className="space-y-4 py-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Person-weeks over {capacity}%:</span>
+              <Badge className="bg-red-600 text-white border-0">{proposal.overBefore}</Badge>
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+              <Badge className={proposal.overAfter > 0 ? 'bg-orange-500 text-white border-0' : 'bg-green-600 text-white border-0'}>
+                {proposal.overAfter}
+              </Badge>
+              <span className="text-muted-foreground">if every move is accepted</span>
+            </div>
+
+            {proposal.moves.length === 0 && (
+              <p className="rounded-lg border p-3 text-sm text-muted-foreground">
+                {proposal.overBefore === 0
+                  ? 'Nobody is over capacity; there is nothing to level.'
+                  : 'No non-critical task can move within its float to relieve the peaks. Consider reassigning work or raising capacity.'}
+              </p>
+            )}
+            {stillAccepted.length + pending.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-2 font-medium">Task</th>
+                    <th className="py-2 pr-2 font-medium">Current</th>
+                    <th className="py-2 pr-2 font-medium">Proposed</th>
+                    <th className="py-2 pr-2 font-medium text-right">Shift</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...stillAccepted.map(move => ({ move, isAccepted: true })), ...pending.map(move => ({ move, isAccepted: false }))].map(({ move, isAccepted }) => (
+                    <tr key={`${move.taskId}-${move.newStart}`} className="border-b last:border-0">
+                      <td className="py-2 pr-2">
+                        <div className="font-medium">{move.label}</div>
+                        <div className="text-xs text-muted-foreground">{move.owner} · {move.people.join(', ')}</div>
+                      </td>
+                      <td className="py-2 pr-2 whitespace-nowrap text-muted-foreground">
+                        {shortDate(move.start)} – {shortDate(move.end)}
+                      </td>
+                      <td className="py-2 pr-2 whitespace-nowrap">
+                        {shortDate(move.newStart)} – {shortDate(move.newEnd)}
+                      </td>
+                      <td className="py-2 pr-2 text-right whitespace-nowrap">+{move.shiftDays}d</td>
+                      <td className="py-2 text-right">
+                        {isAccepted ? (
+                          <Badge variant="secondary" className="gap-1">
+                            <Check className="h-3 w-3" />
+                            Accepted
+                          </Badge>
+                        ) : (
+                          <Button size="sm" variant="outline" onClick={() => accept([move])}>
+                            Accept
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <div className="flex gap-2">
+            {pending.length > 0 && (
+              <Button variant="outline" onClick={() => accept(pending)}>
+                Accept All ({pending.length})
+              </Button>
+            )}
+            <Button onClick={() => onOpenChange(false)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,207 @@
+import { useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { toast } from 'sonner@2.0.3'
+import type { Owner } from '../utils/persistence'
+import { findOwner, newOwner, ownerGradient } from '../utils/owners'
+
+interface OwnerRegistryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  owners: Owner[]
+  taskCounts: Record<string, number> // tasks per owner name in the active scenario
+  unregistered: string[] // owner names tasks use that are not in the registry
+  onOwnersChange: (owners: Owner[], description: string) => void
+  onRenameOwner: (from: string, to: string) => void
+}
+
+// Colors are committed when the picker loses focus, so each pick is one undo step
+export function ColorField({ value, onCommit, className, label }: { value: string; onCommit: (color: string) => void; className: string; label: string }) {
+  return (
+    <input
+      key={value}
+      type="color"
+      defaultValue={value}
+      onBlur={(e) => { if (e.target.value !== value) onCommit(e.target.value) }}
+      className={`${className} rounded border cursor-pointer`}
+      title={label}
+      aria-label={label}
+    />
+  )
+}
+
+// "Ana, Ben" → ['Ana', 'Ben']
+const parseMembers = (value: string) => Array.from(new Set(value.split(',').map(name => name.trim()).filter(Boolean)))
+
+export function OwnerRegistryDialog({ open, onOpenChange, owners, taskCounts, unregistered, onOwnersChange, onRenameOwner }: OwnerRegistryDialogProps) {
+  const [newName, setNewName] = useState('')
+
+  const update = (owner: Owner, changes: Partial<Owner>, description: string) => {
+    onOwnersChange(owners.map(o => (o.name === owner.name ? { ...o, ...changes } : o)), description)
+  }
+
+  const rename = (owner: Owner, value: string) => {
+    const name = value.trim()
+    if (!name || name === owner.name) return
+    if (findOwner(owners, name)) {
+      toast.error(`An owner named "${name}" already exists`)
+      return
+    }
+    onRenameOwner(owner.name, name)
+  }
+
+  const setMembers = (owner: Owner, value: string) => {
+    const members = parseMembers(value)
+    if (members.join(',') === (owner.members || []).join(',')) return
+    const { members: _previous, ...rest } = owner
+    onOwnersChange(
+      owners.map(o => (o.name === owner.name ? (members.length > 0 ? { ...rest, members } : rest) : o)),
+      `Set members of ${owner.name}`
+    )
+  }
+
+  const add = (value: string) => {
+    const name = value.trim()
+    if (!name) {
+      toast.error('Enter a name for the owner')
+      return
+    }
+    if (findOwner(owners, name)) {
+      toast.error(`An owner named "${name}" already exists`)
+      return
+    }
+    onOwnersChange([...owners, newOwner(owners, name)], `Add owner ${name}`)
+    setNewName('')
+  }
+
+  // Owners still on tasks would lose their color, so they have to be renamed instead
+  const remove = (owner: Owner) => {
+    const count = taskCounts[owner.name] || 0
+    if (count > 0) {
+      toast.error(`${owner.name} owns ${count} task${count !== 1 ? 's' : ''}. Reassign them before removing it.`)
+      return
+    }
+    onOwnersChange(owners.filter(o => o.name !== owner.name), `Remove owner ${owner.name}`)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Owners</DialogTitle>
+          <DialogDescription>
+            Teams and agencies that own tasks. Their colors drive the Gantt bars, legends, badges, cards and charts. Renaming an owner moves its tasks and calendar exceptions along.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="rounded-lg border divide-y">
+            {owners.map(owner => (
+              <div key={owner.name} className="flex items-start gap-3 p-3">
+                <div className="flex flex-col items-center gap-1 pt-1">
+                  <ColorField
+                    value={owner.color}
+                    onCommit={(color) => update(owner, { color }, `Recolor ${owner.name}`)}
+                    className="h-8 w-10"
+                    label={`Bar and badge color for ${owner.name}`}
+                  />
+                  <span className="text-[10px] text-muted-foreground font-mono">{owner.color.toUpperCase()}</span>
+                </div>
+                <div className="flex-1 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      key={owner.name}
+                      defaultValue={owner.name}
+                      onBlur={(e) => rename(owner, e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+                      className="h-8"
+                      aria-label={`Name of ${owner.name}`}
+                    />
+                    <Badge variant="secondary" className="whitespace-nowrap">
+                      {taskCounts[owner.name] || 0} tasks
+                    </Badge>
+                  </div>
+                  <Input
+                    key={(owner.members || []).join(',')}
+                    defaultValue={(owner.members || []).join(', ')}
+                    placeholder="Members, comma separated (optional)"
+                    onBlur={(e) => setMembers(owner, e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+                    className="h-8 text-xs"
+                    aria-label={`Members of ${owner.name}`}
+                  />
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span>Card gradient</span>
+                    <ColorField
+                      value={owner.gradient.from}
+                      onCommit={(from) => update(owner, { gradient: { ...owner.gradient, from } }, `Change ${owner.name} gradient`)}
+                      className="h-6 w-8"
+                      label={`Gradient start for ${owner.name}`}
+                    />
+                    <ColorField
+                      value={owner.gradient.to}
+                      onCommit={(to) => update(owner, { gradient: { ...owner.gradient, to } }, `Change ${owner.name} gradient`)}
+                      className="h-6 w-8"
+                      label={`Gradient end for ${owner.name}`}
+                    />
+                    <div className="flex-1 h-4 rounded" style={{ backgroundImage: ownerGradient(owners, owner.name) }} />
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => remove(owner)}
+                  title="Remove owner"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {unregistered.length > 0 && (
+            <div className="space-y-2">
+              <Label>Used by tasks but not registered</Label>
+              <div className="flex flex-wrap gap-2">
+                {unregistered.map(name => (
+                  <Button key={name} variant="outline" size="sm" onClick={() => add(name)} className="gap-1">
+                    <Plus className="h-3 w-3" />
+                    {name}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2 items-end">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="owner-name" className="text-xs">New owner</Label>
+              <Input
+                id="owner-name"
+                placeholder="e.g. Sales, Operations, Agency"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') add(newName) }}
+              />
+            </div>
+            <Button variant="outline" onClick={() => add(newName)} className="gap-1">
+              <Plus className="h-4 w-4" />
+              Add
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex justify-end pt-4 border-t">
+          <Button onClick={() => onOpenChange(false)}>
+            Done
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,8 +1,15 @@
-import { useMemo } from 'react'
+import { useMemo, useState } from 'react'
+import { Button } from './ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Progress } from './ui/progress'
 import { Badge } from './ui/badge'
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from './ui/accordion'
+import { formatDays, formatDate, type DayUnit } from '../utils/dates'
+import { countDays, type ProjectCalendar } from '../utils/workCalendar'
+import { formatVariance, getTaskStatus, isSlipping, taskStatusBadgeVariant, taskStatusInfo } from '../utils/taskStatus'
+import type { Owner, Phase } from '../utils/persistence'
+import { findOwner, ownerGradient } from '../utils/owners'
+import { buildWbs, flattenWbs, phasePath, rollupTasks, tasksBeneath } from '../utils/wbs'
 
 interface Task {
   id: string
@@ -10,18 +17,37 @@ interface Task {
   start: string
   end: string
   owner: string
+  phaseId?: string
+  assignees?: string[]
+}
+
+interface TaskGroup {
+  key: string
+  title: string
+  subtitle?: string
+  tasks: Task[] // listed in the card
+  counted: Task[] // behind the header figures; a phase counts its sub-phases too
+  progress: number
+  background: string // CSS gradient behind the card header
 }
 
 interface OwnerViewProps {
   tasks: Task[]
   progress: Record<string, number>
   currentDate: string
+  calendar: ProjectCalendar
+  dayUnit: DayUnit
+  phases?: Phase[]
+  owners: Owner[]
 }
 
-const toDate = (s: string) => new Date(s)
+const byStart = (a: Task, b: Task) => a.start.localeCompare(b.start)
+
+export function OwnerView({ tasks, progress, currentDate, calendar, dayUnit, phases = [], owners }: OwnerViewProps) {
+  const [groupBy, setGroupBy] = useState<'owner' | 'phase'>('owner')
+  const byPhase = groupBy === 'phase' && phases.length > 0
 
-export function OwnerView({ tasks, progress, currentDate }: OwnerViewProps) {
-  const groupedByOwner = useMemo(() => {
+  const groupedByOwner = useMemo((): TaskGroup[] => {
     const groups: Record<string, Task[]> = {}
     
     tasks.forEach(task => {
@@ -32,81 +58,122 @@ export function OwnerView({ tasks, progress, currentDate }: OwnerViewProps) {
       groups[owner].push(task)
     })
 
+    // Registry order first, then owners only tasks mention
+    const rank = (owner: string) => {
+      const index = owners.findIndex(o => o.name === owner)
+      return index === -1 ? owners.length : index
+    }
+
     return Object.entries(groups).map(([owner, ownerTasks]) => {
       const totalProgress = ownerTasks.reduce((sum, t) => sum + (progress[t.id] || 0), 0)
       const avgProgress = Math.round(totalProgress / ownerTasks.length)
-      
-      const completed = ownerTasks.filter(t => (progress[t.id] || 0) === 100).length
-      const today = toDate(currentDate)
-      const overdue = ownerTasks.filter(t => {
-        const end = toDate(t.end)
-        return today > end && (progress[t.id] || 0) < 100
-      }).length
+      const members = findOwner(owners, owner)?.members || []
 
       return {
-        owner,
-        tasks: ownerTasks.sort((a, b) => toDate(a.start).getTime() - toDate(b.start).getTime()),
-        avgProgress,
-        completed,
-        total: ownerTasks.length,
-        overdue
+        key: owner,
+        title: owner,
+        subtitle: members.length > 0 ? members.join(', ') : undefined,
+        tasks: ownerTasks.sort(byStart),
+        counted: ownerTasks,
+        progress: avgProgress,
+        background: ownerGradient(owners, owner)
       }
-    }).sort((a, b) => a.owner.localeCompare(b.owner))
-  }, [tasks, progress, currentDate])
-
-  const getTaskStatus = (task: Task) => {
-    const taskProgress = progress[task.id] || 0
-    const today = toDate(currentDate)
-    const start = toDate(task.start)
-    const end = toDate(task.end)
+    }).sort((a, b) => rank(a.key) - rank(b.key) || a.title.localeCompare(b.title))
+  }, [tasks, progress, owners])
 
-    if (taskProgress === 100) return { label: 'Completed', variant: 'default' as const, color: 'text-green-600' }
-    if (today < start) return { label: 'Not Started', variant: 'secondary' as const, color: 'text-slate-600' }
-    if (today > end) return { label: 'Overdue', variant: 'destructive' as const, color: 'text-red-600' }
-    return { label: 'In Progress', variant: 'outline' as const, color: 'text-blue-600' }
-  }
+  // One card per phase in outline order, listing the tasks placed directly in
+  // it; the header rolls up everything beneath, weighted by duration
+  const groupedByPhase = useMemo((): TaskGroup[] => {
+    if (!byPhase) return []
+    const { roots, unphased } = buildWbs(phases, tasks, progress)
+    const groups: TaskGroup[] = flattenWbs(roots)
+      .filter(node => node.rollup)
+      .map(node => ({
+        key: node.phase.id,
+        title: `${node.code} ${node.phase.label}`,
+        subtitle: node.depth > 0 ? phasePath(phases, node.phase.id) : undefined,
+        tasks: node.tasks,
+        counted: tasksBeneath(node),
+        progress: node.rollup?.progress || 0,
+        background: node.depth === 0 ? 'linear-gradient(to right, #334155, #64748b)' : 'linear-gradient(to right, #64748b, #9ca3af)'
+      }))
+    if (unphased.length > 0) {
+      groups.push({
+        key: 'unphased',
+        title: 'No phase',
+        tasks: [...unphased].sort(byStart),
+        counted: unphased,
+        progress: rollupTasks(unphased, progress)?.progress || 0,
+        background: 'linear-gradient(to right, #9ca3af, #d1d5db)'
+      })
+    }
+    return groups
+  }, [byPhase, phases, tasks, progress])
 
-  const ownerGradients: Record<string, string> = {
-    'Leadership': 'from-purple-500 to-violet-500',
-    'Marketing': 'from-blue-500 to-indigo-500',
-    'Design': 'from-pink-500 to-rose-500',
-    'Product': 'from-green-500 to-emerald-500',
-  }
+  const groups = byPhase ? groupedByPhase : groupedByOwner
 
   return (
     <div className="space-y-4">
-      {groupedByOwner.map(({ owner, tasks, avgProgress, completed, total, overdue }) => {
-        const gradient = ownerGradients[owner] || 'from-slate-500 to-gray-500'
-        
+      {phases.length > 0 && (
+        <div className="flex justify-end gap-2">
+          <span className="text-sm text-muted-foreground self-center">Group by</span>
+          <Button size="sm" variant={byPhase ? 'outline' : 'default'} onClick={() => setGroupBy('owner')}>
+            Owner
+          </Button>
+          <Button size="sm" variant={byPhase ? 'default' : 'outline'} onClick={() => setGroupBy('phase')}>
+            Phase
+          </Button>
+        </div>
+      )}
+      {groups.map(({ key, title, subtitle, tasks, counted, progress: groupProgress, background }) => {
+        const statuses = counted.map(t => getTaskStatus(t, progress[t.id] || 0, currentDate).status)
+        const completed = statuses.filter(status => status === 'completed').length
+        const overdue = statuses.filter(status => status === 'overdue').length
+        const slipping = statuses.filter(isSlipping).length
+        const total = counted.length
+
         return (
-          <Card key={owner} className="bg-white/80 backdrop-blur shadow-lg border-0">
-            <CardHeader className={`bg-gradient-to-r ${gradient} text-white rounded-t-lg`}>
+          <Card key={key} className="bg-white/80 backdrop-blur shadow-lg border-0">
+            <CardHeader className="text-white rounded-t-lg" style={{ backgroundImage: background }}>
               <div className="flex items-center justify-between">
-                <CardTitle className="text-white">{owner}</CardTitle>
+                <div>
+                  <CardTitle className="text-white">{title}</CardTitle>
+                  {subtitle && <p className="text-xs text-white/80 mt-1">{subtitle}</p>}
+                </div>
                 <div className="flex items-center gap-3">
                   {overdue > 0 && (
                     <Badge className="bg-red-600 border-0 shadow-md text-white">{overdue} overdue</Badge>
                   )}
+                  {slipping > 0 && (
+                    <Badge className="bg-amber-500 border-0 shadow-md text-white">{slipping} at risk</Badge>
+                  )}
                   <Badge className="bg-white/20 border-0 backdrop-blur text-white shadow-md">{completed}/{total} completed</Badge>
                   <div className="flex items-center gap-2 bg-white/20 backdrop-blur rounded-full px-3 py-1">
-                    <Progress value={avgProgress} className="w-24 h-2 bg-white/30" />
-                    <span className="text-sm text-white">{avgProgress}%</span>
+                    <Progress value={groupProgress} className="w-24 h-2 bg-white/30" />
+                    <span className="text-sm text-white">{groupProgress}%</span>
                   </div>
                 </div>
               </div>
             </CardHeader>
           <CardContent className="pt-4">
+            {tasks.length === 0 && (
+              <p className="text-sm text-muted-foreground">All of this phase's tasks sit in its sub-phases</p>
+            )}
             <Accordion type="multiple" className="w-full">
               {tasks.map(task => {
-                const status = getTaskStatus(task)
                 const taskProgress = progress[task.id] || 0
+                const { status, expectedProgress, variance } = getTaskStatus(task, taskProgress, currentDate)
                 return (
                   <AccordionItem key={task.id} value={task.id} className="border-b last:border-0">
                     <AccordionTrigger className="hover:no-underline py-3">
                       <div className="flex items-center justify-between flex-1 mr-4">
                         <div className="flex items-center gap-3 flex-1">
-                          <Badge variant={status.variant} className="shadow-sm">
-                            {status.label}
+                          <Badge
+                            variant={taskStatusBadgeVariant[status]}
+                            className="shadow-sm"
+                            style={isSlipping(status) ? { borderColor: taskStatusInfo[status].color, color: taskStatusInfo[status].color } : undefined}
+                          >
+                            {taskStatusInfo[status].label}
                           </Badge>
                           <span className="text-sm text-left">{task.label}</span>
                         </div>
@@ -121,22 +188,32 @@ export function OwnerView({ tasks, progress, currentDate }: OwnerViewProps) {
                         <div className="grid grid-cols-2 gap-4">
                           <div className="flex items-center gap-2">
                             <span className="text-muted-foreground">Start Date:</span>
-                            <span className="font-medium">{new Date(task.start).toLocaleDateString()}</span>
+                            <span className="font-medium">{formatDate(task.start)}</span>
                           </div>
                           <div className="flex items-center gap-2">
                             <span className="text-muted-foreground">End Date:</span>
-                            <span className="font-medium">{new Date(task.end).toLocaleDateString()}</span>
+                            <span className="font-medium">{formatDate(task.end)}</span>
                           </div>
                           <div className="flex items-center gap-2">
                             <span className="text-muted-foreground">Duration:</span>
                             <span className="font-medium">
-                              {Math.round((toDate(task.end).getTime() - toDate(task.start).getTime()) / (1000 * 60 * 60 * 24))} days
+                              {formatDays(countDays(task.start, task.end, { unit: dayUnit, calendar, owner: task.owner }), dayUnit)}
                             </span>
                           </div>
                           <div className="flex items-center gap-2">
                             <span className="text-muted-foreground">Progress:</span>
                             <span className="font-medium">{taskProgress}% complete</span>
                           </div>
+                          <div className="flex items-center gap-2">
+                            <span className="text-muted-foreground">Expected:</span>
+                            <span className="font-medium">{expectedProgress}% ({formatVariance(variance)})</span>
+                          </div>
+                          {task.assignees && task.assignees.length > 0 && (
+                            <div className="flex items-center gap-2 col-span-2">
+                              <span className="text-muted-foreground">Assigned:</span>
+                              <span className="font-medium">{task.assignees.join(', ')}</span>
+                            </div>
+                          )}
                         </div>
                       </div>
                     </AccordionContent>
@@ -0,0 +1,214 @@
+import { useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { toast } from 'sonner@2.0.3'
+import type { Phase } from '../utils/persistence'
+import { buildWbs, canNestUnder, flattenWbs, newPhaseId, removePhase } from '../utils/wbs'
+
+interface Task {
+  id: string
+  label: string
+  start: string
+  end: string
+  phaseId?: string
+}
+
+interface PhaseManagerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  phases: Phase[]
+  taskPhases: Record<string, string>
+  tasks: Task[]
+  onPhasesChange: (phases: Phase[], taskPhases: Record<string, string>, description: string) => void
+}
+
+// Select items can't have an empty value
+const NONE = 'none'
+
+export function PhaseManagerDialog({ open, onOpenChange, phases, taskPhases, tasks, onPhasesChange }: PhaseManagerDialogProps) {
+  const [newLabel, setNewLabel] = useState('')
+  const [newParent, setNewParent] = useState(NONE)
+  // The chosen parent may have been deleted since
+  const parentChoice = phases.some(p => p.id === newParent) ? newParent : NONE
+
+  const { roots } = buildWbs(phases, tasks, {})
+  const outline = flattenWbs(roots)
+  // Non-breaking spaces so nesting shows in the dropdowns
+  const optionLabel = (node: typeof outline[number]) => `${'\u00a0\u00a0'.repeat(node.depth)}${node.code} ${node.phase.label}`
+
+  const addPhase = () => {
+    const label = newLabel.trim()
+    if (!label) {
+      toast.error('Enter a name for the phase')
+      return
+    }
+    const phase: Phase = { id: newPhaseId(label, phases), label }
+    if (parentChoice !== NONE) phase.parentId = parentChoice
+    onPhasesChange([...phases, phase], taskPhases, `Add phase "${label}"`)
+    setNewLabel('')
+  }
+
+  const renamePhase = (phase: Phase, value: string) => {
+    const label = value.trim()
+    if (!label || label === phase.label) return
+    onPhasesChange(
+      phases.map(p => (p.id === phase.id ? { ...p, label } : p)),
+      taskPhases,
+      `Rename phase "${phase.label}" to "${label}"`
+    )
+  }
+
+  const moveUnder = (phase: Phase, parentId: string) => {
+    const next = phases.map(p => {
+      if (p.id !== phase.id) return p
+      const { parentId: _previous, ...rest } = p
+      return parentId === NONE ? rest : { ...rest, parentId }
+    })
+    const parent = phases.find(p => p.id === parentId)
+    onPhasesChange(next, taskPhases, parent ? `Move "${phase.label}" under "${parent.label}"` : `Move "${phase.label}" to the top level`)
+  }
+
+  const deletePhase = (phase: Phase) => {
+    const next = removePhase(phases, taskPhases, phase.id)
+    onPhasesChange(next.phases, next.taskPhases, `Delete phase "${phase.label}"`)
+  }
+
+  const assignTask = (task: Task, phaseId: string) => {
+    const next = { ...taskPhases }
+    if (phaseId === NONE) delete next[task.id]
+    else next[task.id] = phaseId
+    const phase = phases.find(p => p.id === phaseId)
+    onPhasesChange(phases, next, phase ? `Move "${task.label}" to "${phase.label}"` : `Remove "${task.label}" from its phase`)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Phases</DialogTitle>
+          <DialogDescription>
+            Group tasks into nestable phases. A phase spans its tasks' dates and rolls up their progress, weighted by duration.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-2">
+            <Label>Work breakdown</Label>
+            <div className="rounded-lg border divide-y">
+              {outline.length === 0 && (
+                <p className="p-3 text-sm text-muted-foreground">No phases; every task is listed on its own</p>
+              )}
+              {outline.map(node => (
+                <div key={node.phase.id} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                  <span className="text-muted-foreground w-10 shrink-0" style={{ marginLeft: node.depth * 16 }}>
+                    {node.code}
+                  </span>
+                  <Input
+                    key={node.phase.label}
+                    defaultValue={node.phase.label}
+                    onBlur={(e) => renamePhase(node.phase, e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+                    className="h-8 flex-1"
+                    aria-label={`Name of phase ${node.code}`}
+                  />
+                  <Select value={node.phase.parentId || NONE} onValueChange={(value) => moveUnder(node.phase, value)}>
+                    <SelectTrigger className="h-8 w-[180px] text-xs" title="Parent phase">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Top level</SelectItem>
+                      {outline
+                        .filter(other => canNestUnder(phases, node.phase.id, other.phase.id))
+                        .map(other => (
+                          <SelectItem key={other.phase.id} value={other.phase.id}>
+                            Under {other.code} {other.phase.label}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-xs text-muted-foreground w-16 text-right">
+                    {node.rollup?.taskCount || 0} task{node.rollup?.taskCount === 1 ? '' : 's'}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => deletePhase(node.phase)}
+                    title="Delete phase (its tasks and sub-phases move up a level)"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-[1.5fr_1fr_auto] gap-2 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="phase-label" className="text-xs">New phase</Label>
+                <Input
+                  id="phase-label"
+                  placeholder="e.g. Launch Events"
+                  value={newLabel}
+                  onChange={(e) => setNewLabel(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') addPhase() }}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Inside</Label>
+                <Select value={parentChoice} onValueChange={setNewParent}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Top level</SelectItem>
+                    {outline.map(node => (
+                      <SelectItem key={node.phase.id} value={node.phase.id}>{optionLabel(node)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button variant="outline" onClick={addPhase} className="gap-1">
+                <Plus className="h-4 w-4" />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tasks</Label>
+            <div className="max-h-72 overflow-y-auto rounded-lg border divide-y">
+              {[...tasks].sort((a, b) => a.start.localeCompare(b.start)).map(task => (
+                <div key={task.id} className="flex items-center justify-between gap-2 px-3 py-1 text-sm">
+                  <span className="truncate">{task.label}</span>
+                  <Select
+                    value={task.phaseId && phases.some(p => p.id === task.phaseId) ? task.phaseId : NONE}
+                    onValueChange={(value) => assignTask(task, value)}
+                  >
+                    <SelectTrigger className="h-8 w-[220px] text-xs shrink-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>No phase</SelectItem>
+                      {outline.map(node => (
+                        <SelectItem key={node.phase.id} value={node.phase.id}>{optionLabel(node)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end pt-4 border-t">
+          <Button onClick={() => onOpenChange(false)}>
+            Done
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -3,16 +3,27 @@ import { Progress } from './ui/progress'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
 import { Input } from './ui/input'
-import { Checkbox } from './ui/checkbox'
-import { Label } from './ui/label'
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from './ui/accordion'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from './ui/dialog'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
-import { Plus, Trash2 } from 'lucide-react'
+import { CalendarClock, ListChecks, Plus, Trash2, User } from 'lucide-react'
 import { toast } from 'sonner@2.0.3'
-import { ownerColors } from '../App'
+import { formatDate, todayPlainDate } from '../utils/dates'
+import { getTaskStatus, isSlipping, taskStatusBadgeVariant, taskStatusInfo } from '../utils/taskStatus'
+import {
+  isSubtaskOverdue,
+  nextSubtaskState,
+  progressFromPercent,
+  subtaskPercent,
+  subtaskStateInfo,
+  subtaskStateOf,
+  subtaskStateOrder,
+} from '../utils/subtasks'
+import { ownerGradient } from '../utils/owners'
+import type { Owner, SubtaskProgress, SubtaskState } from '../utils/persistence'
 import { useState } from 'react'
+import { SubtaskEditorDialog } from './SubtaskEditorDialog'
 
 interface Task {
   id: string
@@ -27,91 +38,102 @@ interface Subtask {
   label: string
   weight: number
   description: string
+  due?: string
+  assignee?: string
 }
 
 interface ProgressManagerProps {
   tasks: Task[]
   progress: Record<string, number>
-  subtaskProgress: Record<string, Record<string, boolean>>
-  setSubtaskProgress: (progress: Record<string, Record<string, boolean>>) => void
+  subtaskProgress: Record<string, Record<string, SubtaskProgress>>
+  setSubtaskProgress: (progress: Record<string, Record<string, SubtaskProgress>>, description?: string) => void
   subtaskDefinitions: Record<string, Subtask[]>
+  owners: Owner[]
   currentDate: string
   onCreateTask?: (taskData: { label: string; start: string; end: string; owner: string }) => void
   onDeleteTask?: (taskId: string) => void
+  onUpdateSubtasks?: (taskId: string, subtasks: Subtask[], description: string) => void
 }
 
-const toDate = (s: string) => new Date(s)
-
 export function ProgressManager({ 
   tasks, 
   progress, 
   subtaskProgress, 
   setSubtaskProgress,
   subtaskDefinitions,
+  owners,
   currentDate,
   onCreateTask,
-  onDeleteTask
+  onDeleteTask,
+  onUpdateSubtasks
 }: ProgressManagerProps) {
   const [searchTerm, setSearchTerm] = useState('')
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
   const [newTaskLabel, setNewTaskLabel] = useState('')
-  const [newTaskStart, setNewTaskStart] = useState(new Date().toISOString().slice(0, 10))
-  const [newTaskEnd, setNewTaskEnd] = useState(new Date().toISOString().slice(0, 10))
-  const [newTaskOwner, setNewTaskOwner] = useState('Leadership')
+  const [newTaskStart, setNewTaskStart] = useState(todayPlainDate)
+  const [newTaskEnd, setNewTaskEnd] = useState(todayPlainDate)
+  const [newTaskOwner, setNewTaskOwner] = useState(owners[0]?.name || '')
   const [taskToDelete, setTaskToDelete] = useState<Task | null>(null)
+  const [editingSubtasksOf, setEditingSubtasksOf] = useState<Task | null>(null)
 
-  const toggleSubtask = (taskId: string, subtaskId: string) => {
-    const currentTaskProgress = subtaskProgress[taskId] || {}
+  const updateSubtask = (taskId: string, subtask: Subtask, entry: SubtaskProgress) => {
     const updated = {
       ...subtaskProgress,
       [taskId]: {
-        ...currentTaskProgress,
-        [subtaskId]: !currentTaskProgress[subtaskId]
+        ...subtaskProgress[taskId],
+        [subtask.id]: entry
       }
     }
-    setSubtaskProgress(updated)
+    const change = entry.state === 'doing' && entry.percent !== undefined
+      ? `${entry.percent}%`
+      : subtaskStateInfo[entry.state].label
+    setSubtaskProgress(updated, `Set "${subtask.label}" to ${change}`)
+  }
+
+  // Typed percentages are committed on blur so each edit is one undo step
+  const commitPercent = (taskId: string, subtask: Subtask, value: string) => {
+    const percent = parseFloat(value)
+    if (!Number.isFinite(percent) || percent === subtaskPercent(subtaskProgress[taskId]?.[subtask.id])) return
+    updateSubtask(taskId, subtask, progressFromPercent(percent))
   }
 
-  const toggleAllSubtasks = (taskId: string, checked: boolean) => {
+  const setAllSubtasks = (taskId: string, state: SubtaskState) => {
     const subtasks = subtaskDefinitions[taskId] || []
     const updated = {
       ...subtaskProgress,
-      [taskId]: Object.fromEntries(subtasks.map(st => [st.id, checked]))
+      [taskId]: Object.fromEntries(subtasks.map(st => [st.id, { state }]))
     }
-    setSubtaskProgress(updated)
+    const task = tasks.find(t => t.id === taskId)
+    setSubtaskProgress(updated, `Set all subtasks of "${task?.label || taskId}" to ${subtaskStateInfo[state].label}`)
   }
 
   const resetProgress = () => {
-    setSubtaskProgress({})
+    setSubtaskProgress({}, 'Reset all progress')
+  }
+
+  const saveSubtasks = (task: Task, next: Subtask[]) => {
+    const previous = subtaskDefinitions[task.id] || []
+    const description = next.length === 0
+      ? `Remove subtasks of "${task.label}"`
+      : previous.length === 0
+        ? `Add ${next.length} subtask${next.length !== 1 ? 's' : ''} to "${task.label}"`
+        : `Edit subtasks of "${task.label}"`
+    onUpdateSubtasks?.(task.id, next, description)
+    setEditingSubtasksOf(null)
   }
 
+  // Owners, their members and anyone already assigned a subtask
+  const assigneeSuggestions = Array.from(new Set([
+    ...tasks.map(task => task.owner),
+    ...owners.flatMap(owner => owner.members || []),
+    ...Object.values(subtaskDefinitions).flatMap(subtasks => subtasks.flatMap(st => (st.assignee ? [st.assignee] : []))),
+  ])).sort()
+
   const filteredTasks = tasks.filter(task => {
-    // Only show tasks that have subtasks defined
-    if (!subtaskDefinitions[task.id]) return false
-    
     return task.label.toLowerCase().includes(searchTerm.toLowerCase()) ||
       task.owner.toLowerCase().includes(searchTerm.toLowerCase())
   })
 
-  const getTaskStatus = (task: Task) => {
-    const taskProgress = progress[task.id] || 0
-    const today = toDate(currentDate)
-    const start = toDate(task.start)
-    const end = toDate(task.end)
-
-    if (taskProgress === 100) return { label: 'Completed', variant: 'default' as const }
-    if (today < start) return { label: 'Not Started', variant: 'secondary' as const }
-    if (today > end) return { label: 'Overdue', variant: 'destructive' as const }
-    return { label: 'In Progress', variant: 'outline' as const }
-  }
-
-  const ownerColors: Record<string, string> = {
-    'Leadership': 'from-purple-500 to-violet-500',
-    'Marketing': 'from-blue-500 to-indigo-500',
-    'Design': 'from-pink-500 to-rose-500',
-    'Product': 'from-green-500 to-emerald-500',
-  }
-
   return (
     <div className="space-y-4">
       <Card className="bg-white/80 backdrop-blur shadow-lg border-0">
@@ -140,11 +162,12 @@ export function ProgressManager({
 
           <Accordion type="multiple" className="space-y-3">
             {filteredTasks.map((task) => {
-              const status = getTaskStatus(task)
+              const { status } = getTaskStatus(task, progress[task.id] || 0, currentDate)
               const taskProgress = progress[task.id] || 0
               const subtasks = subtaskDefinitions[task.id] || []
-              const completed = subtaskProgress[task.id] || {}
-              const completedCount = subtasks.filter(st => completed[st.id]).length
+              const entries = subtaskProgress[task.id] || {}
+              const doneCount = subtasks.filter(st => subtaskStateOf(entries[st.id]) === 'done').length
+              const doingCount = subtasks.filter(st => subtaskStateOf(entries[st.id]) === 'doing').length
 
               return (
                 <AccordionItem 
@@ -156,19 +179,25 @@ export function ProgressManager({
                     <div className="flex items-center justify-between gap-4 w-full pr-4">
                       <div className="flex-1 text-left">
                         <div className="flex items-center gap-2 mb-2">
-                          <Badge variant={status.variant} className="shadow-sm">
-                            {status.label}
+                          <Badge
+                            variant={taskStatusBadgeVariant[status]}
+                            className="shadow-sm"
+                            style={isSlipping(status) ? { borderColor: taskStatusInfo[status].color, color: taskStatusInfo[status].color } : undefined}
+                          >
+                            {taskStatusInfo[status].label}
                           </Badge>
                           <span className="text-sm">{task.label}</span>
                         </div>
                         <p className="text-xs text-muted-foreground">
-                          {new Date(task.start).toLocaleDateString()} → {new Date(task.end).toLocaleDateString()} • {task.owner}
+                          {formatDate(task.start)} → {formatDate(task.end)} • {task.owner}
                         </p>
                         <p className="text-xs text-muted-foreground mt-1">
-                          {completedCount} of {subtasks.length} subtasks complete
+                          {subtasks.length > 0
+                            ? `${doneCount} of ${subtasks.length} subtasks done${doingCount > 0 ? `, ${doingCount} in progress` : ''}`
+                            : 'No subtasks'}
                         </p>
                       </div>
-                      <div className={`text-right px-4 py-2 rounded-lg bg-gradient-to-r ${ownerColors[task.owner] || 'from-slate-500 to-gray-500'} text-white shadow-md`}>
+                      <div className="text-right px-4 py-2 rounded-lg text-white shadow-md" style={{ backgroundImage: ownerGradient(owners, task.owner) }}>
                         <div className="text-3xl">{taskProgress}%</div>
                       </div>
                     </div>
@@ -178,58 +207,129 @@ export function ProgressManager({
                       <div className="flex items-center justify-between mb-3">
                         <span className="text-sm">Subtasks:</span>
                         <div className="flex gap-2">
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => toggleAllSubtasks(task.id, true)}
-                            className="text-xs"
-                          >
-                            Check All
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => toggleAllSubtasks(task.id, false)}
-                            className="text-xs"
-                          >
-                            Uncheck All
-                          </Button>
+                          {subtasks.length > 0 && (
+                            <>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setAllSubtasks(task.id, 'done')}
+                                className="text-xs"
+                              >
+                                All Done
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setAllSubtasks(task.id, 'todo')}
+                                className="text-xs"
+                              >
+                                All To Do
+                              </Button>
+                            </>
+                          )}
+                          {onUpdateSubtasks && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setEditingSubtasksOf(task)}
+                              className="text-xs gap-1"
+                            >
+                              <ListChecks className="h-3.5 w-3.5" />
+                              Edit Subtasks
+                            </Button>
+                          )}
                         </div>
                       </div>
+
+                      {subtasks.length === 0 && (
+                        <p className="text-sm text-muted-foreground p-3 bg-white rounded border">
+                          No subtasks yet, so this task stays at 0%. Add subtasks to track its progress.
+                        </p>
+                      )}
                       
-                      <div className="space-y-2">
-                        {subtasks.map((subtask) => (
-                          <div 
-                            key={subtask.id}
-                            className="flex flex-col p-3 bg-white rounded border hover:border-blue-300 hover:bg-blue-50 transition-colors cursor-pointer"
-                            onClick={() => toggleSubtask(task.id, subtask.id)}
-                          >
-                            <div className="flex items-center justify-between gap-3">
-                              <div className="flex items-center gap-3 flex-1">
-                                <Checkbox
-                                  id={`${task.id}-${subtask.id}`}
-                                  checked={completed[subtask.id] || false}
-                                  onCheckedChange={() => toggleSubtask(task.id, subtask.id)}
-                                  className="w-5 h-5 pointer-events-none"
-                                />
-                                <Label 
-                                  htmlFor={`${task.id}-${subtask.id}`}
-                                  className="cursor-pointer flex-1 pointer-events-none"
+                      {/* Subtasks nest under their task, edged in their state's color */}
+                      <div className="space-y-2 ml-4 border-l-2 border-slate-200 pl-4">
+                        {subtasks.map((subtask) => {
+                          const entry = entries[subtask.id]
+                          const state = subtaskStateOf(entry)
+                          const percent = subtaskPercent(entry)
+                          const overdue = isSubtaskOverdue(subtask, entry, currentDate)
+
+                          return (
+                            <div
+                              key={subtask.id}
+                              className="p-3 bg-white rounded border border-l-4"
+                              style={{ borderLeftColor: subtaskStateInfo[state].color }}
+                            >
+                              <div className="flex items-center justify-between gap-3">
+                                <button
+                                  type="button"
+                                  className={`flex-1 text-left text-sm ${state === 'done' ? 'line-through text-muted-foreground' : ''}`}
+                                  onClick={() => updateSubtask(task.id, subtask, { state: nextSubtaskState(state) })}
+                                  title={`Mark as ${subtaskStateInfo[nextSubtaskState(state)].label}`}
                                 >
                                   {subtask.label}
-                                </Label>
+                                </button>
+                                <div className="flex flex-wrap items-center justify-end gap-1">
+                                  {subtask.assignee && (
+                                    <Badge variant="outline" className="text-xs gap-1">
+                                      <User className="h-3 w-3" />
+                                      {subtask.assignee}
+                                    </Badge>
+                                  )}
+                                  {subtask.due && (
+                                    <Badge variant={overdue ? 'destructive' : 'outline'} className="text-xs gap-1">
+                                      <CalendarClock className="h-3 w-3" />
+                                      Due {formatDate(subtask.due)}
+                                    </Badge>
+                                  )}
+                                  <Badge variant="secondary" className="text-xs">
+                                    {Math.round(subtask.weight * 100)}% weight
+                                  </Badge>
+                                </div>
+                              </div>
+                              {subtask.description && (
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  {subtask.description}
+                                </p>
+                              )}
+                              <div className="flex items-center gap-2 mt-2">
+                                <div className="flex rounded-md border overflow-hidden">
+                                  {subtaskStateOrder.map(option => (
+                                    <button
+                                      key={option}
+                                      type="button"
+                                      className="px-2 py-0.5 text-xs transition-colors"
+                                      style={option === state
+                                        ? { backgroundColor: subtaskStateInfo[option].color, color: '#fff' }
+                                        : undefined}
+                                      onClick={() => option !== state && updateSubtask(task.id, subtask, { state: option })}
+                                    >
+                                      {subtaskStateInfo[option].label}
+                                    </button>
+                                  ))}
+                                </div>
+                                {state === 'doing' && (
+                                  <div className="flex items-center gap-1">
+                                    <Input
+                                      key={percent}
+                                      type="number"
+                                      min={0}
+                                      max={100}
+                                      defaultValue={percent}
+                                      onBlur={(e) => commitPercent(task.id, subtask, e.target.value)}
+                                      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+                                      className="h-7 w-16 text-xs text-right"
+                                      aria-label={`Percent complete of ${subtask.label}`}
+                                    />
+                                    <span className="text-xs text-muted-foreground">%</span>
+                                  </div>
+                                )}
+                                <Progress value={percent} className="h-1.5 flex-1" />
                               </div>
-                              <Badge variant="secondary" className="text-xs pointer-events-none">
-                                {Math.round(subtask.weight * 100)}% weight
-                              </Badge>
                             </div>
-                            {subtask.description && (
-                              <p className="text-xs text-muted-foreground mt-2 ml-11 pointer-events-none">
-                                {subtask.description}
-                              </p>
-                            )}
-                          </div>
-                        ))}
+                          )
+                        })}
                       </div>
 
                       <Progress value={taskProgress} className="h-3 mt-4" />
@@ -242,12 +342,23 @@ export function ProgressManager({
 
           {filteredTasks.length === 0 && (
             <div className="text-center py-12 text-muted-foreground">
-              <p>No tasks with subtasks found.</p>
-              <p className="text-sm mt-2">Tasks without subtasks are tracked at the task level.</p>
+              <p>No tasks match your search.</p>
             </div>
           )}
         </CardContent>
       </Card>
+
+      {editingSubtasksOf && (
+        <SubtaskEditorDialog
+          key={editingSubtasksOf.id}
+          open
+          onOpenChange={(open) => { if (!open) setEditingSubtasksOf(null) }}
+          taskLabel={editingSubtasksOf.label}
+          subtasks={subtaskDefinitions[editingSubtasksOf.id] || []}
+          assigneeSuggestions={assigneeSuggestions}
+          onSave={(next) => saveSubtasks(editingSubtasksOf, next)}
+        />
+      )}
     </div>
   )
 }
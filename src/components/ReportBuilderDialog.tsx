@@ -0,0 +1,257 @@
+import { useState } from 'react'
+import { FileBarChart, ArrowUp, ArrowDown, Save, Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Checkbox } from './ui/checkbox'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog'
+import { toast } from 'sonner@2.0.3'
+import type { Milestone, Owner } from '../utils/persistence'
+import { ownerColorMap } from '../utils/owners'
+import {
+  DEFAULT_REPORT_SECTIONS,
+  drawStatusReport,
+  loadReportPresets,
+  reportSectionLabels,
+  saveReportPresets,
+  type ReportPreset,
+  type ReportSection,
+} from '../utils/statusReport'
+
+interface Task {
+  id: string
+  label: string
+  start: string
+  end: string
+  owner: string
+}
+
+interface ReportBuilderDialogProps {
+  tasks: Task[]
+  progress: Record<string, number>
+  currentDate: string
+  milestones: Milestone[]
+  owners: Owner[]
+  version: string
+}
+
+const DEFAULT_PRESET = 'default'
+
+export function ReportBuilderDialog({ tasks, progress, currentDate, milestones, owners, version }: ReportBuilderDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [sections, setSections] = useState<ReportSection[]>(DEFAULT_REPORT_SECTIONS)
+  const [presets, setPresets] = useState<ReportPreset[]>(loadReportPresets)
+  const [selectedPreset, setSelectedPreset] = useState(DEFAULT_PRESET)
+  const [presetName, setPresetName] = useState('')
+
+  const updatePresets = (next: ReportPreset[]) => {
+    setPresets(next)
+    saveReportPresets(next)
+  }
+
+  const toggleSection = (index: number, enabled: boolean) => {
+    setSections(prev => prev.map((section, i) => (i === index ? { ...section, enabled } : section)))
+  }
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    setSections(prev => {
+      const target = index + direction
+      if (target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  const applyPreset = (presetId: string) => {
+    setSelectedPreset(presetId)
+    if (presetId === DEFAULT_PRESET) {
+      setSections(DEFAULT_REPORT_SECTIONS)
+      return
+    }
+    const preset = presets.find(p => p.id === presetId)
+    if (!preset) return
+    // Sections added after the preset was saved are appended, switched off
+    const known = new Set(preset.sections.map(section => section.id))
+    setSections([
+      ...preset.sections.filter(section => section.id in reportSectionLabels),
+      ...DEFAULT_REPORT_SECTIONS.filter(section => !known.has(section.id)).map(section => ({ ...section, enabled: false })),
+    ])
+    setPresetName(preset.name)
+  }
+
+  const savePreset = () => {
+    const name = presetName.trim()
+    if (!name) {
+      toast.error('Give the preset a name')
+      return
+    }
+    const existing = presets.find(p => p.name.toLowerCase() === name.toLowerCase())
+    const preset: ReportPreset = { id: existing?.id || `preset_${Date.now()}`, name, sections }
+    updatePresets(existing ? presets.map(p => (p.id === existing.id ? preset : p)) : [...presets, preset])
+    setSelectedPreset(preset.id)
+    toast.success(existing ? `Updated preset "${name}"` : `Saved preset "${name}"`)
+  }
+
+  const deletePreset = () => {
+    const preset = presets.find(p => p.id === selectedPreset)
+    if (!preset) return
+    updatePresets(presets.filter(p => p.id !== preset.id))
+    setSelectedPreset(DEFAULT_PRESET)
+    setPresetName('')
+    toast.success(`Deleted preset "${preset.name}"`)
+  }
+
+  const generateReport = async () => {
+    try {
+      const { default: jsPDF } = await import('jspdf')
+      const doc = new jsPDF('p', 'mm', 'a4')
+      drawStatusReport(doc, sections, {
+        title: `Brand Rebuild - Version ${version}`,
+        tasks,
+        progress,
+        currentDate,
+        milestones,
+        ownerColors: ownerColorMap(owners),
+      })
+      doc.save(`brand-rebuild-status-${currentDate}.pdf`)
+      toast.success('Status report exported', {
+        description: `${doc.getNumberOfPages()} page${doc.getNumberOfPages() !== 1 ? 's' : ''}`
+      })
+      setOpen(false)
+    } catch (error) {
+      console.error('Report export error:', error)
+      toast.error('Failed to generate report')
+    }
+  }
+
+  const enabledCount = sections.filter(section => section.enabled).length
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <FileBarChart className="h-4 w-4" />
+          Report
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Status Report</DialogTitle>
+          <DialogDescription>
+            Pick the sections for the PDF and put them in order. Save the layout as a preset to reuse it each week.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Preset</Label>
+            <div className="flex gap-2">
+              <Select value={selectedPreset} onValueChange={applyPreset}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_PRESET}>Default layout</SelectItem>
+                  {presets.map(preset => (
+                    <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={deletePreset}
+                disabled={selectedPreset === DEFAULT_PRESET}
+                title="Delete preset"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Sections</Label>
+            <div className="rounded-lg border divide-y">
+              {sections.map((section, index) => (
+                <div key={section.id} className="flex items-center gap-3 px-3 py-2">
+                  <Checkbox
+                    id={`report-section-${section.id}`}
+                    checked={section.enabled}
+                    onCheckedChange={(checked) => toggleSection(index, checked === true)}
+                  />
+                  <label htmlFor={`report-section-${section.id}`} className="flex-1 cursor-pointer">
+                    <div className={`text-sm ${section.enabled ? '' : 'text-muted-foreground'}`}>
+                      {reportSectionLabels[section.id].title}
+                    </div>
+                    <div className="text-xs text-muted-foreground">{reportSectionLabels[section.id].description}</div>
+                  </label>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => moveSection(index, -1)}
+                      disabled={index === 0}
+                      title="Move up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => moveSection(index, 1)}
+                      disabled={index === sections.length - 1}
+                      title="Move down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-preset-name">Save as preset</Label>
+            <div className="flex gap-2">
+              <Input
+                id="report-preset-name"
+                placeholder="e.g. Weekly leadership update"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+              />
+              <Button variant="outline" onClick={savePreset} className="gap-2">
+                <Save className="h-4 w-4" />
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={generateReport}
+            disabled={enabledCount === 0}
+            className="bg-gradient-to-r from-indigo-500 to-blue-500 text-white"
+          >
+            Generate PDF ({enabledCount} section{enabledCount !== 1 ? 's' : ''})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,216 @@
+import { useMemo, useState } from 'react'
+import { ArrowRight } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { formatDate, type DayUnit } from '../utils/dates'
+import type { ProjectCalendar } from '../utils/workCalendar'
+import type { Milestone, Scenario, ScenarioPlan } from '../utils/persistence'
+import { compareScenarios, formatShift, planTasks, scenarioPlan, type TaskChange } from '../utils/scenarios'
+
+interface ScenarioComparisonViewProps {
+  scenarios: Scenario[]
+  activeScenarioId: string
+  activePlan: ScenarioPlan
+  milestones: Milestone[]
+  calendar: ProjectCalendar
+  dayUnit: DayUnit
+}
+
+const changeBadges: Record<TaskChange['kind'], { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-emerald-600 text-white border-0' },
+  removed: { label: 'Removed', className: 'bg-slate-500 text-white border-0' },
+  changed: { label: 'Changed', className: 'bg-blue-600 text-white border-0' },
+}
+
+// Later is red, earlier is green
+const shiftColor = (days: number) => (days > 0 ? '#dc2626' : days < 0 ? '#16a34a' : '#64748b')
+
+export function ScenarioComparisonView({ scenarios, activeScenarioId, activePlan, milestones, calendar, dayUnit }: ScenarioComparisonViewProps) {
+  const [leftId, setLeftId] = useState(activeScenarioId)
+  const [rightId, setRightId] = useState(() => scenarios.find(s => s.id !== activeScenarioId)?.id || activeScenarioId)
+  // Fall back when a chosen scenario has been deleted
+  const left = scenarios.find(s => s.id === leftId) || scenarios[0]
+  const right = scenarios.find(s => s.id === rightId) || scenarios[0]
+
+  const comparison = useMemo(() => {
+    const state = { ...activePlan, scenarios, activeScenarioId }
+    const planA = scenarioPlan(state, left.id)
+    const planB = scenarioPlan(state, right.id)
+    if (!planA || !planB) return null
+    return compareScenarios(planTasks(planA), planTasks(planB), milestones, dayUnit, calendar)
+  }, [activePlan, scenarios, activeScenarioId, left, right, milestones, dayUnit, calendar])
+
+  const shift = (days: number) => (
+    <span style={{ color: shiftColor(days) }} className={days !== 0 ? 'font-medium' : undefined}>
+      {formatShift(days, dayUnit)}
+    </span>
+  )
+
+  const scenarioSelect = (value: string, onChange: (id: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[260px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {scenarios.map(s => (
+          <SelectItem key={s.id} value={s.id}>
+            {s.id}: {s.name}{s.id === activeScenarioId ? ' (active)' : ''}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  if (scenarios.length < 2) {
+    return (
+      <Card className="p-8 text-center text-muted-foreground bg-white/80 backdrop-blur shadow-lg border-0">
+        Only one scenario exists. Copy it from the Scenarios dialog to compare alternatives.
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4 bg-white/80 backdrop-blur shadow-lg border-0">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm text-muted-foreground">Compare</span>
+          {scenarioSelect(left.id, setLeftId)}
+          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+          {scenarioSelect(right.id, setRightId)}
+        </div>
+      </Card>
+
+      {comparison && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card className="bg-white/80 backdrop-blur shadow-lg border-0">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm text-muted-foreground">Project End</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                <p className="text-sm">{left.id}: {formatDate(comparison.endA)}</p>
+                <p className="text-sm">{right.id}: {formatDate(comparison.endB)}</p>
+                <p className="text-sm">{shift(comparison.endShift)}</p>
+              </CardContent>
+            </Card>
+            <Card className="bg-white/80 backdrop-blur shadow-lg border-0">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm text-muted-foreground">Tasks</CardTitle>
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-2">
+                {(['changed', 'added', 'removed'] as const).map(kind => (
+                  <Badge key={kind} className={changeBadges[kind].className}>
+                    {comparison.changes.filter(change => change.kind === kind).length} {changeBadges[kind].label.toLowerCase()}
+                  </Badge>
+                ))}
+                <Badge variant="secondary">{comparison.unchangedCount} unchanged</Badge>
+              </CardContent>
+            </Card>
+            <Card className="bg-white/80 backdrop-blur shadow-lg border-0">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm text-muted-foreground">Milestones Affected</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl">
+                  {comparison.milestones.filter(impact => impact.slipsPast.length > 0 || impact.pulledIn.length > 0).length}
+                  <span className="text-sm text-muted-foreground"> of {comparison.milestones.length}</span>
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="bg-white/80 backdrop-blur shadow-lg border-0">
+            <CardHeader>
+              <CardTitle className="bg-gradient-to-r from-purple-600 to-indigo-600 bg-clip-text text-transparent">
+                Milestone Impact
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead className="text-left text-muted-foreground border-b">
+                  <tr>
+                    <th className="px-2 py-2 font-normal">Milestone</th>
+                    <th className="px-2 py-2 font-normal">Tasks done by then ({left.id} → {right.id})</th>
+                    <th className="px-2 py-2 font-normal">Now finishing after it</th>
+                    <th className="px-2 py-2 font-normal">Now finishing before it</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {comparison.milestones.map(({ milestone, dueA, dueB, slipsPast, pulledIn }) => (
+                    <tr key={`${milestone.date}|${milestone.label}`}>
+                      <td className="px-2 py-2">
+                        <span className="font-medium">{milestone.label}</span>
+                        <span className="block text-xs text-muted-foreground">{formatDate(milestone.date)}</span>
+                      </td>
+                      <td className="px-2 py-2">
+                        {dueA} → {dueB}
+                      </td>
+                      <td className="px-2 py-2 text-red-600">
+                        {slipsPast.map(task => task.label).join(', ') || <span className="text-muted-foreground">None</span>}
+                      </td>
+                      <td className="px-2 py-2 text-green-700">
+                        {pulledIn.map(task => task.label).join(', ') || <span className="text-muted-foreground">None</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-white/80 backdrop-blur shadow-lg border-0">
+            <CardHeader>
+              <CardTitle className="bg-gradient-to-r from-slate-700 to-slate-500 bg-clip-text text-transparent">
+                Task Differences
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {comparison.changes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Both scenarios have the same tasks and dates</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="text-left text-muted-foreground border-b">
+                    <tr>
+                      <th className="px-2 py-2 font-normal">Change</th>
+                      <th className="px-2 py-2 font-normal">Task</th>
+                      <th className="px-2 py-2 font-normal">{left.id}</th>
+                      <th className="px-2 py-2 font-normal">{right.id}</th>
+                      <th className="px-2 py-2 font-normal">Start</th>
+                      <th className="px-2 py-2 font-normal">End</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {comparison.changes.map(change => (
+                      <tr key={change.id}>
+                        <td className="px-2 py-2">
+                          <Badge className={changeBadges[change.kind].className}>{changeBadges[change.kind].label}</Badge>
+                        </td>
+                        <td className="px-2 py-2">
+                          {change.label}
+                          {change.changedFields.length > 0 && (
+                            <span className="block text-xs text-muted-foreground">
+                              {change.changedFields.map(field => `${field}: ${change.a?.[field]} → ${change.b?.[field]}`).join(' • ')}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-2 py-2 text-muted-foreground whitespace-nowrap">
+                          {change.a ? `${formatDate(change.a.start)} – ${formatDate(change.a.end)}` : '—'}
+                        </td>
+                        <td className="px-2 py-2 whitespace-nowrap">
+                          {change.b ? `${formatDate(change.b.start)} – ${formatDate(change.b.end)}` : '—'}
+                        </td>
+                        <td className="px-2 py-2 whitespace-nowrap">{change.kind === 'changed' ? shift(change.startShift) : '—'}</td>
+                        <td className="px-2 py-2 whitespace-nowrap">{change.kind === 'changed' ? shift(change.endShift) : '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+import { useState } from 'react'
+import { Copy, X } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { toast } from 'sonner@2.0.3'
+import type { Scenario, ScenarioPlan } from '../utils/persistence'
+import { newScenarioId, planTasks, scenarioPlan } from '../utils/scenarios'
+
+interface ScenarioManagerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  scenarios: Scenario[]
+  activeScenarioId: string
+  activePlan: ScenarioPlan
+  onScenariosChange: (scenarios: Scenario[], description: string) => void
+  onSwitchScenario: (scenarioId: string) => void
+}
+
+export function ScenarioManagerDialog({ open, onOpenChange, scenarios, activeScenarioId, activePlan, onScenariosChange, onSwitchScenario }: ScenarioManagerDialogProps) {
+  const [newName, setNewName] = useState('')
+  const [copyFrom, setCopyFrom] = useState(activeScenarioId)
+  // The scenario to copy may have been deleted since
+  const source = scenarios.some(s => s.id === copyFrom) ? copyFrom : activeScenarioId
+  const state = { ...activePlan, scenarios, activeScenarioId }
+
+  const update = (scenario: Scenario, changes: Partial<Pick<Scenario, 'name' | 'description'>>, description: string) => {
+    onScenariosChange(scenarios.map(s => (s.id === scenario.id ? { ...s, ...changes } : s)), description)
+  }
+
+  const rename = (scenario: Scenario, value: string) => {
+    const name = value.trim()
+    if (!name || name === scenario.name) return
+    update(scenario, { name }, `Rename scenario ${scenario.id} to "${name}"`)
+  }
+
+  const describe = (scenario: Scenario, value: string) => {
+    const text = value.trim()
+    if (text === scenario.description) return
+    update(scenario, { description: text }, `Describe scenario ${scenario.id}`)
+  }
+
+  const create = () => {
+    const name = newName.trim()
+    if (!name) {
+      toast.error('Enter a name for the scenario')
+      return
+    }
+    const plan = scenarioPlan(state, source)
+    if (!plan) return
+    const id = newScenarioId(scenarios)
+    const original = scenarios.find(s => s.id === source)
+    onScenariosChange(
+      [...scenarios, { id, name, description: original ? `Copied from ${original.id}: ${original.name}` : '', plan }],
+      `Create scenario ${id}: ${name}`
+    )
+    setNewName('')
+    toast.success(`Created scenario ${id}. Switch to it to start editing.`)
+  }
+
+  const remove = (scenario: Scenario) => {
+    onScenariosChange(scenarios.filter(s => s.id !== scenario.id), `Delete scenario ${scenario.id}: ${scenario.name}`)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[680px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scenarios</DialogTitle>
+          <DialogDescription>
+            Each scenario keeps its own tracks, date edits, custom tasks and deletions. Subtasks, progress, milestones, phases and the calendar are shared.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="rounded-lg border divide-y">
+            {scenarios.map(scenario => {
+              const isActive = scenario.id === activeScenarioId
+              const plan = scenarioPlan(state, scenario.id)
+              return (
+                <div key={scenario.id} className="flex items-start gap-3 p-3">
+                  <Badge variant={isActive ? 'default' : 'secondary'} className="mt-1.5 w-8 justify-center">{scenario.id}</Badge>
+                  <div className="flex-1 space-y-1">
+                    <Input
+                      key={scenario.name}
+                      defaultValue={scenario.name}
+                      onBlur={(e) => rename(scenario, e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+                      className="h-8"
+                      aria-label={`Name of scenario ${scenario.id}`}
+                    />
+                    <Input
+                      key={scenario.description}
+                      defaultValue={scenario.description}
+                      placeholder="Description (optional)"
+                      onBlur={(e) => describe(scenario, e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+                      className="h-8 text-xs"
+                      aria-label={`Description of scenario ${scenario.id}`}
+                    />
+                    <p className="text-xs text-muted-foreground">{plan ? planTasks(plan).length : 0} tasks</p>
+                  </div>
+                  {isActive ? (
+                    <Badge variant="outline" className="mt-1.5">Active</Badge>
+                  ) : (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => onSwitchScenario(scenario.id)}>
+                        Switch
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => remove(scenario)}
+                        title="Delete scenario"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="grid grid-cols-[1.5fr_1fr_auto] gap-2 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="scenario-name" className="text-xs">New scenario</Label>
+              <Input
+                id="scenario-name"
+                placeholder="e.g. Delayed tradeshow"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') create() }}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Starting from</Label>
+              <Select value={source} onValueChange={setCopyFrom}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {scenarios.map(s => (
+                    <SelectItem key={s.id} value={s.id}>{s.id}: {s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={create} className="gap-1">
+              <Copy className="h-4 w-4" />
+              Copy
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex justify-end pt-4 border-t">
+          <Button onClick={() => onOpenChange(false)}>
+            Done
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,282 @@
+import { useState } from 'react'
+import { ArrowDown, ArrowUp, Plus, Scale, Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import type { SubtaskDefinition } from '../utils/persistence'
+import {
+  evenSubtaskWeights,
+  newSubtaskId,
+  normalizeSubtaskWeights,
+  subtaskWeightTotal,
+  validateSubtasks,
+  WEIGHT_TOLERANCE,
+} from '../utils/subtasks'
+
+interface SubtaskEditorDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  taskLabel: string
+  subtasks: SubtaskDefinition[]
+  assigneeSuggestions?: string[]
+  onSave: (subtasks: SubtaskDefinition[]) => void
+}
+
+// Weights are edited as percentages and stored as fractions
+interface DraftRow {
+  id: string
+  label: string
+  description: string
+  percent: string
+  due: string
+  assignee: string
+}
+
+const toRows = (subtasks: SubtaskDefinition[]): DraftRow[] =>
+  subtasks.map(subtask => ({
+    id: subtask.id,
+    label: subtask.label,
+    description: subtask.description,
+    percent: String(Math.round(subtask.weight * 1000) / 10),
+    due: subtask.due || '',
+    assignee: subtask.assignee || '',
+  }))
+
+export function SubtaskEditorDialog({ open, onOpenChange, taskLabel, subtasks, assigneeSuggestions = [], onSave }: SubtaskEditorDialogProps) {
+  const [rows, setRows] = useState<DraftRow[]>(() => toRows(subtasks))
+  const [newLabel, setNewLabel] = useState('')
+
+  // New rows get their id on save, so renaming a fresh row still yields a readable id
+  const toSubtasks = (draft: DraftRow[]): SubtaskDefinition[] =>
+    draft.map(row => {
+      const subtask: SubtaskDefinition = {
+        id: row.id,
+        label: row.label.trim(),
+        description: row.description.trim(),
+        weight: (parseFloat(row.percent) || 0) / 100,
+      }
+      // Optional fields are left out rather than stored empty
+      if (row.due) subtask.due = row.due
+      if (row.assignee.trim()) subtask.assignee = row.assignee.trim()
+      return subtask
+    })
+
+  const draftSubtasks = toSubtasks(rows)
+  const total = subtaskWeightTotal(draftSubtasks)
+  const errors = validateSubtasks(draftSubtasks)
+
+  const updateRow = (index: number, changes: Partial<DraftRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  const moveRow = (index: number, direction: -1 | 1) => {
+    setRows(prev => {
+      const target = index + direction
+      if (target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  const addRow = () => {
+    const label = newLabel.trim()
+    if (!label) return
+    // The new subtask takes what is left of 100%, if anything
+    const remaining = Math.max(0, Math.round((1 - total) * 1000) / 10)
+    setRows(prev => [...prev, { id: '', label, description: '', percent: String(remaining), due: '', assignee: '' }])
+    setNewLabel('')
+  }
+
+  const rebalance = (weigh: (subtasks: SubtaskDefinition[]) => SubtaskDefinition[]) => {
+    const weighted = weigh(draftSubtasks)
+    setRows(prev => prev.map((row, i) => ({ ...row, percent: String(Math.round(weighted[i].weight * 1000) / 10) })))
+  }
+
+  const save = () => {
+    const ids: string[] = rows.filter(row => row.id).map(row => row.id)
+    const withIds = rows.map(row => {
+      if (row.id) return row
+      const id = newSubtaskId(row.label, ids)
+      ids.push(id)
+      return { ...row, id }
+    })
+    // Percentages rounded for display still sum to exactly 100%
+    onSave(normalizeSubtaskWeights(toSubtasks(withIds)))
+  }
+
+  const totalOk = rows.length === 0 || Math.abs(total - 1) <= WEIGHT_TOLERANCE
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Subtasks</DialogTitle>
+          <DialogDescription>
+            {taskLabel} • the task's progress is the weighted sum of its subtasks' progress, so weights must add up to 100%. Due dates and assignees are optional.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="rounded-lg border divide-y">
+            {rows.length === 0 && (
+              <p className="p-3 text-sm text-muted-foreground">
+                No subtasks. Without any the task stays at 0% progress.
+              </p>
+            )}
+            {rows.map((row, index) => (
+              <div key={row.id || `new-${index}`} className="flex items-start gap-2 p-2">
+                <div className="flex-1 space-y-1">
+                  <Input
+                    value={row.label}
+                    placeholder="Subtask name"
+                    onChange={(e) => updateRow(index, { label: e.target.value })}
+                  />
+                  <Input
+                    value={row.description}
+                    placeholder="Description (optional)"
+                    onChange={(e) => updateRow(index, { description: e.target.value })}
+                    className="text-xs h-8"
+                  />
+                  <div className="flex gap-1">
+                    <Input
+                      type="date"
+                      value={row.due}
+                      onChange={(e) => updateRow(index, { due: e.target.value })}
+                      className="text-xs h-8"
+                      aria-label={`Due date of ${row.label || 'subtask'}`}
+                    />
+                    <Input
+                      value={row.assignee}
+                      placeholder="Assignee (optional)"
+                      list="subtask-assignees"
+                      onChange={(e) => updateRow(index, { assignee: e.target.value })}
+                      className="text-xs h-8"
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 w-24">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={1}
+                    value={row.percent}
+                    onChange={(e) => updateRow(index, { percent: e.target.value })}
+                    className="text-right"
+                    aria-label={`Weight of ${row.label || 'subtask'}`}
+                  />
+                  <span className="text-sm text-muted-foreground">%</span>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => moveRow(index, -1)}
+                    disabled={index === 0}
+                    title="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => moveRow(index, 1)}
+                    disabled={index === rows.length - 1}
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-red-600"
+                    onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                    title="Delete subtask"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <datalist id="subtask-assignees">
+            {assigneeSuggestions.map(name => <option key={name} value={name} />)}
+          </datalist>
+
+          <div className="flex gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="new-subtask-label" className="text-xs">Add subtask</Label>
+              <Input
+                id="new-subtask-label"
+                placeholder="e.g. Stakeholder review"
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') addRow() }}
+              />
+            </div>
+            <Button variant="outline" onClick={addRow} disabled={!newLabel.trim()} className="gap-1 self-end">
+              <Plus className="h-4 w-4" />
+              Add
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-slate-50 p-3">
+            <div className="flex items-center gap-2 text-sm">
+              Total weight:
+              <Badge variant={totalOk ? 'secondary' : 'destructive'}>
+                {Math.round(total * 1000) / 10}%
+              </Badge>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => rebalance(evenSubtaskWeights)}
+                disabled={rows.length === 0}
+              >
+                Split evenly
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => rebalance(normalizeSubtaskWeights)}
+                disabled={rows.length === 0 || totalOk}
+                className="gap-1"
+              >
+                <Scale className="h-4 w-4" />
+                Scale to 100%
+              </Button>
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-red-600 list-disc pl-5 space-y-0.5">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={errors.length > 0}>
+            Save Subtasks
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
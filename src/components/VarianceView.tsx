@@ -0,0 +1,174 @@
+import { useMemo } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Layers } from 'lucide-react'
+import { formatDate, type DayUnit } from '../utils/dates'
+import type { ProjectCalendar } from '../utils/workCalendar'
+import type { Baseline } from '../utils/persistence'
+import { buildVarianceReport, formatSlip, slipColor } from '../utils/baselines'
+
+interface Task {
+  id: string
+  label: string
+  start: string
+  end: string
+  owner: string
+}
+
+interface VarianceViewProps {
+  tasks: Task[]
+  baselines: Baseline[]
+  activeBaselineId: string | null
+  onActiveBaselineChange: (baselineId: string | null) => void
+  onManageBaselines: () => void
+  calendar: ProjectCalendar
+  dayUnit: DayUnit
+}
+
+export function VarianceView({ tasks, baselines, activeBaselineId, onActiveBaselineChange, onManageBaselines, calendar, dayUnit }: VarianceViewProps) {
+  const baseline = baselines.find(b => b.id === activeBaselineId)
+  const report = useMemo(
+    () => (baseline ? buildVarianceReport(tasks, baseline, dayUnit, calendar) : null),
+    [tasks, baseline, dayUnit, calendar]
+  )
+
+  // Slip in the report's unit, colored late/early
+  const slip = (days: number) => (
+    <span style={{ color: slipColor(days) }} className={days !== 0 ? 'font-medium' : undefined}>
+      {formatSlip(days, dayUnit)}
+    </span>
+  )
+
+  if (baselines.length === 0) {
+    return (
+      <Card className="p-8 text-center bg-white/80 backdrop-blur shadow-lg border-0 space-y-4">
+        <p className="text-muted-foreground">
+          No baselines yet. Save one to keep today's dates and track how far tasks slip from them.
+        </p>
+        <Button onClick={onManageBaselines} className="gap-2">
+          <Layers className="h-4 w-4" />
+          Manage Baselines
+        </Button>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4 bg-white/80 backdrop-blur shadow-lg border-0">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm text-muted-foreground">Compare against</span>
+          <Select value={activeBaselineId || 'none'} onValueChange={(value) => onActiveBaselineChange(value === 'none' ? null : value)}>
+            <SelectTrigger className="w-[240px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">
+                <span className="text-muted-foreground">No baseline</span>
+              </SelectItem>
+              {baselines.map(b => (
+                <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={onManageBaselines} className="gap-2 ml-auto">
+            <Layers className="h-4 w-4" />
+            Manage Baselines
+          </Button>
+        </div>
+      </Card>
+
+      {!report ? (
+        <Card className="p-8 text-center text-muted-foreground bg-white/80 backdrop-blur shadow-lg border-0">
+          Choose a baseline to see schedule variance.
+        </Card>
+      ) : (
+        <>
+          <Card className="bg-white/80 backdrop-blur shadow-lg border-0">
+            <CardHeader>
+              <CardTitle className="bg-gradient-to-r from-rose-600 to-orange-600 bg-clip-text text-transparent">
+                Slip by Owner
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead className="text-left text-muted-foreground border-b">
+                  <tr>
+                    <th className="px-2 py-2 font-normal">Owner</th>
+                    <th className="px-2 py-2 font-normal">Tasks</th>
+                    <th className="px-2 py-2 font-normal">Finishing Late</th>
+                    <th className="px-2 py-2 font-normal">Avg Start Slip</th>
+                    <th className="px-2 py-2 font-normal">Avg Finish Slip</th>
+                    <th className="px-2 py-2 font-normal">Worst Finish Slip</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {report.owners.map(owner => (
+                    <tr key={owner.owner}>
+                      <td className="px-2 py-2 font-medium">{owner.owner}</td>
+                      <td className="px-2 py-2">{owner.taskCount}</td>
+                      <td className="px-2 py-2">{owner.lateCount}</td>
+                      <td className="px-2 py-2">{slip(owner.averageStartSlip)}</td>
+                      <td className="px-2 py-2">{slip(owner.averageFinishSlip)}</td>
+                      <td className="px-2 py-2">{slip(owner.worstFinishSlip)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-white/80 backdrop-blur shadow-lg border-0">
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <CardTitle className="bg-gradient-to-r from-slate-700 to-slate-500 bg-clip-text text-transparent">
+                  Slip by Task
+                </CardTitle>
+                <div className="flex gap-2">
+                  {report.added.length > 0 && (
+                    <Badge variant="secondary">{report.added.length} added since baseline</Badge>
+                  )}
+                  {report.removedCount > 0 && (
+                    <Badge variant="secondary">{report.removedCount} removed since baseline</Badge>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead className="text-left text-muted-foreground border-b">
+                  <tr>
+                    <th className="px-2 py-2 font-normal">Task</th>
+                    <th className="px-2 py-2 font-normal">Owner</th>
+                    <th className="px-2 py-2 font-normal">Baseline</th>
+                    <th className="px-2 py-2 font-normal">Current</th>
+                    <th className="px-2 py-2 font-normal">Start Slip</th>
+                    <th className="px-2 py-2 font-normal">Finish Slip</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {report.tasks.map(({ task, baseline: planned, startSlip, finishSlip }) => (
+                    <tr key={task.id}>
+                      <td className="px-2 py-2">{task.label}</td>
+                      <td className="px-2 py-2 text-muted-foreground">{task.owner}</td>
+                      <td className="px-2 py-2 text-muted-foreground whitespace-nowrap">
+                        {formatDate(planned.start)} – {formatDate(planned.end)}
+                      </td>
+                      <td className="px-2 py-2 whitespace-nowrap">
+                        {formatDate(task.start)} – {formatDate(task.end)}
+                      </td>
+                      <td className="px-2 py-2 whitespace-nowrap">{slip(startSlip)}</td>
+                      <td className="px-2 py-2 whitespace-nowrap">{slip(finishSlip)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
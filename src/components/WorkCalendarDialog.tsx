@@ -0,0 +1,263 @@
+import { useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { RadioGroup, RadioGroupItem } from './ui/radio-group'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { toast } from 'sonner@2.0.3'
+import { addDays, formatDate as formatPlainDate, weekdayOf, type DayUnit } from '../utils/dates'
+import { weekdayLabels, type ProjectCalendar } from '../utils/workCalendar'
+
+interface WorkCalendarDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  calendar: ProjectCalendar
+  onCalendarChange: (calendar: ProjectCalendar, description: string) => void
+  dayUnit: DayUnit
+  onDayUnitChange: (unit: DayUnit) => void
+  owners: string[]
+}
+
+const formatDate = (s: string) =>
+  formatPlainDate(s, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' }, 'en-US')
+
+export function WorkCalendarDialog({
+  open,
+  onOpenChange,
+  calendar,
+  onCalendarChange,
+  dayUnit,
+  onDayUnitChange,
+  owners,
+}: WorkCalendarDialogProps) {
+  const [holidayStart, setHolidayStart] = useState('')
+  const [holidayEnd, setHolidayEnd] = useState('')
+  const [holidayLabel, setHolidayLabel] = useState('')
+  const [exceptionOwner, setExceptionOwner] = useState(owners[0] || '')
+  const [exceptionDate, setExceptionDate] = useState('')
+  const [exceptionWorking, setExceptionWorking] = useState(false)
+  const [exceptionLabel, setExceptionLabel] = useState('')
+
+  const toggleWeekday = (day: number) => {
+    const working = calendar.workingWeekdays.includes(day)
+    if (working && calendar.workingWeekdays.length === 1) {
+      toast.error('At least one weekday has to be a working day')
+      return
+    }
+    const workingWeekdays = working
+      ? calendar.workingWeekdays.filter(d => d !== day)
+      : [...calendar.workingWeekdays, day].sort()
+    onCalendarChange({ ...calendar, workingWeekdays }, `${working ? 'Stop working' : 'Work'} on ${weekdayLabels[day]}`)
+  }
+
+  // A range adds one holiday per working weekday in it
+  const addHoliday = () => {
+    const label = holidayLabel.trim()
+    if (!holidayStart || !label) {
+      toast.error('Enter a date and a name for the holiday')
+      return
+    }
+    const end = holidayEnd && holidayEnd > holidayStart ? holidayEnd : holidayStart
+    const dates: string[] = []
+    for (let date = holidayStart; date <= end; date = addDays(date, 1)) {
+      if (date === holidayStart || calendar.workingWeekdays.includes(weekdayOf(date))) dates.push(date)
+    }
+    const existing = new Set(calendar.holidays.map(h => h.date))
+    const added = dates.filter(date => !existing.has(date)).map(date => ({ date, label }))
+    if (added.length === 0) {
+      toast.info('Those dates are already holidays')
+      return
+    }
+    onCalendarChange(
+      { ...calendar, holidays: [...calendar.holidays, ...added].sort((a, b) => a.date.localeCompare(b.date)) },
+      `Add holiday "${label}"`
+    )
+    setHolidayStart('')
+    setHolidayEnd('')
+    setHolidayLabel('')
+  }
+
+  const removeHoliday = (date: string) => {
+    const holiday = calendar.holidays.find(h => h.date === date)
+    onCalendarChange(
+      { ...calendar, holidays: calendar.holidays.filter(h => h.date !== date) },
+      `Remove holiday "${holiday?.label}" (${date})`
+    )
+  }
+
+  const addException = () => {
+    if (!exceptionOwner || !exceptionDate) {
+      toast.error('Pick an owner and a date')
+      return
+    }
+    const ownerExceptions = [
+      ...calendar.ownerExceptions.filter(e => !(e.owner === exceptionOwner && e.date === exceptionDate)),
+      { owner: exceptionOwner, date: exceptionDate, working: exceptionWorking, label: exceptionLabel.trim() },
+    ].sort((a, b) => a.date.localeCompare(b.date))
+    onCalendarChange(
+      { ...calendar, ownerExceptions },
+      `Add ${exceptionWorking ? 'working day' : 'day off'} for ${exceptionOwner}`
+    )
+    setExceptionDate('')
+    setExceptionLabel('')
+  }
+
+  const removeException = (owner: string, date: string) => {
+    onCalendarChange(
+      { ...calendar, ownerExceptions: calendar.ownerExceptions.filter(e => !(e.owner === owner && e.date === date)) },
+      `Remove ${owner} exception (${date})`
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Working Calendar</DialogTitle>
+          <DialogDescription>
+            Working weekdays, company holidays and per-owner exceptions used for durations and countdowns.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-2">
+            <Label>Count durations and countdowns in</Label>
+            <RadioGroup value={dayUnit} onValueChange={(value) => onDayUnitChange(value as DayUnit)} className="flex gap-6">
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="calendar" id="day-unit-calendar" />
+                <Label htmlFor="day-unit-calendar" className="font-normal">Calendar days</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="working" id="day-unit-working" />
+                <Label htmlFor="day-unit-working" className="font-normal">Working days</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Working week</Label>
+            <div className="flex gap-1">
+              {weekdayLabels.map((label, day) => (
+                <Button
+                  key={label}
+                  size="sm"
+                  variant={calendar.workingWeekdays.includes(day) ? 'default' : 'outline'}
+                  onClick={() => toggleWeekday(day)}
+                  className="w-14"
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Holidays</Label>
+            <div className="max-h-48 overflow-y-auto rounded-lg border divide-y">
+              {calendar.holidays.length === 0 && (
+                <p className="p-3 text-sm text-muted-foreground">No holidays</p>
+              )}
+              {calendar.holidays.map(holiday => (
+                <div key={holiday.date} className="flex items-center justify-between px-3 py-1.5 text-sm">
+                  <span>
+                    <span className="text-muted-foreground w-36 inline-block">{formatDate(holiday.date)}</span>
+                    {holiday.label}
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeHoliday(holiday.date)} title="Remove holiday">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-[1fr_1fr_1.5fr_auto] gap-2 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="holiday-start" className="text-xs">From</Label>
+                <Input id="holiday-start" type="date" value={holidayStart} onChange={(e) => setHolidayStart(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="holiday-end" className="text-xs">To (optional)</Label>
+                <Input id="holiday-end" type="date" value={holidayEnd} min={holidayStart} onChange={(e) => setHolidayEnd(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="holiday-label" className="text-xs">Name</Label>
+                <Input id="holiday-label" placeholder="e.g. Company offsite" value={holidayLabel} onChange={(e) => setHolidayLabel(e.target.value)} />
+              </div>
+              <Button variant="outline" onClick={addHoliday} className="gap-1">
+                <Plus className="h-4 w-4" />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Owner exceptions</Label>
+            <div className="max-h-40 overflow-y-auto rounded-lg border divide-y">
+              {calendar.ownerExceptions.length === 0 && (
+                <p className="p-3 text-sm text-muted-foreground">No exceptions; every owner follows the calendar above</p>
+              )}
+              {calendar.ownerExceptions.map(exception => (
+                <div key={`${exception.owner}|${exception.date}`} className="flex items-center justify-between px-3 py-1.5 text-sm">
+                  <span>
+                    <span className="text-muted-foreground w-36 inline-block">{formatDate(exception.date)}</span>
+                    {exception.owner}: {exception.working ? 'working day' : 'day off'}
+                    {exception.label && <span className="text-muted-foreground"> • {exception.label}</span>}
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeException(exception.owner, exception.date)} title="Remove exception">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 items-end">
+              <div className="space-y-1">
+                <Label className="text-xs">Owner</Label>
+                <Select value={exceptionOwner} onValueChange={setExceptionOwner}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Owner" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {owners.map(owner => (
+                      <SelectItem key={owner} value={owner}>{owner}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="exception-date" className="text-xs">Date</Label>
+                <Input id="exception-date" type="date" value={exceptionDate} onChange={(e) => setExceptionDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Type</Label>
+                <Select value={exceptionWorking ? 'working' : 'off'} onValueChange={(value) => setExceptionWorking(value === 'working')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="off">Day off</SelectItem>
+                    <SelectItem value="working">Working day</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="exception-label" className="text-xs">Note</Label>
+                <Input id="exception-label" placeholder="Optional" value={exceptionLabel} onChange={(e) => setExceptionLabel(e.target.value)} />
+              </div>
+              <Button variant="outline" onClick={addException} className="gap-1">
+                <Plus className="h-4 w-4" />
+                Add
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end pt-4 border-t">
+          <Button onClick={() => onOpenChange(false)}>
+            Done
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,293 @@
+import { useMemo, useState } from 'react'
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, ReferenceLine } from 'recharts'
+import { AlertTriangle, GanttChartSquare, Scale } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { LevelingDialog } from './LevelingDialog'
+import { addDays, formatDate } from '../utils/dates'
+import type { TaskDependency } from '../utils/dependencies'
+import type { TaskSchedule } from '../utils/criticalPath'
+import type { ProjectCalendar } from '../utils/workCalendar'
+import type { Owner, SubtaskDefinition } from '../utils/persistence'
+import type { LevelingMove } from '../utils/leveling'
+import { buildWorkload, type GanttFocus } from '../utils/workload'
+
+interface Task {
+  id: string
+  label: string
+  start: string
+  end: string
+  owner: string
+  assignees?: string[]
+  dependencies?: TaskDependency[]
+}
+
+interface WorkloadViewProps {
+  tasks: Task[]
+  subtaskDefinitions: Record<string, SubtaskDefinition[]>
+  owners: Owner[]
+  range: { start: string; end: string }
+  calendar: ProjectCalendar
+  capacity: number
+  onCapacityChange: (capacity: number) => void
+  onShowInGantt: (focus: GanttFocus) => void
+  criticalPath: Record<string, TaskSchedule>
+  criticalPathTarget: string
+  onApplyLeveling: (moves: LevelingMove[]) => void
+}
+
+// Segment colors for the tasks stacked in one person's weeks
+const segmentColors = ['#6366f1', '#f59e0b', '#10b981', '#ec4899', '#06b6d4', '#8b5cf6', '#84cc16', '#f97316', '#14b8a6', '#e11d48']
+
+const weekLabel = (week: string) => formatDate(week, { month: 'short', day: 'numeric' })
+
+// Heat map shade for a week's load against capacity
+const loadColor = (percent: number, capacity: number) => {
+  if (percent === 0) return '#f1f5f9'
+  if (percent > capacity) return percent > capacity * 1.5 ? '#b91c1c' : '#ef4444'
+  return percent > capacity * 0.75 ? '#16a34a' : percent > capacity * 0.4 ? '#4ade80' : '#bbf7d0'
+}
+
+export function WorkloadView({ tasks, subtaskDefinitions, owners, range, calendar, capacity, onCapacityChange, onShowInGantt, criticalPath, criticalPathTarget, onApplyLeveling }: WorkloadViewProps) {
+  const [team, setTeam] = useState('all')
+  const [isLevelingOpen, setIsLevelingOpen] = useState(false)
+  const [selectedPerson, setSelectedPerson] = useState<string | null>(null)
+  const [selectedWeek, setSelectedWeek] = useState<number | null>(null)
+
+  const workload = useMemo(
+    () => buildWorkload(tasks, subtaskDefinitions, owners, range, calendar, capacity),
+    [tasks, subtaskDefinitions, owners, range, calendar, capacity]
+  )
+  const people = workload.people.filter(p => team === 'all' || (team === 'none' ? !p.team : p.team === team))
+  const person = people.find(p => p.person === selectedPerson) || people[0]
+  const week = person && selectedWeek !== null ? person.weeks[selectedWeek] : undefined
+
+  // One row per week, one stacked key per task the person works on
+  const chart = useMemo(() => {
+    if (!person) return { data: [], taskKeys: [] as Array<{ taskId: string; label: string }> }
+    const taskKeys = new Map<string, string>()
+    const data = workload.weeks.map((start, i) => {
+      const row: Record<string, string | number> = { week: weekLabel(start), index: i }
+      person.weeks[i].allocations.forEach(allocation => {
+        taskKeys.set(allocation.taskId, allocation.label)
+        row[allocation.taskId] = allocation.percent
+      })
+      return row
+    })
+    return { data, taskKeys: Array.from(taskKeys, ([taskId, label]) => ({ taskId, label })) }
+  }, [person, workload.weeks])
+
+  const selectCell = (name: string, index: number) => {
+    setSelectedPerson(name)
+    setSelectedWeek(index)
+  }
+
+  const showWeekInGantt = () => {
+    if (!person || !week || selectedWeek === null) return
+    const start = workload.weeks[selectedWeek]
+    onShowInGantt({
+      taskIds: week.allocations.map(a => a.taskId),
+      label: `${person.person}, week of ${formatDate(start)} (${week.percent}%)`,
+      start,
+      end: addDays(start, 6),
+    })
+  }
+
+  if (workload.people.length === 0) {
+    return (
+      <Card className="p-8 text-center text-muted-foreground bg-white/80 backdrop-blur shadow-lg border-0">
+        Nobody is assigned to any task yet. Assign people from a task's edit dialog on the Gantt chart, or to subtasks from Manage Progress.
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4 bg-white/80 backdrop-blur shadow-lg border-0">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="workload-capacity" className="text-sm text-muted-foreground">Capacity per person</Label>
+            <Input
+              id="workload-capacity"
+              key={capacity}
+              type="number"
+              min={10}
+              step={10}
+              defaultValue={capacity}
+              onBlur={(e) => {
+                const value = parseFloat(e.target.value)
+                if (Number.isFinite(value) && value > 0 && value !== capacity) onCapacityChange(value)
+              }}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+              className="w-24 h-8"
+            />
+            <span className="text-sm text-muted-foreground">% of a week</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Team</span>
+            <Select value={team} onValueChange={setTeam}>
+              <SelectTrigger className="w-[180px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Everyone</SelectItem>
+                {owners.filter(owner => owner.members?.length).map(owner => (
+                  <SelectItem key={owner.name} value={owner.name}>{owner.name}</SelectItem>
+                ))}
+                <SelectItem value="none">Not on a team</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="ml-auto flex items-center gap-2">
+            <Badge variant="secondary">{workload.people.length} people</Badge>
+            <Badge className="bg-red-600 text-white border-0">
+              {workload.people.filter(p => p.overCount > 0).length} over-allocated
+            </Badge>
+            <Button size="sm" variant="outline" onClick={() => setIsLevelingOpen(true)} className="gap-2">
+              <Scale className="h-4 w-4" />
+              Level Resources
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="bg-white/80 backdrop-blur shadow-lg border-0">
+        <CardHeader>
+          <CardTitle className="bg-gradient-to-r from-fuchsia-600 to-purple-600 bg-clip-text text-transparent">
+            Allocation by Week
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          {people.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nobody on this team is assigned to a task</p>
+          ) : (
+            <table className="text-sm">
+              <tbody>
+                {people.map(p => (
+                  <tr key={p.person}>
+                    <td className="pr-3 py-1 whitespace-nowrap">
+                      <button className="text-left hover:underline" onClick={() => { setSelectedPerson(p.person); setSelectedWeek(null) }}>
+                        <span className={p.person === person?.person ? 'font-semibold' : undefined}>{p.person}</span>
+                        {p.team && <span className="text-xs text-muted-foreground"> · {p.team}</span>}
+                      </button>
+                    </td>
+                    <td className="pr-3 py-1 whitespace-nowrap text-xs">
+                      {p.overCount > 0 ? (
+                        <span className="text-red-600 flex items-center gap-1">
+                          <AlertTriangle className="h-3 w-3" />
+                          {p.overCount} wk over · peak {p.peak}%
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">peak {p.peak}%</span>
+                      )}
+                    </td>
+                    <td className="py-1">
+                      <div className="flex gap-px">
+                        {p.weeks.map((w, i) => (
+                          <button
+                            key={workload.weeks[i]}
+                            className="w-3 h-5 rounded-sm"
+                            style={{
+                              backgroundColor: loadColor(w.percent, capacity),
+                              outline: p.person === person?.person && i === selectedWeek ? '2px solid #0f172a' : undefined,
+                            }}
+                            title={`${p.person} · week of ${formatDate(workload.weeks[i])}: ${w.percent}%`}
+                            onClick={() => selectCell(p.person, i)}
+                          />
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {person && (
+        <Card className="bg-white/80 backdrop-blur shadow-lg border-0">
+          <CardHeader>
+            <CardTitle className="bg-gradient-to-r from-slate-700 to-slate-500 bg-clip-text text-transparent">
+              {person.person}{person.team ? ` (${person.team})` : ''}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ResponsiveContainer width="100%" height={260}>
+              <BarChart
+                data={chart.data}
+                onClick={(state: any) => {
+                  if (state?.activeTooltipIndex !== undefined) setSelectedWeek(state.activeTooltipIndex)
+                }}
+              >
+                <XAxis dataKey="week" tick={{ fontSize: 11 }} interval="preserveStartEnd" />
+                <YAxis tickFormatter={(value) => `${value}%`} tick={{ fontSize: 11 }} />
+                <Tooltip
+                  formatter={(value, name) => [`${value}%`, chart.taskKeys.find(t => t.taskId === name)?.label || name]}
+                  contentStyle={{
+                    backgroundColor: 'rgba(255, 255, 255, 0.95)',
+                    border: 'none',
+                    borderRadius: '8px',
+                    boxShadow: '0 4px 12px rgba(0,0,0,0.15)'
+                  }}
+                />
+                <ReferenceLine y={capacity} stroke="#dc2626" strokeDasharray="6 3" label={{ value: 'Capacity', position: 'right', fontSize: 11, fill: '#dc2626' }} />
+                {chart.taskKeys.map(({ taskId }, i) => (
+                  <Bar key={taskId} dataKey={taskId} stackId="load" fill={segmentColors[i % segmentColors.length]} cursor="pointer" />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+
+            {week && selectedWeek !== null ? (
+              <div className={`rounded-lg border p-3 ${week.over ? 'border-red-300 bg-red-50' : 'bg-slate-50'}`}>
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <p className="text-sm">
+                    Week of {formatDate(workload.weeks[selectedWeek])}: <span className="font-semibold">{week.percent}%</span>
+                    {week.over && <span className="text-red-600"> — over the {capacity}% capacity</span>}
+                  </p>
+                  {week.allocations.length > 0 && (
+                    <Button size="sm" variant="outline" onClick={showWeekInGantt} className="gap-2">
+                      <GanttChartSquare className="h-4 w-4" />
+                      Show in Gantt
+                    </Button>
+                  )}
+                </div>
+                {week.allocations.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing assigned this week</p>
+                ) : (
+                  <ul className="text-sm space-y-1">
+                    {week.allocations.map(a => (
+                      <li key={a.taskId} className="flex justify-between gap-4">
+                        <span>{a.label}</span>
+                        <span className="text-muted-foreground">{a.percent}%</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Click a week to see the tasks behind it</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <LevelingDialog
+        open={isLevelingOpen}
+        onOpenChange={setIsLevelingOpen}
+        tasks={tasks}
+        subtaskDefinitions={subtaskDefinitions}
+        range={range}
+        calendar={calendar}
+        capacity={capacity}
+        criticalPath={criticalPath}
+        finishTarget={criticalPathTarget}
+        onAccept={onApplyLeveling}
+      />
+    </div>
+  )
+}
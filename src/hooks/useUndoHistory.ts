@@ -0,0 +1,72 @@
+import { useCallback, useState } from 'react'
+
+// Oldest commands are dropped once the stack grows past this
+const MAX_HISTORY = 100
+
+interface HistoryCommand<T> {
+  description: string
+  before: T
+  after: T
+}
+
+interface HistoryState<T> {
+  present: T
+  undoStack: HistoryCommand<T>[]
+  redoStack: HistoryCommand<T>[]
+}
+
+// State with an undo/redo stack. Every change goes through `execute` as a
+// described command that records the state before and after it, so undoing
+// and redoing are exact regardless of what the command did.
+export function useUndoHistory<T>(initial: T | (() => T)) {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    undoStack: [],
+    redoStack: [],
+  }))
+
+  const execute = useCallback((description: string, update: (prev: T) => T) => {
+    setHistory(h => {
+      const next = update(h.present)
+      if (next === h.present) return h
+      return {
+        present: next,
+        undoStack: [...h.undoStack, { description, before: h.present, after: next }].slice(-MAX_HISTORY),
+        redoStack: [],
+      }
+    })
+  }, [])
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      const command = h.undoStack[h.undoStack.length - 1]
+      if (!command) return h
+      return {
+        present: command.before,
+        undoStack: h.undoStack.slice(0, -1),
+        redoStack: [command, ...h.redoStack],
+      }
+    })
+  }, [])
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      const command = h.redoStack[0]
+      if (!command) return h
+      return {
+        present: command.after,
+        undoStack: [...h.undoStack, command],
+        redoStack: h.redoStack.slice(1),
+      }
+    })
+  }, [])
+
+  return {
+    state: history.present,
+    execute,
+    undo,
+    redo,
+    nextUndo: history.undoStack[history.undoStack.length - 1]?.description,
+    nextRedo: history.redoStack[0]?.description,
+  }
+}
@@ -0,0 +1,112 @@
+// Baselines: named snapshots of the plan's dates, and how far tasks have
+// slipped from them.
+//
+// Overrides replace a task's dates outright, so the original plan is only
+// kept by capturing it. Slip is counted in the chosen day unit, positive when a
+// task now starts or finishes later than its baseline and negative when
+// earlier.
+
+import { formatDays, type DayUnit } from './dates'
+import type { Baseline, BaselineTask } from './persistence'
+import { countDays, type ProjectCalendar } from './workCalendar'
+
+interface DatedTask {
+  id: string
+  label: string
+  start: string
+  end: string
+  owner: string
+}
+
+export interface TaskVariance {
+  task: DatedTask
+  baseline: BaselineTask
+  startSlip: number
+  finishSlip: number
+}
+
+export interface OwnerVariance {
+  owner: string
+  taskCount: number
+  lateCount: number // tasks finishing after their baseline
+  averageStartSlip: number
+  averageFinishSlip: number
+  worstFinishSlip: number
+}
+
+export interface VarianceReport {
+  tasks: TaskVariance[]
+  owners: OwnerVariance[]
+  added: DatedTask[] // in the plan but not in the baseline
+  removedCount: number // in the baseline but no longer in the plan
+}
+
+// Snapshot the tasks' current dates under `name`
+export function captureBaseline(name: string, tasks: DatedTask[], baselines: Baseline[], capturedAt = new Date().toISOString()): Baseline {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'baseline'
+  let id = base
+  for (let n = 2; baselines.some(baseline => baseline.id === id); n++) id = `${base}_${n}`
+  return {
+    id,
+    name,
+    capturedAt,
+    tasks: Object.fromEntries(tasks.map(task => [task.id, { start: task.start, end: task.end }])),
+  }
+}
+
+// Slip of one task against the baseline, or undefined if it was added since
+export function taskVariance(task: DatedTask, baseline: Baseline, unit: DayUnit, calendar: ProjectCalendar): TaskVariance | undefined {
+  const planned = baseline.tasks[task.id]
+  if (!planned) return undefined
+  const options = { unit, calendar, owner: task.owner }
+  return {
+    task,
+    baseline: planned,
+    startSlip: countDays(planned.start, task.start, options),
+    finishSlip: countDays(planned.end, task.end, options),
+  }
+}
+
+const average = (values: number[]) =>
+  values.length === 0 ? 0 : Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10
+
+export function buildVarianceReport(tasks: DatedTask[], baseline: Baseline, unit: DayUnit, calendar: ProjectCalendar): VarianceReport {
+  const variances: TaskVariance[] = []
+  const added: DatedTask[] = []
+  tasks.forEach(task => {
+    const variance = taskVariance(task, baseline, unit, calendar)
+    if (variance) variances.push(variance)
+    else added.push(task)
+  })
+
+  const byOwner = new Map<string, TaskVariance[]>()
+  variances.forEach(variance => {
+    const owner = variance.task.owner
+    byOwner.set(owner, [...(byOwner.get(owner) || []), variance])
+  })
+  const owners = Array.from(byOwner.entries())
+    .map(([owner, ownerVariances]) => ({
+      owner,
+      taskCount: ownerVariances.length,
+      lateCount: ownerVariances.filter(variance => variance.finishSlip > 0).length,
+      averageStartSlip: average(ownerVariances.map(variance => variance.startSlip)),
+      averageFinishSlip: average(ownerVariances.map(variance => variance.finishSlip)),
+      worstFinishSlip: Math.max(...ownerVariances.map(variance => variance.finishSlip)),
+    }))
+    .sort((a, b) => a.owner.localeCompare(b.owner))
+
+  const current = new Set(tasks.map(task => task.id))
+  return {
+    tasks: variances.sort((a, b) => b.finishSlip - a.finishSlip || a.task.start.localeCompare(b.task.start)),
+    owners,
+    added,
+    removedCount: Object.keys(baseline.tasks).filter(id => !current.has(id)).length,
+  }
+}
+
+// "+3 days", "-2 working days", "On baseline"
+export const formatSlip = (days: number, unit: DayUnit) =>
+  days === 0 ? 'On baseline' : `${days > 0 ? '+' : ''}${formatDays(days, unit)}`
+
+// Late is red, early is green
+export const slipColor = (days: number) => (days > 0 ? '#dc2626' : days < 0 ? '#16a34a' : '#64748b')
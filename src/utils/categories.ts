@@ -0,0 +1,102 @@
+// The category registry: the kinds of work a task can belong to, each with a
+// label, the color of its stripe on the Gantt bars and an icon.
+//
+// Tasks refer to categories by id and may carry several; the first one is
+// the task's main category. Renaming a category only changes its label, so
+// tasks follow along. A task whose category is not registered (say, from an
+// MS Project import) shows the raw id in the fallback color until the
+// category is added to the registry.
+
+import type { Category, ScenarioPlan, TaskDefinition } from './persistence'
+
+export const FALLBACK_CATEGORY_COLOR = '#94a3b8'
+export const FALLBACK_CATEGORY_ICON = 'tag'
+
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: 'website', label: 'Website', color: '#6366f1', icon: 'globe' },
+  { id: 'tradeshow', label: 'Tradeshow', color: '#eab308', icon: 'presentation' },
+  { id: 'templates', label: 'Templates', color: '#10b981', icon: 'layout-template' },
+  { id: 'visual-assets', label: 'Visual Assets', color: '#8b5cf6', icon: 'image' },
+]
+
+// Colors offered to newly added categories, in order
+const CATEGORY_PALETTE = ['#f97316', '#0ea5e9', '#e11d48', '#84cc16', '#14b8a6', '#a855f7', '#f43f5e', '#0891b2']
+
+export const findCategory = (categories: Category[], id: string) => categories.find(category => category.id === id)
+
+export const categoryColor = (categories: Category[], id: string) => findCategory(categories, id)?.color || FALLBACK_CATEGORY_COLOR
+
+export const categoryLabel = (categories: Category[], id: string) => findCategory(categories, id)?.label || id
+
+export const categoryIcon = (categories: Category[], id: string) => findCategory(categories, id)?.icon || FALLBACK_CATEGORY_ICON
+
+// "Trade Show 2026" → "trade-show-2026"
+const slugify = (label: string) => label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+
+// A registry entry for `label` with a free id and the first palette color
+// nobody uses yet
+export function newCategory(categories: Category[], label: string, id = slugify(label) || 'category'): Category {
+  let unique = id
+  for (let n = 2; findCategory(categories, unique); n++) unique = `${id}-${n}`
+  const taken = new Set(categories.map(category => category.color.toLowerCase()))
+  const color = CATEGORY_PALETTE.find(c => !taken.has(c)) || CATEGORY_PALETTE[categories.length % CATEGORY_PALETTE.length]
+  return { id: unique, label: label.trim(), color, icon: FALLBACK_CATEGORY_ICON }
+}
+
+// Category id → color or label, for the PDF and calendar generators
+export const categoryColorMap = (categories: Category[]): Record<string, string> =>
+  Object.fromEntries(categories.map(category => [category.id, category.color]))
+
+export const categoryLabelMap = (categories: Category[]): Record<string, string> =>
+  Object.fromEntries(categories.map(category => [category.id, category.label]))
+
+// Category ids for a comma or semicolon separated list of ids or labels, as
+// typed in a spreadsheet; unknown names become ids of their own
+export function resolveCategories(categories: Category[], value: string) {
+  const ids = value.split(/[;,]/).map(name => name.trim()).filter(Boolean).map(name => {
+    const match = categories.find(c => c.id === name || c.label.toLowerCase() === name.toLowerCase())
+    return match ? match.id : slugify(name) || name
+  })
+  return Array.from(new Set(ids))
+}
+
+// Category ids used by tasks but missing from the registry
+export const unregisteredCategories = (categories: Category[], taskCategories: string[]) =>
+  Array.from(new Set(taskCategories)).filter(id => !findCategory(categories, id)).sort()
+
+// Move every task in a plan from one category to another, or out of it when
+// `to` is null; a task already in `to` just loses `from`
+export function reassignCategoryInPlan<T extends Pick<ScenarioPlan, 'baseTracks' | 'customTasks' | 'taskOverrides'>>(plan: T, from: string, to: string | null): T {
+  const reassign = <U extends { categories?: string[] }>(item: U): U => {
+    if (!item.categories?.includes(from)) return item
+    const categories = Array.from(new Set(item.categories.flatMap(id => (id === from ? (to ? [to] : []) : [id]))))
+    return { ...item, categories }
+  }
+  return {
+    ...plan,
+    baseTracks: plan.baseTracks.map(reassign),
+    customTasks: plan.customTasks.map(reassign),
+    taskOverrides: Object.fromEntries(Object.entries(plan.taskOverrides).map(([taskId, override]) => [taskId, reassign(override)])),
+  }
+}
+
+// Tasks saved before tasks could have several categories carry a single
+// `category`
+export function upgradeTaskCategories<T extends TaskDefinition>(task: T & { category?: string }): T {
+  const { category, ...rest } = task
+  return (category ? { ...rest, categories: Array.from(new Set([category, ...(task.categories || [])])) } : rest) as T
+}
+
+export const upgradePlanCategories = <T extends Pick<ScenarioPlan, 'baseTracks' | 'customTasks'>>(plan: T): T => ({
+  ...plan,
+  baseTracks: plan.baseTracks.map(upgradeTaskCategories),
+  customTasks: plan.customTasks.map(upgradeTaskCategories),
+})
+
+// The registry for projects that only stored a color per category id
+export const categoriesFromColors = (categoryColors: Record<string, string>): Category[] => [
+  ...DEFAULT_CATEGORIES.map(category => ({ ...category, color: categoryColors[category.id] || category.color })),
+  ...Object.entries(categoryColors)
+    .filter(([id]) => !findCategory(DEFAULT_CATEGORIES, id))
+    .map(([id, color]) => ({ id, label: id, color, icon: FALLBACK_CATEGORY_ICON })),
+]
@@ -0,0 +1,149 @@
+// Critical path engine (CPM) over the task list and its dependency links.
+//
+// Planned start dates act as "start no earlier than" constraints in the
+// forward pass. The backward pass runs from a finish target (the project end
+// by default, or a milestone date); tasks finishing after the target do not
+// drive it and are left out. A task is critical when its total float is zero
+// or negative.
+
+import { fromDayNumber, toDayNumber } from './dates'
+import type { TaskDependency } from './dependencies'
+
+interface SchedulableTask {
+  id: string
+  start: string
+  end: string
+  dependencies?: TaskDependency[]
+}
+
+export interface TaskSchedule {
+  earlyStart: string
+  earlyFinish: string
+  lateStart: string
+  lateFinish: string
+  totalFloat: number // days
+  freeFloat: number // days
+  critical: boolean
+}
+
+// Order tasks so every predecessor comes before its successors. Tasks caught
+// in a dependency cycle cannot be ordered and are dropped.
+function topologicalOrder(tasks: SchedulableTask[]) {
+  const ids = new Set(tasks.map(t => t.id))
+  const incoming: Record<string, number> = {}
+  const successors: Record<string, string[]> = {}
+  tasks.forEach(task => {
+    const preds = (task.dependencies || []).filter(dep => ids.has(dep.predecessorId))
+    incoming[task.id] = preds.length
+    preds.forEach(dep => {
+      if (!successors[dep.predecessorId]) successors[dep.predecessorId] = []
+      successors[dep.predecessorId].push(task.id)
+    })
+  })
+
+  const queue = tasks.filter(t => incoming[t.id] === 0).map(t => t.id)
+  const order: string[] = []
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    order.push(id)
+    ;(successors[id] || []).forEach(next => {
+      incoming[next]--
+      if (incoming[next] === 0) queue.push(next)
+    })
+  }
+
+  if (order.length < tasks.length) {
+    console.warn('Dependency cycle detected; affected tasks are excluded from the critical path')
+  }
+  return order
+}
+
+export function computeCriticalPath(tasks: SchedulableTask[], finishTarget?: string): Record<string, TaskSchedule> {
+  const byId: Record<string, SchedulableTask> = {}
+  tasks.forEach(task => { byId[task.id] = task })
+  const order = topologicalOrder(tasks)
+  const duration = (id: string) => Math.max(0, toDayNumber(byId[id].end) - toDayNumber(byId[id].start))
+  const links = (id: string) => (byId[id].dependencies || []).filter(dep => byId[dep.predecessorId])
+
+  // Forward pass: earliest start/finish honoring planned starts and links
+  const es: Record<string, number> = {}
+  const ef: Record<string, number> = {}
+  order.forEach(id => {
+    const d = duration(id)
+    let start = toDayNumber(byId[id].start)
+    links(id).forEach(dep => {
+      const p = dep.predecessorId
+      if (!(p in es)) return
+      switch (dep.type) {
+        case 'SS': start = Math.max(start, es[p] + dep.lag); break
+        case 'FF': start = Math.max(start, ef[p] + dep.lag - d); break
+        case 'SF': start = Math.max(start, es[p] + dep.lag - d); break
+        case 'FS':
+        default: start = Math.max(start, ef[p] + dep.lag)
+      }
+    })
+    es[id] = start
+    ef[id] = start + d
+  })
+
+  const scheduled = order.filter(id => id in ef)
+  if (scheduled.length === 0) return {}
+  const finish = finishTarget ? toDayNumber(finishTarget) : Math.max(...scheduled.map(id => ef[id]))
+  const included = scheduled.filter(id => toDayNumber(byId[id].end) <= finish)
+  const isIncluded = new Set(included)
+
+  // Successor links restricted to tasks that drive the finish target
+  const outgoing: Record<string, Array<{ id: string; dep: TaskDependency }>> = {}
+  included.forEach(id => {
+    links(id).forEach(dep => {
+      if (!isIncluded.has(dep.predecessorId)) return
+      if (!outgoing[dep.predecessorId]) outgoing[dep.predecessorId] = []
+      outgoing[dep.predecessorId].push({ id, dep })
+    })
+  })
+
+  // Backward pass: latest start/finish that still meets the target
+  const ls: Record<string, number> = {}
+  const lf: Record<string, number> = {}
+  included.slice().reverse().forEach(id => {
+    const d = duration(id)
+    let late = finish
+    ;(outgoing[id] || []).forEach(({ id: s, dep }) => {
+      switch (dep.type) {
+        case 'SS': late = Math.min(late, ls[s] - dep.lag + d); break
+        case 'FF': late = Math.min(late, lf[s] - dep.lag); break
+        case 'SF': late = Math.min(late, lf[s] - dep.lag + d); break
+        case 'FS':
+        default: late = Math.min(late, ls[s] - dep.lag)
+      }
+    })
+    lf[id] = late
+    ls[id] = late - d
+  })
+
+  const result: Record<string, TaskSchedule> = {}
+  included.forEach(id => {
+    const totalFloat = lf[id] - ef[id]
+    const successorSlack = (outgoing[id] || []).map(({ id: s, dep }) => {
+      switch (dep.type) {
+        case 'SS': return es[s] - (es[id] + dep.lag)
+        case 'FF': return ef[s] - (ef[id] + dep.lag)
+        case 'SF': return ef[s] - (es[id] + dep.lag)
+        case 'FS':
+        default: return es[s] - (ef[id] + dep.lag)
+      }
+    })
+    const freeFloat = successorSlack.length > 0 ? Math.min(...successorSlack) : finish - ef[id]
+
+    result[id] = {
+      earlyStart: fromDayNumber(es[id]),
+      earlyFinish: fromDayNumber(ef[id]),
+      lateStart: fromDayNumber(ls[id]),
+      lateFinish: fromDayNumber(lf[id]),
+      totalFloat,
+      freeFloat: Math.max(0, Math.min(freeFloat, totalFloat)),
+      critical: totalFloat <= 0,
+    }
+  })
+  return result
+}
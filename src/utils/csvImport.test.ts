@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { csvPlanToChanges, guessColumnMapping, parseCSV, planCsvImport } from './csvImport'
+
+const tasks = [
+  { id: 'brief', label: 'Brief', start: '2026-03-02', end: '2026-03-06', owner: 'Design', tags: ['print'] },
+]
+
+const plan = (text: string) => {
+  const rows = parseCSV(text)
+  return planCsvImport(rows, guessColumnMapping(rows[0]), 'YYYY-MM-DD', tasks)
+}
+
+describe('CSV tags', () => {
+  it('reads the Tags column as the export writes it', () => {
+    const [row] = plan('Task ID,Task Name,Tags\nbrief,Brief,"print; Needs Legal"\n')
+    expect(row.action).toBe('update')
+    expect(row.tags).toEqual(['print', 'needs-legal'])
+    expect(csvPlanToChanges([row]).overrides.brief.tags).toEqual(['print', 'needs-legal'])
+  })
+
+  it('leaves tags alone when the cell matches or is empty', () => {
+    expect(plan('Task ID,Tags\nbrief,Print\n')[0].action).toBe('unchanged')
+    expect(plan('Task ID,Tags\nbrief,\n')[0].action).toBe('unchanged')
+  })
+
+  it('tags new tasks', () => {
+    const [row] = plan('Task,Start,End,Owner,Tags\nLaunch,2026-04-01,2026-04-02,Marketing,"launch, web"\n')
+    expect(csvPlanToChanges([row]).newTasks[0].tags).toEqual(['launch', 'web'])
+  })
+})
@@ -0,0 +1,273 @@
+// CSV import: parse a spreadsheet export, map its columns onto task fields and
+// turn each row into an update of an existing task or a new custom task.
+
+import { addDays, isPlainDate } from './dates'
+import type { Category, TaskOverride } from './persistence'
+import { categoryLabel, resolveCategories } from './categories'
+import { formatTags, parseTags } from './tags'
+
+export type CsvField = 'ignore' | 'id' | 'label' | 'start' | 'end' | 'duration' | 'owner' | 'category' | 'tags'
+
+export const csvFieldLabels: Record<CsvField, string> = {
+  ignore: 'Ignore',
+  id: 'Task ID',
+  label: 'Task name',
+  start: 'Start date',
+  end: 'End date',
+  duration: 'Duration (days)',
+  owner: 'Owner',
+  category: 'Category',
+  tags: 'Tags',
+}
+
+export type DateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'DD.MM.YYYY'
+
+export const dateFormats: DateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY']
+
+interface ExistingTask {
+  id: string
+  label: string
+  start: string
+  end: string
+  owner: string
+  categories?: string[]
+  tags?: string[]
+}
+
+export interface NewTaskData {
+  label: string
+  start: string
+  end: string
+  owner: string
+  categories?: string[]
+  tags?: string[]
+}
+
+export interface CsvRowPlan {
+  rowNumber: number // 1-based line in the file, counting the header
+  action: 'update' | 'create' | 'unchanged' | 'error'
+  taskId?: string
+  label: string
+  start?: string
+  end?: string
+  owner?: string
+  categories?: string[]
+  tags?: string[]
+  changes: string[]
+  error?: string
+}
+
+// RFC 4180 style parser: quoted fields, doubled quotes, commas and newlines
+// inside quotes, CRLF or LF line endings
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Drop blank lines (a trailing newline, empty spreadsheet rows)
+  return rows.filter(r => r.some(cell => cell.trim() !== ''))
+}
+
+const headerAliases: Array<[CsvField, string[]]> = [
+  ['id', ['task id', 'id']],
+  ['label', ['task', 'task name', 'name', 'label', 'title']],
+  ['start', ['start date', 'start', 'begin']],
+  ['end', ['end date', 'end', 'finish', 'due', 'due date']],
+  ['duration', ['duration (days)', 'duration', 'days']],
+  ['owner', ['owner', 'team', 'assignee']],
+  ['category', ['category', 'type']],
+  ['tags', ['tags', 'tag', 'labels']],
+]
+
+// Map each column to the task field its header most likely names
+export function guessColumnMapping(headers: string[]): CsvField[] {
+  const used = new Set<CsvField>()
+  return headers.map(header => {
+    const normalized = header.trim().toLowerCase()
+    const match = headerAliases.find(([field, aliases]) => !used.has(field) && aliases.includes(normalized))
+    if (!match) return 'ignore'
+    used.add(match[0])
+    return match[0]
+  })
+}
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+// Turn a date cell into YYYY-MM-DD, or null if it doesn't fit the format
+export function parseDateValue(value: string, format: DateFormat): string | null {
+  const trimmed = value.trim()
+  let parts: number[] | null = null
+  if (format === 'YYYY-MM-DD') {
+    const m = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+    if (m) parts = [Number(m[1]), Number(m[2]), Number(m[3])]
+  } else {
+    const separator = format === 'DD.MM.YYYY' ? '\\.' : '/'
+    const m = trimmed.match(new RegExp(`^(\\d{1,2})${separator}(\\d{1,2})${separator}(\\d{4})$`))
+    if (m) {
+      const [a, b, year] = [Number(m[1]), Number(m[2]), Number(m[3])]
+      parts = format === 'MM/DD/YYYY' ? [year, a, b] : [year, b, a]
+    }
+  }
+  if (!parts) return null
+
+  const [year, month, day] = parts
+  const date = `${year}-${pad(month)}-${pad(day)}`
+  return isPlainDate(date) ? date : null
+}
+
+// Pick the format that parses the most samples; for ambiguous day/month
+// values prefer US order, matching how the app displays dates
+export function detectDateFormat(samples: string[]): DateFormat {
+  const values = samples.map(s => s.trim()).filter(Boolean)
+  let best: DateFormat = 'YYYY-MM-DD'
+  let bestCount = 0
+  dateFormats.forEach(format => {
+    const count = values.filter(v => parseDateValue(v, format) !== null).length
+    if (count > bestCount) {
+      best = format
+      bestCount = count
+    }
+  })
+  return best
+}
+
+// ISO dates are unambiguous, so they are accepted whatever the chosen format
+const parseCell = (value: string, format: DateFormat) =>
+  parseDateValue(value, format) || parseDateValue(value, 'YYYY-MM-DD')
+
+// Work out what each data row would do to the project. Category cells list
+// category labels or ids, and tag cells list tags, separated by commas or
+// semicolons.
+export function planCsvImport(
+  rows: string[][],
+  mapping: CsvField[],
+  dateFormat: DateFormat,
+  tasks: ExistingTask[],
+  categories: Category[] = [],
+): CsvRowPlan[] {
+  const byId = new Map(tasks.map(t => [t.id, t]))
+  const byLabel = new Map(tasks.map(t => [t.label.trim().toLowerCase(), t]))
+  const column = (field: CsvField) => mapping.indexOf(field)
+
+  return rows.slice(1).map((row, index) => {
+    const rowNumber = index + 2
+    const cell = (field: CsvField) => {
+      const i = column(field)
+      return i >= 0 ? (row[i] || '').trim() : ''
+    }
+
+    const id = cell('id')
+    const label = cell('label')
+    const existing = (id && byId.get(id)) || (label && byLabel.get(label.toLowerCase())) || undefined
+    const plan: CsvRowPlan = { rowNumber, action: 'unchanged', label: label || existing?.label || '', changes: [] }
+
+    let start = existing?.start
+    if (cell('start')) {
+      const parsed = parseCell(cell('start'), dateFormat)
+      if (!parsed) return { ...plan, action: 'error', error: `Start date "${cell('start')}" is not ${dateFormat}` }
+      start = parsed
+    }
+
+    let end = existing?.end
+    if (cell('end')) {
+      const parsed = parseCell(cell('end'), dateFormat)
+      if (!parsed) return { ...plan, action: 'error', error: `End date "${cell('end')}" is not ${dateFormat}` }
+      end = parsed
+    } else if (cell('duration') && start) {
+      const days = Number(cell('duration'))
+      if (!Number.isFinite(days) || days < 0) return { ...plan, action: 'error', error: `Duration "${cell('duration')}" is not a number of days` }
+      end = addDays(start, Math.round(days))
+    }
+
+    const owner = cell('owner') || existing?.owner
+    const taskCategories = cell('category') ? resolveCategories(categories, cell('category')) : existing?.categories
+    const taskTags = cell('tags') ? parseTags(cell('tags')) : existing?.tags
+
+    if (start && end && end < start) {
+      return { ...plan, action: 'error', error: 'End date is before start date' }
+    }
+
+    if (existing) {
+      const changes: string[] = []
+      if (start !== existing.start) changes.push(`start ${existing.start} → ${start}`)
+      if (end !== existing.end) changes.push(`end ${existing.end} → ${end}`)
+      if (owner !== existing.owner) changes.push(`owner ${existing.owner} → ${owner}`)
+      const recategorized = (taskCategories || []).join(',') !== (existing.categories || []).join(',')
+      if (recategorized) changes.push(`categories → ${(taskCategories || []).map(id => categoryLabel(categories, id)).join(', ')}`)
+      // Labels can only be renamed when the row was matched by id
+      const renamed = !!id && byId.has(id) && !!label && label !== existing.label
+      const retagged = formatTags(taskTags) !== formatTags(existing.tags)
+      if (retagged) changes.push(`tags → ${formatTags(taskTags)}`)
+      if (renamed) changes.push(`renamed to "${label}"`)
+      return {
+        ...plan,
+        action: changes.length > 0 ? 'update' : 'unchanged',
+        taskId: existing.id,
+        label: renamed ? label : existing.label,
+        start,
+        end,
+        owner,
+        ...(recategorized && { categories: taskCategories }),
+        ...(retagged && { tags: taskTags }),
+        changes,
+      }
+    }
+
+    const missing = [
+      !label && 'task name',
+      !start && 'start date',
+      !end && 'end date',
+      !owner && 'owner',
+    ].filter(Boolean)
+    if (missing.length > 0) {
+      return { ...plan, action: 'error', error: `New task is missing ${missing.join(', ')}` }
+    }
+    return { ...plan, action: 'create', label, start, end, owner, categories: taskCategories?.length ? taskCategories : undefined, tags: taskTags?.length ? taskTags : undefined, changes: ['new task'] }
+  })
+}
+
+// Split a plan into task overrides and new tasks, ready to apply
+export function csvPlanToChanges(plan: CsvRowPlan[]) {
+  const overrides: Record<string, TaskOverride> = {}
+  const newTasks: NewTaskData[] = []
+  plan.forEach(row => {
+    if (row.action === 'update' && row.taskId) {
+      overrides[row.taskId] = { start: row.start, end: row.end, owner: row.owner, label: row.label, ...(row.categories && { categories: row.categories }), ...(row.tags && { tags: row.tags }) }
+    } else if (row.action === 'create') {
+      newTasks.push({ label: row.label, start: row.start!, end: row.end!, owner: row.owner!, categories: row.categories, tags: row.tags })
+    }
+  })
+  return { overrides, newTasks }
+}
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  addBusinessDays,
+  addDays,
+  addMonths,
+  businessDaysBetween,
+  daysBetween,
+  formatDate,
+  fromDayNumber,
+  isPlainDate,
+  toDate,
+  toDayNumber,
+  toPlainDate,
+} from './dates'
+
+// Run `fn`'s tests with the process in time zone `tz`; Node picks up a new TZ
+// as soon as it is assigned
+function inTimeZone(tz: string, fn: () => void) {
+  describe(`in ${tz}`, () => {
+    let previous: string | undefined
+    beforeEach(() => {
+      previous = process.env.TZ
+      process.env.TZ = tz
+    })
+    afterEach(() => {
+      if (previous === undefined) delete process.env.TZ
+      else process.env.TZ = previous
+    })
+    fn()
+  })
+}
+
+describe('toDayNumber / fromDayNumber', () => {
+  it('counts whole days from 1970-01-01', () => {
+    expect(toDayNumber('1970-01-01')).toBe(0)
+    expect(toDayNumber('1970-01-02')).toBe(1)
+    expect(toDayNumber('1969-12-31')).toBe(-1)
+    expect(toDayNumber('2026-03-30')).toBe(20542)
+  })
+
+  it('round-trips', () => {
+    for (const date of ['1969-12-31', '2024-02-29', '2026-03-08', '2026-03-29', '2026-10-25', '2026-11-01', '2026-12-31']) {
+      expect(fromDayNumber(toDayNumber(date))).toBe(date)
+    }
+  })
+
+  it('ignores a time part', () => {
+    expect(toDayNumber('2026-03-30T23:59:59-08:00')).toBe(toDayNumber('2026-03-30'))
+  })
+})
+
+const dstChanges = [
+  // US: clocks go forward on March 8 and back on November 1, 2026
+  { tz: 'America/Los_Angeles', forward: '2026-03-08', back: '2026-11-01' },
+  // EU: clocks go forward on March 29 and back on October 25, 2026
+  { tz: 'Europe/Berlin', forward: '2026-03-29', back: '2026-10-25' },
+]
+
+dstChanges.forEach(({ tz, forward, back }) => {
+  inTimeZone(tz, () => {
+    it('adds days across the spring change without losing an hour', () => {
+      expect(addDays(addDays(forward, -1), 1)).toBe(forward)
+      expect(addDays(addDays(forward, -1), 2)).toBe(addDays(forward, 1))
+      expect(daysBetween(addDays(forward, -1), addDays(forward, 1))).toBe(2)
+    })
+
+    it('adds days across the autumn change without gaining an hour', () => {
+      expect(addDays(addDays(back, -1), 1)).toBe(back)
+      expect(daysBetween(addDays(back, -1), addDays(back, 1))).toBe(2)
+    })
+
+    it('counts whole days over a span with both changes', () => {
+      expect(daysBetween('2026-01-01', '2027-01-01')).toBe(365)
+      expect(addDays('2026-01-01', 365)).toBe('2027-01-01')
+      expect(daysBetween('2027-01-01', '2026-01-01')).toBe(-365)
+    })
+
+    it('reads local midnight back as the same day', () => {
+      expect(toPlainDate(toDate(forward))).toBe(forward)
+      expect(toPlainDate(toDate(back))).toBe(back)
+      expect(toPlainDate(new Date(2026, 2, 8, 23, 30))).toBe('2026-03-08')
+    })
+  })
+})
+
+inTimeZone('America/Los_Angeles', () => {
+  it('formats the stored day, not the day before', () => {
+    // The naive reading lands on the evening of March 29 here
+    expect(new Date('2026-03-30').toLocaleDateString('en-US')).toBe('3/29/2026')
+    expect(formatDate('2026-03-30', undefined, 'en-US')).toBe('3/30/2026')
+    expect(formatDate('2026-01-01', { month: 'short', day: 'numeric' }, 'en-US')).toBe('Jan 1')
+    expect(formatDate('2026-03-08', { weekday: 'long' }, 'en-US')).toBe('Sunday')
+  })
+})
+
+describe('addMonths', () => {
+  it('clamps to the end of shorter months', () => {
+    expect(addMonths('2026-01-31', 1)).toBe('2026-02-28')
+    expect(addMonths('2024-01-31', 1)).toBe('2024-02-29')
+    expect(addMonths('2026-03-15', -3)).toBe('2025-12-15')
+  })
+})
+
+describe('isPlainDate', () => {
+  it('rejects impossible and malformed dates', () => {
+    expect(isPlainDate('2026-02-28')).toBe(true)
+    expect(isPlainDate('2026-02-30')).toBe(false)
+    expect(isPlainDate('2026-2-3')).toBe(false)
+    expect(isPlainDate(20260203)).toBe(false)
+  })
+})
+
+describe('businessDaysBetween', () => {
+  it('counts weekdays in [from, to)', () => {
+    // Friday March 6 to Monday March 9, 2026
+    expect(businessDaysBetween('2026-03-06', '2026-03-09')).toBe(1)
+    expect(businessDaysBetween('2026-03-02', '2026-03-16')).toBe(10)
+    expect(businessDaysBetween('2026-03-07', '2026-03-09')).toBe(0)
+    expect(businessDaysBetween('2026-03-09', '2026-03-09')).toBe(0)
+  })
+
+  it('is negative when `to` is before `from`', () => {
+    expect(businessDaysBetween('2026-03-16', '2026-03-02')).toBe(-10)
+  })
+
+  it('honors a custom calendar', () => {
+    const noMondays = (date: string) => ![0, 1, 6].includes(new Date(`${date}T00:00:00Z`).getUTCDay())
+    expect(businessDaysBetween('2026-03-02', '2026-03-09', noMondays)).toBe(4)
+  })
+})
+
+describe('addBusinessDays', () => {
+  it('skips weekends', () => {
+    expect(addBusinessDays('2026-03-06', 1)).toBe('2026-03-09')
+    expect(addBusinessDays('2026-03-02', 10)).toBe('2026-03-16')
+    expect(addBusinessDays('2026-03-09', -1)).toBe('2026-03-06')
+  })
+
+  it('rolls a weekend start forward when n is 0', () => {
+    expect(addBusinessDays('2026-03-07', 0)).toBe('2026-03-09')
+    expect(addBusinessDays('2026-03-04', 0)).toBe('2026-03-04')
+  })
+
+  it('undoes businessDaysBetween', () => {
+    expect(businessDaysBetween('2026-03-05', addBusinessDays('2026-03-05', 7))).toBe(7)
+  })
+
+  it('gives up on a calendar with no working days', () => {
+    expect(() => addBusinessDays('2026-03-02', 1, () => false)).toThrow('No working days within ten years')
+    expect(() => addBusinessDays('2026-03-07', 0, () => false)).toThrow()
+  })
+})
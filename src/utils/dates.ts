@@ -0,0 +1,118 @@
+// Shared date helpers for the plan's plain 'YYYY-MM-DD' dates.
+//
+// A plain date is a calendar day with no time or time zone. `new Date('2026-03-30')`
+// parses as UTC midnight, which `toLocaleDateString()` shows as March 29 west of
+// Greenwich, and local-midnight arithmetic gains or loses an hour across DST.
+// These helpers avoid both by doing all math on whole UTC day numbers and only
+// building a Date for display, pinned to UTC.
+
+export type DayUnit = 'calendar' | 'working'
+
+const DAY_MS = 1000 * 60 * 60 * 24
+const PLAIN_DATE = /^(\d{4})-(\d{2})-(\d{2})$/
+
+// Split a plain date into its parts; undefined for malformed or impossible
+// dates such as '2026-02-30'
+export function parsePlainDate(s: string) {
+  const match = PLAIN_DATE.exec(s)
+  if (!match) return undefined
+  const [year, month, day] = match.slice(1).map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined
+  return { year, month, day }
+}
+
+export const isPlainDate = (value: unknown): value is string =>
+  typeof value === 'string' && parsePlainDate(value) !== undefined
+
+// Days since 1970-01-01, the unit all arithmetic below works in
+export function toDayNumber(s: string) {
+  const [year, month, day] = s.slice(0, 10).split('-').map(Number)
+  return Date.UTC(year, month - 1, day) / DAY_MS
+}
+
+export const fromDayNumber = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10)
+
+// Build a plain date from parts; out-of-range months and days roll over
+// (month 13 is January of the next year, day 0 the last day of the previous month)
+export const plainDate = (year: number, month: number, day: number) =>
+  fromDayNumber(Date.UTC(year, month - 1, day) / DAY_MS)
+
+// The calendar day a Date falls on in the user's time zone
+export const toPlainDate = (date: Date) =>
+  plainDate(date.getFullYear(), date.getMonth() + 1, date.getDate())
+
+export const todayPlainDate = () => toPlainDate(new Date())
+
+// Local midnight of a plain date, for APIs that need a Date object
+export function toDate(s: string) {
+  const [year, month, day] = s.slice(0, 10).split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export const daysBetween = (a: string, b: string) => toDayNumber(b) - toDayNumber(a)
+
+export const addDays = (s: string, d: number) => fromDayNumber(toDayNumber(s) + d)
+
+// 0 = Sunday … 6 = Saturday; 1970-01-01 was a Thursday
+export const weekdayOf = (s: string) => (((toDayNumber(s) + 4) % 7) + 7) % 7
+
+export const startOfWeek = (s: string, weekStartsOn = 1) =>
+  addDays(s, -((weekdayOf(s) - weekStartsOn + 7) % 7))
+
+export function startOfMonth(s: string) {
+  const [year, month] = s.split('-').map(Number)
+  return plainDate(year, month, 1)
+}
+
+export function endOfMonth(s: string) {
+  const [year, month] = s.split('-').map(Number)
+  return plainDate(year, month + 1, 0)
+}
+
+// Same day `n` months later, clamped to the end of shorter months
+// (Jan 31 + 1 month is Feb 28 or 29)
+export function addMonths(s: string, n: number) {
+  const [year, month, day] = s.split('-').map(Number)
+  const end = plainDate(year, month + n + 1, 0)
+  return Number(end.slice(8)) < day ? end : plainDate(year, month + n, day)
+}
+
+// Format for display in the user's locale. The Date is pinned to UTC so the
+// day shown is the day stored, whatever the viewer's time zone.
+export const formatDate = (s: string, options?: Intl.DateTimeFormatOptions, locale?: string) =>
+  new Date(toDayNumber(s) * DAY_MS).toLocaleDateString(locale, { ...options, timeZone: 'UTC' })
+
+const isWeekday = (s: string) => weekdayOf(s) !== 0 && weekdayOf(s) !== 6
+
+// Business days in [from, to), negative when `to` is before `from`. Pass
+// `isWorkingDay` to honor a calendar; the default is Monday to Friday.
+export function businessDaysBetween(from: string, to: string, isWorkingDay: (date: string) => boolean = isWeekday) {
+  const a = toDayNumber(from)
+  const b = toDayNumber(to)
+  const [lo, hi] = a <= b ? [a, b] : [b, a]
+  let count = 0
+  for (let day = lo; day < hi; day++) {
+    if (isWorkingDay(fromDayNumber(day))) count++
+  }
+  return a <= b ? count : -count
+}
+
+// Move `n` business days from `from` (backwards when negative). The result is
+// always a business day; with n = 0 a non-working `from` rolls forward.
+export function addBusinessDays(from: string, n: number, isWorkingDay: (date: string) => boolean = isWeekday) {
+  const step = n < 0 ? -1 : 1
+  let date = from
+  let remaining = Math.abs(n)
+  while (remaining > 0 || !isWorkingDay(date)) {
+    date = addDays(date, step)
+    if (remaining > 0 && isWorkingDay(date)) remaining--
+    // A calendar with no working days at all would never finish
+    if (Math.abs(daysBetween(from, date)) > 3660) throw new Error('No working days within ten years')
+  }
+  return date
+}
+
+// "1 day", "12 working days"
+export const formatDays = (count: number, unit: DayUnit) =>
+  `${count} ${unit === 'working' ? 'working ' : ''}day${Math.abs(count) !== 1 ? 's' : ''}`
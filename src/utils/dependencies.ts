@@ -0,0 +1,131 @@
+// Task dependency model and automatic rescheduling of successors.
+//
+// A dependency lives on the successor and points at its predecessor. Task
+// dates are treated the same way the Gantt chart draws them: a bar occupies
+// [start, end), so a finish-to-start link with zero lag lets the successor
+// start on the predecessor's end date.
+
+import { addDays, daysBetween } from './dates'
+
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF'
+
+export interface TaskDependency {
+  predecessorId: string
+  type: DependencyType
+  lag: number // days; negative values allow overlap
+}
+
+export const dependencyTypeLabels: Record<DependencyType, string> = {
+  FS: 'Finish → Start',
+  SS: 'Start → Start',
+  FF: 'Finish → Finish',
+  SF: 'Start → Finish',
+}
+
+interface SchedulableTask {
+  id: string
+  label: string
+  start: string
+  end: string
+  dependencies?: TaskDependency[]
+}
+
+export interface RescheduledTask {
+  id: string
+  label: string
+  start: string
+  end: string
+  shiftDays: number
+}
+
+// Days between what a link requires and what the successor does; negative
+// when the link is violated
+export function linkGap(predecessor: Pick<SchedulableTask, 'start' | 'end'>, successor: Pick<SchedulableTask, 'start' | 'end'>, dependency: TaskDependency) {
+  switch (dependency.type) {
+    case 'SS':
+      return daysBetween(addDays(predecessor.start, dependency.lag), successor.start)
+    case 'FF':
+      return daysBetween(addDays(predecessor.end, dependency.lag), successor.end)
+    case 'SF':
+      return daysBetween(addDays(predecessor.start, dependency.lag), successor.end)
+    case 'FS':
+    default:
+      return daysBetween(addDays(predecessor.end, dependency.lag), successor.start)
+  }
+}
+
+// Days the successor must move later to satisfy a single link (0 when satisfied)
+export function requiredShift(predecessor: SchedulableTask, successor: SchedulableTask, dependency: TaskDependency) {
+  return Math.max(0, -linkGap(predecessor, successor, dependency))
+}
+
+// Map of predecessor id -> ids of tasks that depend on it
+export function buildSuccessorMap(tasks: SchedulableTask[]) {
+  const successors: Record<string, string[]> = {}
+  tasks.forEach(task => {
+    (task.dependencies || []).forEach(dep => {
+      if (!successors[dep.predecessorId]) successors[dep.predecessorId] = []
+      successors[dep.predecessorId].push(task.id)
+    })
+  })
+  return successors
+}
+
+// True if making `taskId` depend on `predecessorId` would close a loop
+export function wouldCreateCycle(tasks: SchedulableTask[], taskId: string, predecessorId: string) {
+  if (taskId === predecessorId) return true
+  const successors = buildSuccessorMap(tasks)
+  const stack = [taskId]
+  const seen = new Set<string>()
+  while (stack.length > 0) {
+    const current = stack.pop()!
+    if (current === predecessorId) return true
+    if (seen.has(current)) continue
+    seen.add(current)
+    stack.push(...(successors[current] || []))
+  }
+  return false
+}
+
+// Push successors of `changedTaskId` later until every link downstream of it
+// is satisfied. Durations are preserved. Returns only the tasks that moved,
+// in the order they were rescheduled.
+export function cascadeSchedule(tasks: SchedulableTask[], changedTaskId: string): RescheduledTask[] {
+  const byId: Record<string, SchedulableTask> = {}
+  tasks.forEach(task => { byId[task.id] = { ...task } })
+  const successors = buildSuccessorMap(tasks)
+
+  const originalStart: Record<string, string> = {}
+  const order: string[] = []
+  const queue = [...(successors[changedTaskId] || [])]
+  // Each task can be pushed at most once per predecessor; this bound also
+  // stops runaway loops if a cycle slipped into saved data
+  let budget = tasks.length * tasks.length + 1
+
+  while (queue.length > 0 && budget-- > 0) {
+    const task = byId[queue.shift()!]
+    if (!task) continue
+
+    const shift = Math.max(0, ...(task.dependencies || []).map(dep => {
+      const predecessor = byId[dep.predecessorId]
+      return predecessor ? requiredShift(predecessor, task, dep) : 0
+    }))
+    if (shift === 0) continue
+
+    if (!(task.id in originalStart)) {
+      originalStart[task.id] = task.start
+      order.push(task.id)
+    }
+    task.start = addDays(task.start, shift)
+    task.end = addDays(task.end, shift)
+    queue.push(...(successors[task.id] || []))
+  }
+
+  return order.map(id => ({
+    id,
+    label: byId[id].label,
+    start: byId[id].start,
+    end: byId[id].end,
+    shiftDays: daysBetween(originalStart[id], byId[id].start),
+  }))
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest'
+import { matchesFilterQuery, parseFilterQuery, type FilterContext } from './filterQuery'
+import { parseTags } from './tags'
+
+const context: FilterContext = { progress: {}, currentDate: '2026-03-01', criticalPath: {}, categories: [] }
+const task = { id: 'a', label: 'Print ads', start: '2026-03-02', end: '2026-03-06', owner: 'Design', tags: parseTags('Needs Legal, print') }
+
+const matches = (query: string) => matchesFilterQuery(task, parseFilterQuery(query), context)
+
+describe('tag terms', () => {
+  it('match tags however they are typed', () => {
+    expect(matches('tag:print')).toBe(true)
+    expect(matches('tag:#print')).toBe(true)
+    expect(matches('tag:PRINT')).toBe(true)
+    expect(matches('tag:"Needs Legal"')).toBe(true)
+    expect(matches('tag:needs-legal')).toBe(true)
+    expect(matches('tag:web')).toBe(false)
+  })
+})
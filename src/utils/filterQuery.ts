@@ -0,0 +1,257 @@
+// Filter queries for the Gantt and owner views.
+//
+// A query is a list of space separated terms, for example
+//
+//   owner:Design status:overdue tag:print end<2026-04-01 progress<50
+//
+//   owner:, status:, category:, tag:, assignee:
+//                   match one value; repeating a field ORs its values, so
+//                   `owner:Design owner:Marketing` keeps both teams' tasks
+//   start, end      compare dates with :, <, <=, > or >=; "today" works too
+//   progress        compares the percentage the same way
+//   anything else   free text, found in the label, owner or tags
+//
+// Different fields must all match. Values with spaces go in double quotes:
+// owner:"Lead Agency". Status takes a status key or "critical" for the
+// critical path; category takes a category id or label. Names compare
+// case-insensitively.
+
+import type { Category } from './persistence'
+import { isPlainDate } from './dates'
+import { normalizeTag } from './tags'
+import { getTaskStatus, taskStatusInfo, taskStatusOrder, type TaskStatus } from './taskStatus'
+
+export type QueryField = 'owner' | 'status' | 'category' | 'tag' | 'assignee' | 'start' | 'end' | 'progress'
+export type QueryOperator = ':' | '<' | '<=' | '>' | '>='
+
+export interface QueryTerm {
+  field: QueryField | 'text'
+  operator: QueryOperator
+  value: string
+  raw: string // the term as written, for putting the query back together
+  error?: string // why the term is ignored
+}
+
+// Fields matched against a list of names, which a multi-select can toggle
+export const LIST_FIELDS: QueryField[] = ['owner', 'status', 'category', 'tag', 'assignee']
+const COMPARABLE_FIELDS: QueryField[] = ['start', 'end', 'progress']
+export const QUERY_FIELDS: QueryField[] = [...LIST_FIELDS, ...COMPARABLE_FIELDS]
+
+export const queryFieldLabels: Record<QueryField, string> = {
+  owner: 'Owner',
+  status: 'Status',
+  category: 'Category',
+  tag: 'Tag',
+  assignee: 'Assignee',
+  start: 'Start',
+  end: 'End',
+  progress: 'Progress',
+}
+
+export const CRITICAL_STATUS = 'critical'
+const statusValues = [...taskStatusOrder, CRITICAL_STATUS]
+
+const isQueryField = (name: string): name is QueryField => (QUERY_FIELDS as string[]).includes(name)
+
+const quote = (value: string) => (value === '' || /[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value)
+
+// Check a term's value once, so matching never has to
+function validate(term: QueryTerm): QueryTerm {
+  const { field, operator, value } = term
+  if (field === 'text') return term
+  const fail = (error: string) => ({ ...term, error })
+  if (!value) return fail(`${queryFieldLabels[field]} needs a value`)
+  if (LIST_FIELDS.includes(field) && operator !== ':') return fail(`${queryFieldLabels[field]} only takes ":"`)
+  if (field === 'status' && !statusValues.includes(value.toLowerCase())) return fail(`Unknown status "${value}"`)
+  if ((field === 'start' || field === 'end') && value.toLowerCase() !== 'today' && !isPlainDate(value)) {
+    return fail(`${queryFieldLabels[field]} needs a YYYY-MM-DD date or "today"`)
+  }
+  if (field === 'progress' && !/^\d+(\.\d+)?%?$/.test(value)) return fail('Progress needs a percentage')
+  return term
+}
+
+export const queryTerm = (field: QueryField, value: string, operator: QueryOperator = ':'): QueryTerm =>
+  validate({ field, operator, value, raw: `${field}${operator}${quote(value)}` })
+
+export function parseFilterQuery(query: string): QueryTerm[] {
+  const terms: QueryTerm[] = []
+  // A field name and operator, then a quoted or bare value; or bare text
+  const pattern = /([a-z]+)(<=|>=|:|<|>)("[^"]*"?|\S*)|"([^"]*)"?|(\S+)/gi
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(query))) {
+    const [raw, name, operator, fieldValue, phrase, word] = match
+    if (name === undefined) {
+      const text = phrase ?? word
+      if (text.trim()) terms.push({ field: 'text', operator: ':', value: text.trim(), raw })
+      continue
+    }
+    const value = fieldValue.replace(/^"|"$/g, '').trim()
+    const field = name.toLowerCase()
+    if (!isQueryField(field)) {
+      terms.push({ field: 'text', operator: ':', value: raw, raw, error: `Unknown field "${name}"` })
+      continue
+    }
+    terms.push(validate({ field, operator: operator as QueryOperator, value, raw }))
+  }
+  return terms
+}
+
+export const formatFilterQuery = (terms: QueryTerm[]) => terms.map(term => term.raw).join(' ')
+
+const sameValue = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+// The values a list field is filtered to, as a multi-select shows them
+export const selectedValues = (terms: QueryTerm[], field: QueryField) =>
+  terms.filter(term => term.field === field && !term.error).map(term => term.value)
+
+// Add `value` to a list field's selection, or take it out if it or one of
+// its aliases (a category's label, say) is there
+export function toggleQueryValue(query: string, field: QueryField, value: string, aliases: string[] = []) {
+  const terms = parseFilterQuery(query)
+  const kept = terms.filter(term => !(term.field === field && [value, ...aliases].some(v => sameValue(term.value, v))))
+  return formatFilterQuery(kept.length < terms.length ? kept : [...terms, queryTerm(field, value)])
+}
+
+export const removeQueryTerm = (query: string, index: number) =>
+  formatFilterQuery(parseFilterQuery(query).filter((_, i) => i !== index))
+
+// Follow a renamed owner or category, keeping the rest of the query as typed
+export const renameQueryValue = (query: string, field: QueryField, from: string, to: string) =>
+  formatFilterQuery(
+    parseFilterQuery(query).map(term =>
+      term.field === field && term.operator === ':' && sameValue(term.value, from) ? queryTerm(field, to) : term,
+    ),
+  )
+
+export interface FilterableTask {
+  id: string
+  label: string
+  start: string
+  end: string
+  owner: string
+  categories?: string[]
+  assignees?: string[]
+  tags?: string[]
+}
+
+export interface FilterContext {
+  progress: Record<string, number>
+  currentDate: string
+  criticalPath: Record<string, { critical: boolean }>
+  categories: Category[]
+}
+
+function compare<T>(a: T, operator: QueryOperator, b: T) {
+  switch (operator) {
+    case '<': return a < b
+    case '<=': return a <= b
+    case '>': return a > b
+    case '>=': return a >= b
+    default: return a === b
+  }
+}
+
+function matchesTerm(task: FilterableTask, term: QueryTerm, context: FilterContext) {
+  const value = term.value.toLowerCase()
+  switch (term.field) {
+    case 'text':
+      return [task.label, task.owner, ...(task.tags || [])].some(text => text.toLowerCase().includes(value))
+    case 'owner':
+      return task.owner.toLowerCase() === value
+    case 'status':
+      return value === CRITICAL_STATUS
+        ? !!context.criticalPath[task.id]?.critical
+        : getTaskStatus(task, context.progress[task.id] || 0, context.currentDate).status === value
+    case 'category': {
+      const category = context.categories.find(c => c.id === term.value || c.label.toLowerCase() === value)
+      return (task.categories || []).some(id => id === (category?.id ?? term.value))
+    }
+    case 'tag':
+      return (task.tags || []).includes(normalizeTag(term.value))
+    case 'assignee':
+      return (task.assignees || []).some(person => person.toLowerCase() === value)
+    case 'start':
+    case 'end':
+      return compare(task[term.field], term.operator, value === 'today' ? context.currentDate : term.value)
+    case 'progress':
+      return compare(context.progress[task.id] || 0, term.operator, parseFloat(term.value))
+  }
+}
+
+// Whether a task passes every term. Terms on the same list field are
+// alternatives; anything else must all hold. Invalid terms are skipped.
+export function matchesFilterQuery(task: FilterableTask, terms: QueryTerm[], context: FilterContext) {
+  const alternatives = new Map<string, QueryTerm[]>()
+  const required: QueryTerm[] = []
+  terms.forEach(term => {
+    if (term.error) return
+    if (term.field !== 'text' && LIST_FIELDS.includes(term.field)) {
+      alternatives.set(term.field, [...(alternatives.get(term.field) || []), term])
+    } else {
+      required.push(term)
+    }
+  })
+  return (
+    required.every(term => matchesTerm(task, term, context)) &&
+    Array.from(alternatives.values()).every(group => group.some(term => matchesTerm(task, term, context)))
+  )
+}
+
+// A term as a chip reads it, e.g. "Status: overdue" or "End < 2026-04-01"
+export function describeQueryTerm(term: QueryTerm, categories: Category[]) {
+  if (term.field === 'text') return term.error ? term.raw : `Search: ${term.value}`
+  if (term.error) return term.raw
+  const label = queryFieldLabels[term.field]
+  let value = term.value
+  if (term.field === 'status') {
+    value = value === CRITICAL_STATUS ? 'critical path' : taskStatusInfo[value.toLowerCase() as TaskStatus].label.toLowerCase()
+  }
+  if (term.field === 'category') {
+    value = categories.find(c => c.id === term.value || c.label.toLowerCase() === term.value.toLowerCase())?.label || value
+  }
+  if (term.field === 'progress') value = `${parseFloat(value)}%`
+  return term.operator === ':' ? `${label}: ${value}` : `${label} ${term.operator} ${value}`
+}
+
+export interface QuerySuggestion {
+  text: string // what replaces the word being typed
+  label: string
+  hint?: string
+}
+
+// Names a list field can take, for autocomplete
+export type QueryValues = Partial<Record<QueryField, Array<{ value: string; hint?: string }>>>
+
+export const statusSuggestions = statusValues.map(value => ({
+  value,
+  hint: value === CRITICAL_STATUS ? 'Critical path' : taskStatusInfo[value as TaskStatus].label,
+}))
+
+// Completions for the word at the end of the query: field names while the
+// field is being typed, then values for it once it has an operator
+export function querySuggestions(query: string, values: QueryValues): QuerySuggestion[] {
+  const word = query.match(/(\S*)$/)?.[1] || ''
+  const fieldMatch = word.match(/^([a-z]+)(<=|>=|:|<|>)"?(.*)$/i)
+  if (!fieldMatch) {
+    const prefix = word.toLowerCase()
+    return QUERY_FIELDS.filter(field => field.startsWith(prefix)).flatMap(field =>
+      COMPARABLE_FIELDS.includes(field)
+        ? [':', '<', '>'].map(operator => ({ text: field + operator, label: field + operator, hint: queryFieldLabels[field] }))
+        : [{ text: field + ':', label: field + ':', hint: queryFieldLabels[field] }],
+    )
+  }
+  const [, name, operator, partial] = fieldMatch
+  const field = name.toLowerCase()
+  if (!isQueryField(field)) return []
+  const prefix = partial.toLowerCase()
+  const taken = selectedValues(parseFilterQuery(query.slice(0, query.length - word.length)), field).map(v => v.toLowerCase())
+  const options = field === 'start' || field === 'end' ? [{ value: 'today' }] : values[field] || []
+  return options
+    .filter(option => option.value.toLowerCase().includes(prefix) && !taken.includes(option.value.toLowerCase()))
+    .filter(option => option.value.toLowerCase() !== prefix)
+    .map(option => ({ text: `${field}${operator}${quote(option.value)} `, label: option.value, hint: option.hint }))
+}
+
+// The query with its last word replaced by a suggestion
+export const applySuggestion = (query: string, suggestion: QuerySuggestion) =>
+  query.replace(/\S*$/, suggestion.text)
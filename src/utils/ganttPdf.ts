@@ -0,0 +1,292 @@
+// Draws the Gantt chart into a landscape jsPDF document with vector
+// primitives: month grid, owner-colored bars with category stripes and
+// progress fill, milestone diamonds and the Today marker. Rows that don't fit
+// continue on further pages, and ranges too long to stay readable are split
+// across pages at month boundaries.
+
+import type { jsPDF } from 'jspdf'
+import { addMonths, formatDate, fromDayNumber, startOfMonth, toDayNumber } from './dates'
+import type { Milestone } from './persistence'
+
+interface GanttPdfTask {
+  id: string
+  label: string
+  start: string
+  end: string
+  owner: string
+  categories?: string[]
+}
+
+export interface GanttPdfOptions {
+  title: string
+  tasks: GanttPdfTask[]
+  rangeStart: string
+  rangeEnd: string
+  currentDate: string
+  milestones: Milestone[]
+  progress: Record<string, number>
+  ownerColors: Record<string, string>
+  categoryColors: Record<string, string>
+  categoryLabels: Record<string, string>
+}
+
+type RGB = [number, number, number]
+
+// A4 landscape, in mm
+const PAGE_WIDTH = 297
+const PAGE_HEIGHT = 210
+const MARGIN = 10
+const LABEL_WIDTH = 62
+const HEADER_HEIGHT = 30 // title, subtitle and month header
+const FOOTER_HEIGHT = 14 // legend and page number
+const ROW_HEIGHT = 7
+const BAR_HEIGHT = 4.2
+const STRIPE_HEIGHT = 1
+// Below this scale months get too narrow to read; longer ranges paginate
+const MIN_MM_PER_DAY = 0.5
+
+const CHART_LEFT = MARGIN + LABEL_WIDTH
+const CHART_WIDTH = PAGE_WIDTH - MARGIN - CHART_LEFT
+const CHART_TOP = MARGIN + HEADER_HEIGHT
+const ROWS_PER_PAGE = Math.floor((PAGE_HEIGHT - CHART_TOP - FOOTER_HEIGHT - MARGIN) / ROW_HEIGHT)
+
+const FALLBACK_COLOR = '#94a3b8'
+const TODAY_COLOR: RGB = [239, 68, 68]
+const MILESTONE_COLOR: RGB = [15, 23, 42]
+
+const hexToRgb = (hex: string): RGB => {
+  const value = parseInt(hex.replace('#', ''), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+// Mix a color with white; jsPDF has no simple fill opacity
+const tint = ([r, g, b]: RGB, amount: number): RGB => [
+  Math.round(r + (255 - r) * amount),
+  Math.round(g + (255 - g) * amount),
+  Math.round(b + (255 - b) * amount),
+]
+
+const monthLabel = (day: number) => {
+  const date = fromDayNumber(day)
+  const month = formatDate(date, { month: 'short' }, 'en-US')
+  return date.slice(5, 7) === '01' ? `${month} ${date.slice(0, 4)}` : month
+}
+
+// First day of each month after `start` up to `end`, as day numbers
+function monthStarts(start: number, end: number) {
+  const days: number[] = []
+  let cursor = toDayNumber(addMonths(startOfMonth(fromDayNumber(start)), 1))
+  while (cursor <= end) {
+    days.push(cursor)
+    cursor = toDayNumber(addMonths(fromDayNumber(cursor), 1))
+  }
+  return days
+}
+
+// Split [start, end] into page-sized time slices, breaking at month starts
+function timeSlices(start: number, end: number) {
+  const maxDays = Math.floor(CHART_WIDTH / MIN_MM_PER_DAY)
+  if (end - start <= maxDays) return [{ start, end }]
+
+  const slices: Array<{ start: number; end: number }> = []
+  let sliceStart = start
+  const breaks = [...monthStarts(start, end), end]
+  let previous = sliceStart
+  breaks.forEach(day => {
+    if (day - sliceStart > maxDays && previous > sliceStart) {
+      slices.push({ start: sliceStart, end: previous })
+      sliceStart = previous
+    }
+    // A single month longer than a page still has to be cut somewhere
+    while (day - sliceStart > maxDays) {
+      slices.push({ start: sliceStart, end: sliceStart + maxDays })
+      sliceStart += maxDays
+    }
+    previous = day
+  })
+  if (end > sliceStart) slices.push({ start: sliceStart, end })
+  return slices
+}
+
+// Shorten text with an ellipsis until it fits the given width
+function fitText(doc: jsPDF, text: string, width: number) {
+  if (doc.getTextWidth(text) <= width) return text
+  let fitted = text
+  while (fitted.length > 1 && doc.getTextWidth(`${fitted}…`) > width) fitted = fitted.slice(0, -1)
+  return `${fitted.trimEnd()}…`
+}
+
+function diamond(doc: jsPDF, x: number, y: number, size: number) {
+  doc.lines([[size, size], [-size, size], [-size, -size], [size, -size]], x, y - size, [1, 1], 'F', true)
+}
+
+export function drawGanttPdf(doc: jsPDF, options: GanttPdfOptions) {
+  const { tasks, progress, ownerColors, categoryColors, categoryLabels } = options
+  const rangeStart = toDayNumber(options.rangeStart)
+  const rangeEnd = Math.max(rangeStart + 1, toDayNumber(options.rangeEnd))
+  const today = toDayNumber(options.currentDate)
+
+  const rows = tasks.filter(task => toDayNumber(task.end) >= rangeStart && toDayNumber(task.start) <= rangeEnd)
+  const slices = timeSlices(rangeStart, rangeEnd)
+  const rowChunks: GanttPdfTask[][] = []
+  for (let i = 0; i < Math.max(rows.length, 1); i += ROWS_PER_PAGE) rowChunks.push(rows.slice(i, i + ROWS_PER_PAGE))
+  const pageCount = rowChunks.length * slices.length
+  const owners = Array.from(new Set(rows.map(task => task.owner)))
+  const categories = Array.from(new Set(rows.flatMap(task => task.categories || [])))
+
+  let page = 0
+  rowChunks.forEach((chunk, chunkIndex) => {
+    slices.forEach(slice => {
+      if (page > 0) doc.addPage()
+      page++
+
+      // Fit uniform single pages to the width; sliced pages share one scale
+      const scale = slices.length === 1 ? CHART_WIDTH / (slice.end - slice.start) : MIN_MM_PER_DAY
+      const chartRight = CHART_LEFT + (slice.end - slice.start) * scale
+      const x = (day: number) => CHART_LEFT + (day - slice.start) * scale
+      const chartBottom = CHART_TOP + Math.max(chunk.length, 1) * ROW_HEIGHT
+
+      // Title
+      doc.setTextColor(15, 23, 42)
+      doc.setFontSize(14)
+      doc.text(options.title, MARGIN, MARGIN + 5)
+      doc.setFontSize(8)
+      doc.setTextColor(100, 116, 139)
+      const firstRow = chunkIndex * ROWS_PER_PAGE + 1
+      doc.text(
+        `${fromDayNumber(slice.start)} to ${fromDayNumber(slice.end)} • tasks ${rows.length ? firstRow : 0}–${firstRow + chunk.length - 1} of ${rows.length} • generated ${new Date().toLocaleDateString()}`,
+        MARGIN,
+        MARGIN + 10
+      )
+
+      // Month grid with alternating shading
+      const monthHeaderY = CHART_TOP - 4
+      const bounds = [slice.start, ...monthStarts(slice.start, slice.end), slice.end]
+      bounds.slice(0, -1).forEach((monthStart, i) => {
+        const monthEnd = bounds[i + 1]
+        if (i % 2 === 1) {
+          doc.setFillColor(248, 250, 252)
+          doc.rect(x(monthStart), CHART_TOP, (monthEnd - monthStart) * scale, chartBottom - CHART_TOP, 'F')
+        }
+        doc.setDrawColor(203, 213, 225)
+        doc.setLineWidth(0.2)
+        doc.line(x(monthStart), CHART_TOP - 8, x(monthStart), chartBottom)
+        const width = (monthEnd - monthStart) * scale
+        if (width > 6) {
+          doc.setFontSize(7)
+          doc.setTextColor(71, 85, 105)
+          doc.text(fitText(doc, monthLabel(monthStart), width - 2), x(monthStart) + 1, monthHeaderY)
+        }
+      })
+      doc.line(chartRight, CHART_TOP - 8, chartRight, chartBottom)
+      doc.line(MARGIN, CHART_TOP, chartRight, CHART_TOP)
+
+      // Rows
+      chunk.forEach((task, i) => {
+        const rowTop = CHART_TOP + i * ROW_HEIGHT
+        const barTop = rowTop + (ROW_HEIGHT - BAR_HEIGHT) / 2
+        doc.setDrawColor(226, 232, 240)
+        doc.setLineWidth(0.1)
+        doc.line(MARGIN, rowTop + ROW_HEIGHT, chartRight, rowTop + ROW_HEIGHT)
+
+        doc.setFontSize(7)
+        doc.setTextColor(15, 23, 42)
+        doc.text(fitText(doc, task.label, LABEL_WIDTH - 3), MARGIN, rowTop + ROW_HEIGHT / 2 + 1.2)
+
+        // Same span as the on-screen bars: start up to end, at least a day
+        const taskStart = toDayNumber(task.start)
+        const taskEnd = Math.max(taskStart + 1, toDayNumber(task.end))
+        const from = Math.max(taskStart, slice.start)
+        const to = Math.min(taskEnd, slice.end)
+        if (to <= from) return
+
+        const color = hexToRgb(ownerColors[task.owner] || FALLBACK_COLOR)
+        const barWidth = (to - from) * scale
+        doc.setFillColor(...tint(color, 0.6))
+        doc.rect(x(from), barTop, barWidth, BAR_HEIGHT, 'F')
+
+        // Progress is measured along the whole task, then clipped to the slice
+        const pct = progress[task.id] || 0
+        const doneUntil = Math.min(to, taskStart + ((taskEnd - taskStart) * pct) / 100)
+        if (doneUntil > from) {
+          doc.setFillColor(...color)
+          doc.rect(x(from), barTop, (doneUntil - from) * scale, BAR_HEIGHT, 'F')
+        }
+
+        // One stripe segment per category, side by side along the bar
+        const stripes = task.categories || []
+        stripes.forEach((category, i) => {
+          doc.setFillColor(...hexToRgb(categoryColors[category] || FALLBACK_COLOR))
+          doc.rect(x(from) + (i * barWidth) / stripes.length, barTop + BAR_HEIGHT - STRIPE_HEIGHT, barWidth / stripes.length, STRIPE_HEIGHT, 'F')
+        })
+
+        doc.setFontSize(6)
+        doc.setTextColor(71, 85, 105)
+        const pctLabel = `${pct}%`
+        if (x(to) + 1 + doc.getTextWidth(pctLabel) <= chartRight) {
+          doc.text(pctLabel, x(to) + 1, barTop + BAR_HEIGHT - 0.6)
+        } else if (barWidth > doc.getTextWidth(pctLabel) + 2) {
+          doc.setTextColor(255, 255, 255)
+          doc.text(pctLabel, x(to) - 1 - doc.getTextWidth(pctLabel), barTop + BAR_HEIGHT - 0.6)
+        }
+      })
+
+      // Milestones: dashed line through the rows, diamond in the header.
+      // Labels that would run into the previous one move up a line.
+      let previousLabelEnd = -Infinity
+      let raised = false
+      options.milestones.forEach(milestone => {
+        const day = toDayNumber(milestone.date)
+        if (day < slice.start || day > slice.end) return
+        doc.setDrawColor(...MILESTONE_COLOR)
+        doc.setLineWidth(0.3)
+        doc.setLineDashPattern([1, 1], 0)
+        doc.line(x(day), CHART_TOP, x(day), chartBottom)
+        doc.setLineDashPattern([], 0)
+        doc.setFontSize(6)
+        const label = fitText(doc, milestone.label, 40)
+        raised = x(day) < previousLabelEnd && !raised
+        const markerY = CHART_TOP - (raised ? 15.5 : 11.5)
+        previousLabelEnd = x(day) + 2.2 + doc.getTextWidth(label)
+        doc.setFillColor(...MILESTONE_COLOR)
+        diamond(doc, x(day), markerY, 1.6)
+        doc.setTextColor(...MILESTONE_COLOR)
+        doc.text(label, x(day) + 2.2, markerY + 1)
+      })
+
+      // Today marker
+      if (today >= slice.start && today <= slice.end) {
+        doc.setDrawColor(...TODAY_COLOR)
+        doc.setLineWidth(0.5)
+        doc.line(x(today), CHART_TOP - 2, x(today), chartBottom)
+        doc.setFontSize(6)
+        doc.setTextColor(...TODAY_COLOR)
+        doc.text('Today', x(today) + 1, chartBottom + 3)
+      }
+
+      // Legend and page number
+      let legendX = MARGIN
+      const legendY = PAGE_HEIGHT - MARGIN - 6
+      doc.setFontSize(6.5)
+      const legendItem = (color: RGB, label: string, stripe = false) => {
+        doc.setFillColor(...color)
+        doc.rect(legendX, legendY - (stripe ? 1 : 2.5), 5, stripe ? 1 : 3, 'F')
+        doc.setTextColor(71, 85, 105)
+        doc.text(label, legendX + 6, legendY)
+        legendX += 8 + doc.getTextWidth(label)
+      }
+      owners.forEach(owner => legendItem(hexToRgb(ownerColors[owner] || FALLBACK_COLOR), owner))
+      if (categories.length > 0) legendX += 4
+      categories.forEach(category => legendItem(hexToRgb(categoryColors[category] || FALLBACK_COLOR), categoryLabels[category] || category, true))
+      legendX += 4
+      doc.setFillColor(...MILESTONE_COLOR)
+      diamond(doc, legendX + 1.5, legendY - 1, 1.4)
+      doc.text('Milestone', legendX + 4, legendY)
+      legendX += 7 + doc.getTextWidth('Milestone')
+      legendItem(TODAY_COLOR, 'Today')
+
+      doc.setTextColor(148, 163, 184)
+      doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN, { align: 'right' })
+    })
+  })
+}
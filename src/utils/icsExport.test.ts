@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { buildIcsCalendar } from './icsExport'
+import { upgradeMilestones } from './milestones'
+
+const exportAt = (time: string, label: string) => {
+  vi.setSystemTime(new Date(time))
+  return buildIcsCalendar([], [{ id: 'launch', date: '2026-04-01', label }], {}, {}, 'Test')
+}
+
+describe('calendar export', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('keeps a renamed milestone on the same UID with a higher SEQUENCE', () => {
+    vi.useFakeTimers()
+    const before = exportAt('2026-03-01T09:00:00Z', 'Launch')
+    const after = exportAt('2026-03-02T09:00:00Z', 'Public Launch')
+    expect(before).toContain('UID:milestone-launch@brand-rebuild.local')
+    expect(after).toContain('UID:milestone-launch@brand-rebuild.local')
+    const sequence = (ics: string) => Number(ics.match(/SEQUENCE:(\d+)/)![1])
+    expect(sequence(after)).toBeGreaterThan(sequence(before))
+    expect(after).toContain('DTSTAMP:20260302T090000Z')
+  })
+
+  it('gives older milestones the UID earlier exports used', () => {
+    const [milestone] = upgradeMilestones([{ date: '2026-03-30', label: 'LEDucation NYC' }])
+    const ics = buildIcsCalendar([], [milestone], {}, {}, 'Test')
+    expect(ics).toContain('UID:milestone-2026-03-30-leducation-nyc@brand-rebuild.local')
+  })
+})
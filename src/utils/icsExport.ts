@@ -0,0 +1,106 @@
+// iCalendar (.ics) export of tasks and milestones.
+//
+// Tasks become all-day events covering their start and end dates, milestones
+// single-day events. UIDs are derived from task and milestone ids, and every
+// export carries a higher SEQUENCE than the last, so importing a newer export
+// into the same calendar updates events instead of duplicating them.
+
+import { addDays } from './dates'
+import type { Milestone } from './persistence'
+
+interface CalendarTask {
+  id: string
+  label: string
+  start: string
+  end: string
+  owner: string
+  categories?: string[]
+}
+
+const UID_DOMAIN = 'brand-rebuild.local'
+
+// Escape TEXT values (RFC 5545 §3.3.11)
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+const toIcsDate = (date: string) => date.replace(/-/g, '')
+
+// Seconds since 2020, so each export outranks the ones before it
+const sequenceAt = (now: Date) => Math.floor((now.getTime() - Date.UTC(2020, 0, 1)) / 1000)
+
+// Lines longer than 75 octets are folded onto continuation lines that start
+// with a space
+function foldLine(line: string) {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= 75) return line
+  const parts: string[] = []
+  let current = ''
+  let size = 0
+  for (const char of line) {
+    const charSize = encoder.encode(char).length
+    const limit = parts.length === 0 ? 75 : 74
+    if (size + charSize > limit) {
+      parts.push(current)
+      current = ''
+      size = 0
+    }
+    current += char
+    size += charSize
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+export function buildIcsCalendar(
+  tasks: CalendarTask[],
+  milestones: Milestone[],
+  progress: Record<string, number>,
+  categoryLabels: Record<string, string>,
+  calendarName: string,
+): string {
+  const now = new Date()
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+  const sequence = sequenceAt(now)
+
+  const event = (uid: string, start: string, end: string, summary: string, fields: string[]) => [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${sequence}`,
+    `DTSTART;VALUE=DATE:${toIcsDate(start)}`,
+    // DTEND is exclusive, so the event runs through the task's end date
+    `DTEND;VALUE=DATE:${toIcsDate(addDays(end < start ? start : end, 1))}`,
+    `SUMMARY:${escapeText(summary)}`,
+    ...fields,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ]
+
+  const taskEvents = tasks.flatMap(task => {
+    const categories = [task.owner, ...(task.categories || []).map(id => categoryLabels[id] || id)].map(escapeText)
+    return event(`task-${task.id}@${UID_DOMAIN}`, task.start, task.end, task.label, [
+      `CATEGORIES:${categories.join(',')}`,
+      `DESCRIPTION:${escapeText(`Owner: ${task.owner}\nProgress: ${progress[task.id] || 0}%`)}`,
+    ])
+  })
+
+  const milestoneEvents = milestones.flatMap(milestone =>
+    event(`milestone-${milestone.id}@${UID_DOMAIN}`, milestone.date, milestone.date, `◆ ${milestone.label}`, [
+      'CATEGORIES:Milestone',
+      `DESCRIPTION:${escapeText(`Milestone: ${milestone.label}`)}`,
+    ])
+  )
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Brand Rebuild//Project Timeline//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...taskEvents,
+    ...milestoneEvents,
+    'END:VCALENDAR',
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,147 @@
+// Resource leveling: proposes later dates for non-critical tasks so fewer
+// people are booked beyond capacity.
+//
+// A greedy pass. While someone is over capacity, every movable task behind an
+// over-allocated week is tried at each delay it allows, and the single move
+// that removes the most overload wins (the shorter delay on a tie). A task is
+// movable when the critical path schedules it as non-critical; it may slip
+// only as far as its successors' links and the finish target allow, measured
+// on the dates already proposed, so the moves never push another task or the
+// finish date. Each task moves at most once, keeps its duration and still
+// starts on a working day.
+
+import { addDays, daysBetween } from './dates'
+import { linkGap, type TaskDependency } from './dependencies'
+import type { TaskSchedule } from './criticalPath'
+import type { SubtaskDefinition } from './persistence'
+import { isWorkingDay, type ProjectCalendar } from './workCalendar'
+import { DEFAULT_CAPACITY, roundPercent, taskShares, weekFractions, workloadWeeks } from './workload'
+
+interface LevelingTask {
+  id: string
+  label: string
+  start: string
+  end: string
+  owner: string
+  assignees?: string[]
+  dependencies?: TaskDependency[]
+}
+
+export interface LevelingMove {
+  taskId: string
+  label: string
+  owner: string
+  people: string[] // whose load the move relieves or adds to
+  start: string
+  end: string
+  newStart: string
+  newEnd: string
+  shiftDays: number
+}
+
+export interface LevelingProposal {
+  moves: LevelingMove[]
+  overBefore: number // person-weeks beyond capacity
+  overAfter: number
+}
+
+export function proposeLeveling(
+  tasks: LevelingTask[],
+  subtaskDefinitions: Record<string, SubtaskDefinition[]>,
+  range: { start: string; end: string },
+  calendar: ProjectCalendar,
+  schedule: Record<string, TaskSchedule>,
+  finishTarget: string,
+  capacity = DEFAULT_CAPACITY,
+): LevelingProposal {
+  const weeks = workloadWeeks(range)
+  const weekIndex = new Map(weeks.map((week, i) => [week, i]))
+  const current = new Map(tasks.map(task => [task.id, task]))
+  const shares = new Map(tasks.map(task => [task.id, taskShares(task, subtaskDefinitions[task.id])]))
+
+  // Each person's load per week, updated as moves are applied
+  const loads = new Map<string, number[]>()
+  const book = (task: LevelingTask, fractions: Map<number, number>, sign: number) => {
+    shares.get(task.id)!.forEach((share, person) => {
+      if (!loads.has(person)) loads.set(person, weeks.map(() => 0))
+      const load = loads.get(person)!
+      fractions.forEach((fraction, index) => { load[index] += sign * fraction * share * 100 })
+    })
+  }
+  const fractionsOf = (task: LevelingTask) => weekFractions(task, weekIndex, calendar)
+  tasks.forEach(task => book(task, fractionsOf(task), 1))
+
+  const isOver = (percent: number) => roundPercent(percent) > capacity
+  const overload = (people: Iterable<string>) => {
+    let total = 0
+    for (const person of people) loads.get(person)?.forEach(percent => { if (isOver(percent)) total += percent - capacity })
+    return total
+  }
+  const overWeeks = () => Array.from(loads.values()).reduce((sum, load) => sum + load.filter(isOver).length, 0)
+  const overBefore = overWeeks()
+
+  // Latest delay that keeps every outgoing link and the finish target
+  const maxDelay = (task: LevelingTask) => {
+    let limit = daysBetween(task.end, finishTarget)
+    current.forEach(successor => {
+      ;(successor.dependencies || []).forEach(dep => {
+        if (dep.predecessorId === task.id) limit = Math.min(limit, linkGap(task, successor, dep))
+      })
+    })
+    return Math.max(0, limit)
+  }
+
+  const moved = new Set<string>()
+  const moves: LevelingMove[] = []
+  for (;;) {
+    let best: { task: LevelingTask; delay: number; gain: number } | null = null
+
+    for (const task of current.values()) {
+      const people = Array.from(shares.get(task.id)!.keys())
+      if (people.length === 0 || moved.has(task.id) || !schedule[task.id] || schedule[task.id].critical) continue
+      const fractions = fractionsOf(task)
+      const behindPeak = people.some(person => Array.from(fractions.keys()).some(index => isOver(loads.get(person)![index])))
+      if (!behindPeak) continue
+
+      const limit = maxDelay(task)
+      if (limit === 0) continue
+      const before = overload(people)
+      book(task, fractions, -1)
+      for (let delay = 1; delay <= limit; delay++) {
+        const shifted = { ...task, start: addDays(task.start, delay), end: addDays(task.end, delay) }
+        if (!isWorkingDay(shifted.start, calendar, task.owner)) continue
+        const shiftedFractions = fractionsOf(shifted)
+        book(shifted, shiftedFractions, 1)
+        const gain = before - overload(people)
+        book(shifted, shiftedFractions, -1)
+        if (gain > 0.05 && (!best || gain > best.gain + 0.05)) best = { task, delay, gain }
+      }
+      book(task, fractions, 1)
+    }
+
+    if (!best) break
+    const { task, delay } = best
+    const shifted = { ...task, start: addDays(task.start, delay), end: addDays(task.end, delay) }
+    book(task, fractionsOf(task), -1)
+    book(shifted, fractionsOf(shifted), 1)
+    current.set(task.id, shifted)
+    moved.add(task.id)
+    moves.push({
+      taskId: task.id,
+      label: task.label,
+      owner: task.owner,
+      people: Array.from(shares.get(task.id)!.keys()),
+      start: task.start,
+      end: task.end,
+      newStart: shifted.start,
+      newEnd: shifted.end,
+      shiftDays: delay,
+    })
+  }
+
+  return {
+    moves: moves.sort((a, b) => a.start.localeCompare(b.start) || a.label.localeCompare(b.label)),
+    overBefore,
+    overAfter: overWeeks(),
+  }
+}
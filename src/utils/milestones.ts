@@ -0,0 +1,15 @@
+// Milestones: named dates on the timeline.
+//
+// Each milestone carries an id that stays the same when it is renamed or
+// moved, so a calendar export updates its event and a project file merge
+// finds it again. Milestones from before ids existed get one built from their
+// date and label, which is also what calendar UIDs were built from then.
+
+import type { Milestone } from './persistence'
+
+// "2026-03-30" and "LEDucation NYC" → "2026-03-30-leducation-nyc"
+export const milestoneIdFor = ({ date, label }: { date: string; label: string }) =>
+  `${date}-${label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`
+
+export const upgradeMilestones = (milestones: Array<Omit<Milestone, 'id'> & { id?: string }>): Milestone[] =>
+  milestones.map(milestone => (milestone.id ? (milestone as Milestone) : { ...milestone, id: milestoneIdFor(milestone) }))
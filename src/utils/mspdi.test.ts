@@ -0,0 +1,73 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { buildMspdiXml, parseMspdiXml } from './mspdi'
+import type { TaskDefinition } from './persistence'
+
+const tasks: TaskDefinition[] = [
+  { id: 'brief', label: 'Brief', start: '2026-03-02', end: '2026-03-06', owner: 'Design' },
+  {
+    id: 'concepts',
+    label: 'Concepts',
+    start: '2026-03-16',
+    end: '2026-03-27',
+    owner: 'Design',
+    dependencies: [{ predecessorId: 'brief', type: 'FS', lag: 7 }],
+  },
+  {
+    id: 'review',
+    label: 'Review',
+    start: '2026-03-16',
+    end: '2026-03-20',
+    owner: 'Leadership',
+    dependencies: [{ predecessorId: 'brief', type: 'SS', lag: 14 }],
+  },
+]
+
+// A file with one link from Brief to Concepts saved in `lagFormat`
+const linkedFile = (linkLag: number, lagFormat: number) => `<?xml version="1.0" encoding="UTF-8"?>
+<Project xmlns="http://schemas.microsoft.com/project">
+  <MinutesPerDay>480</MinutesPerDay>
+  <Tasks>
+    <Task><UID>1</UID><Name>Brief</Name><OutlineLevel>1</OutlineLevel><Start>2026-03-02T08:00:00</Start><Finish>2026-03-11T17:00:00</Finish></Task>
+    <Task><UID>2</UID><Name>Concepts</Name><OutlineLevel>1</OutlineLevel><Start>2026-03-16T08:00:00</Start><Finish>2026-03-27T17:00:00</Finish>
+      <PredecessorLink><PredecessorUID>1</PredecessorUID><Type>1</Type><LinkLag>${linkLag}</LinkLag><LagFormat>${lagFormat}</LagFormat></PredecessorLink>
+    </Task>
+  </Tasks>
+</Project>`
+
+const lagOf = (text: string) => parseMspdiXml(text).project?.baseTracks[1].dependencies?.[0].lag
+
+describe('MSPDI dependency lag', () => {
+  it('exports calendar-day lag as elapsed days', () => {
+    const xml = buildMspdiXml(tasks, {}, {}, {}, [], 'Test')
+    expect(xml).toContain('<LinkLag>100800</LinkLag><LagFormat>8</LagFormat>')
+    expect(xml).toContain('<LinkLag>201600</LinkLag><LagFormat>8</LagFormat>')
+  })
+
+  it('round-trips lag and link type', () => {
+    const { project, errors } = parseMspdiXml(buildMspdiXml(tasks, {}, {}, {}, [], 'Test'))
+    expect(errors).toEqual([])
+    const byId = Object.fromEntries(project!.baseTracks.map(task => [task.id, task]))
+    expect(byId.concepts.dependencies).toEqual([{ predecessorId: 'brief', type: 'FS', lag: 7 }])
+    expect(byId.review.dependencies).toEqual([{ predecessorId: 'brief', type: 'SS', lag: 14 }])
+  })
+
+  it('reads elapsed days', () => {
+    expect(lagOf(linkedFile(3 * 14400, 8))).toBe(3)
+  })
+
+  it('reads working days as calendar days', () => {
+    // Five 8-hour working days make a calendar week
+    expect(lagOf(linkedFile(5 * 4800, 7))).toBe(7)
+    expect(lagOf(linkedFile(10 * 4800, 9))).toBe(14)
+  })
+
+  it('reads elapsed weeks', () => {
+    expect(lagOf(linkedFile(7 * 14400, 10))).toBe(7)
+  })
+
+  it('reads a percentage of the predecessor', () => {
+    // 50% of a ten-day predecessor
+    expect(lagOf(linkedFile(500, 19))).toBe(5)
+  })
+})
@@ -0,0 +1,355 @@
+// Microsoft Project XML (MSPDI) export and import.
+//
+// Export writes each track as an outline-level-1 task with its subtasks
+// beneath it, owners as resources with assignments, dependency links as
+// predecessor links and milestones as zero-duration tasks. Subtasks finish on
+// their due date and are assigned to their assignee, if they have one. The
+// app's task id, categories, owner and subtask weight travel in extended
+// attributes so a file that went through MS Project imports back onto the same
+// tracks.
+
+import { addDays, businessDaysBetween, daysBetween } from './dates'
+import type { DependencyType, TaskDependency } from './dependencies'
+import type { Milestone, SubtaskDefinition, SubtaskProgress, TaskDefinition } from './persistence'
+import type { ProjectFileError } from './projectFile'
+import { progressFromPercent, subtaskPercent } from './subtasks'
+import { milestoneIdFor } from './milestones'
+
+export interface MspdiImport {
+  baseTracks: TaskDefinition[]
+  subtaskDefinitions: Record<string, SubtaskDefinition[]>
+  subtaskProgress: Record<string, Record<string, SubtaskProgress>>
+  milestones: Milestone[]
+}
+
+// Text1, Text2, Text3 and Number1 custom fields
+const FIELD_TASK_ID = '188743731'
+const FIELD_CATEGORY = '188743734'
+const FIELD_OWNER = '188743737'
+const FIELD_WEIGHT = '188743767'
+
+const UNASSIGNED_OWNER = 'Unassigned'
+
+// MSPDI link types
+const linkTypeCodes: Record<DependencyType, number> = { FF: 0, FS: 1, SF: 2, SS: 3 }
+const linkTypesByCode: Record<string, DependencyType> = { '0': 'FF', '1': 'FS', '2': 'SF', '3': 'SS' }
+
+// LinkLag is in tenths of a minute whatever the LagFormat; the format only
+// picks the unit MS Project shows it in. The app's lag is in calendar days, so
+// it goes out as elapsed days (format 8, 24 hours a day).
+const LAG_UNITS_PER_ELAPSED_DAY = 24 * 60 * 10
+const LAG_FORMAT_ELAPSED_DAYS = 8
+// Elapsed minutes, hours, days, weeks and months, plus their estimated forms
+const ELAPSED_LAG_FORMATS = new Set(['4', '6', '8', '10', '12', '36', '38', '40', '42', '44'])
+// Lag as a share of the predecessor's duration, in tenths of a percent
+const PERCENT_LAG_FORMATS = new Set(['19', '20', '51', '52'])
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// Working days from start to end inclusive, at least one
+const workingDays = (start: string, end: string) => Math.max(1, businessDaysBetween(start, addDays(end, 1)))
+
+const duration = (hours: number) => `PT${hours}H0M0S`
+
+const element = (name: string, value: string | number) => `<${name}>${typeof value === 'string' ? escapeXml(value) : value}</${name}>`
+
+const extendedAttribute = (fieldId: string, value: string | number) =>
+  `<ExtendedAttribute>${element('FieldID', fieldId)}${element('Value', value)}</ExtendedAttribute>`
+
+export function buildMspdiXml(
+  tasks: TaskDefinition[],
+  subtaskDefinitions: Record<string, SubtaskDefinition[]>,
+  subtaskProgress: Record<string, Record<string, SubtaskProgress>>,
+  progress: Record<string, number>,
+  milestones: Milestone[],
+  projectName: string,
+): string {
+  const assignees = tasks.flatMap(task => (subtaskDefinitions[task.id] || []).flatMap(subtask => (subtask.assignee ? [subtask.assignee] : [])))
+  const owners = Array.from(new Set([...tasks.map(task => task.owner), ...assignees]))
+  const resourceUid = (owner: string) => owners.indexOf(owner) + 1
+  const taskUids: Record<string, number> = {}
+  tasks.forEach((task, i) => { taskUids[task.id] = i + 1 })
+  let nextUid = tasks.length + 1
+
+  const taskXml: string[] = []
+  const assignmentXml: string[] = []
+  let row = 0
+
+  tasks.forEach((task, i) => {
+    const uid = taskUids[task.id]
+    const subtasks = subtaskDefinitions[task.id] || []
+    const days = workingDays(task.start, task.end)
+    const links = (task.dependencies || []).filter(dep => taskUids[dep.predecessorId])
+    row++
+
+    taskXml.push([
+      '<Task>',
+      element('UID', uid),
+      element('ID', row),
+      element('Name', task.label),
+      element('OutlineNumber', String(i + 1)),
+      element('OutlineLevel', 1),
+      element('Start', `${task.start}T08:00:00`),
+      element('Finish', `${task.end}T17:00:00`),
+      element('Duration', duration(days * 8)),
+      element('DurationFormat', 7),
+      element('Milestone', 0),
+      element('Summary', subtasks.length > 0 ? 1 : 0),
+      element('PercentComplete', progress[task.id] || 0),
+      ...links.map(dep => [
+        '<PredecessorLink>',
+        element('PredecessorUID', taskUids[dep.predecessorId]),
+        element('Type', linkTypeCodes[dep.type]),
+        element('LinkLag', dep.lag * LAG_UNITS_PER_ELAPSED_DAY),
+        element('LagFormat', LAG_FORMAT_ELAPSED_DAYS),
+        '</PredecessorLink>',
+      ].join('')),
+      extendedAttribute(FIELD_TASK_ID, task.id),
+      task.categories?.length ? extendedAttribute(FIELD_CATEGORY, task.categories.join(',')) : '',
+      extendedAttribute(FIELD_OWNER, task.owner),
+      '</Task>',
+    ].join(''))
+
+    // Summary tasks take their work from their subtasks
+    if (subtasks.length === 0) {
+      assignmentXml.push(`<Assignment>${element('UID', assignmentXml.length + 1)}${element('TaskUID', uid)}${element('ResourceUID', resourceUid(task.owner))}${element('Units', 1)}</Assignment>`)
+    }
+
+    subtasks.forEach((subtask, j) => {
+      const subUid = nextUid++
+      const finish = subtask.due || task.end
+      const start = finish < task.start ? finish : task.start
+      row++
+      taskXml.push([
+        '<Task>',
+        element('UID', subUid),
+        element('ID', row),
+        element('Name', subtask.label),
+        element('OutlineNumber', `${i + 1}.${j + 1}`),
+        element('OutlineLevel', 2),
+        element('Start', `${start}T08:00:00`),
+        element('Finish', `${finish}T17:00:00`),
+        element('Duration', duration(workingDays(start, finish) * 8)),
+        element('DurationFormat', 7),
+        element('Milestone', 0),
+        element('Summary', 0),
+        element('PercentComplete', subtaskPercent(subtaskProgress[task.id]?.[subtask.id])),
+        subtask.description ? element('Notes', subtask.description) : '',
+        extendedAttribute(FIELD_TASK_ID, subtask.id),
+        extendedAttribute(FIELD_WEIGHT, subtask.weight),
+        '</Task>',
+      ].join(''))
+      assignmentXml.push(`<Assignment>${element('UID', assignmentXml.length + 1)}${element('TaskUID', subUid)}${element('ResourceUID', resourceUid(subtask.assignee || task.owner))}${element('Units', 1)}</Assignment>`)
+    })
+  })
+
+  milestones.forEach((milestone, i) => {
+    row++
+    taskXml.push([
+      '<Task>',
+      element('UID', nextUid++),
+      element('ID', row),
+      element('Name', milestone.label),
+      element('OutlineNumber', String(tasks.length + i + 1)),
+      element('OutlineLevel', 1),
+      element('Start', `${milestone.date}T08:00:00`),
+      element('Finish', `${milestone.date}T08:00:00`),
+      element('Duration', duration(0)),
+      element('DurationFormat', 7),
+      element('Milestone', 1),
+      element('Summary', 0),
+      element('PercentComplete', 0),
+      '</Task>',
+    ].join(''))
+  })
+
+  const allDates = [...tasks.flatMap(t => [t.start, t.end]), ...milestones.map(m => m.date)].sort()
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Project xmlns="http://schemas.microsoft.com/project">',
+    element('Name', `${projectName}.xml`),
+    element('Title', projectName),
+    element('ScheduleFromStart', 1),
+    allDates.length > 0 ? element('StartDate', `${allDates[0]}T08:00:00`) : '',
+    allDates.length > 0 ? element('FinishDate', `${allDates[allDates.length - 1]}T17:00:00`) : '',
+    element('MinutesPerDay', 480),
+    element('MinutesPerWeek', 2400),
+    element('DaysPerMonth', 20),
+    '<ExtendedAttributes>',
+    `<ExtendedAttribute>${element('FieldID', FIELD_TASK_ID)}${element('FieldName', 'Text1')}${element('Alias', 'Task ID')}</ExtendedAttribute>`,
+    `<ExtendedAttribute>${element('FieldID', FIELD_CATEGORY)}${element('FieldName', 'Text2')}${element('Alias', 'Category')}</ExtendedAttribute>`,
+    `<ExtendedAttribute>${element('FieldID', FIELD_OWNER)}${element('FieldName', 'Text3')}${element('Alias', 'Owner')}</ExtendedAttribute>`,
+    `<ExtendedAttribute>${element('FieldID', FIELD_WEIGHT)}${element('FieldName', 'Number1')}${element('Alias', 'Weight')}</ExtendedAttribute>`,
+    '</ExtendedAttributes>',
+    `<Tasks>${taskXml.join('')}</Tasks>`,
+    `<Resources>${owners.map((owner, i) => `<Resource>${element('UID', i + 1)}${element('ID', i + 1)}${element('Name', owner)}${element('Type', 1)}</Resource>`).join('')}</Resources>`,
+    `<Assignments>${assignmentXml.join('')}</Assignments>`,
+    '</Project>',
+  ].join('\n')
+}
+
+// Direct child element text, so a task's fields aren't confused with those of
+// nested elements
+const childText = (parent: Element, name: string) =>
+  Array.from(parent.children).find(child => child.localName === name)?.textContent?.trim() || ''
+
+const children = (parent: Element | undefined, name: string) =>
+  parent ? Array.from(parent.children).filter(child => child.localName === name) : []
+
+const extendedValue = (task: Element, fieldId: string) => {
+  const attr = children(task, 'ExtendedAttribute').find(a => childText(a, 'FieldID') === fieldId)
+  return attr ? childText(attr, 'Value') : ''
+}
+
+const datePart = (value: string) => (/^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : '')
+
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')
+
+// Read an MSPDI file back into tracks, subtasks and milestones. Outline level
+// 1 tasks become tracks, deeper tasks subtasks of their level 1 ancestor.
+export function parseMspdiXml(text: string): { project?: MspdiImport; errors: ProjectFileError[] } {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  const root = doc.documentElement
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'Project') {
+    return { errors: [{ field: '(file)', message: 'is not a Microsoft Project XML file' }] }
+  }
+
+  const errors: ProjectFileError[] = []
+  const resources: Record<string, string> = {}
+  children(children(root, 'Resources')[0], 'Resource').forEach(resource => {
+    resources[childText(resource, 'UID')] = childText(resource, 'Name')
+  })
+  const owners: Record<string, string> = {}
+  children(children(root, 'Assignments')[0], 'Assignment').forEach(assignment => {
+    const name = resources[childText(assignment, 'ResourceUID')]
+    const taskUid = childText(assignment, 'TaskUID')
+    if (name && !owners[taskUid]) owners[taskUid] = name
+  })
+
+  const baseTracks: TaskDefinition[] = []
+  const subtaskDefinitions: Record<string, SubtaskDefinition[]> = {}
+  const subtaskProgress: Record<string, Record<string, SubtaskProgress>> = {}
+  const milestones: Milestone[] = []
+  const trackIdsByUid: Record<string, string> = {}
+  const links: Array<{ track: TaskDefinition; predecessorUid: string; type: DependencyType; lag: number; lagFormat: string }> = []
+  // Working-time lag converts at the file's working day, then a five-day week
+  const unitsPerWorkingDay = (Number(childText(root, 'MinutesPerDay')) || 480) * 10
+  let currentTrack: TaskDefinition | null = null
+
+  children(children(root, 'Tasks')[0], 'Task').forEach((task, i) => {
+    const uid = childText(task, 'UID')
+    const level = Number(childText(task, 'OutlineLevel') || '1')
+    const name = childText(task, 'Name')
+    const field = `Tasks[${i}]`
+    // UID 0 is the project summary task
+    if (level === 0 || uid === '0' || childText(task, 'IsNull') === '1') return
+    if (!name) {
+      errors.push({ field: `${field}.Name`, message: 'is missing' })
+      return
+    }
+    const start = datePart(childText(task, 'Start'))
+    const end = datePart(childText(task, 'Finish')) || start
+
+    if (childText(task, 'Milestone') === '1') {
+      if (start) milestones.push({ id: milestoneIdFor({ date: start, label: name }), date: start, label: name })
+      else errors.push({ field: `${field}.Start`, message: `milestone "${name}" has no date` })
+      return
+    }
+
+    if (level === 1) {
+      if (!start) {
+        errors.push({ field: `${field}.Start`, message: `task "${name}" has no start date` })
+        currentTrack = null
+        return
+      }
+      let id = extendedValue(task, FIELD_TASK_ID) || slug(name) || `mspdi_${uid}`
+      while (baseTracks.some(track => track.id === id)) id = `${id}_${uid}`
+      const track: TaskDefinition = {
+        id,
+        label: name,
+        start,
+        end: end < start ? start : end,
+        owner: extendedValue(task, FIELD_OWNER) || owners[uid] || '',
+      }
+      // Several categories travel comma separated
+      const categories = extendedValue(task, FIELD_CATEGORY).split(',').map(id => id.trim()).filter(Boolean)
+      if (categories.length > 0) track.categories = categories
+      children(task, 'PredecessorLink').forEach(link => {
+        links.push({
+          track,
+          predecessorUid: childText(link, 'PredecessorUID'),
+          type: linkTypesByCode[childText(link, 'Type')] || 'FS',
+          lag: Number(childText(link, 'LinkLag')) || 0,
+          lagFormat: childText(link, 'LagFormat') || '7',
+        })
+      })
+      trackIdsByUid[uid] = id
+      baseTracks.push(track)
+      currentTrack = track
+      return
+    }
+
+    if (!currentTrack) {
+      errors.push({ field, message: `subtask "${name}" has no parent track` })
+      return
+    }
+    const parent: TaskDefinition = currentTrack
+    if (!parent.owner && owners[uid]) parent.owner = owners[uid]
+    const subtasks = subtaskDefinitions[parent.id] || (subtaskDefinitions[parent.id] = [])
+    let subtaskId = extendedValue(task, FIELD_TASK_ID) || slug(name) || `subtask_${uid}`
+    while (subtasks.some(subtask => subtask.id === subtaskId)) subtaskId = `${subtaskId}_${uid}`
+    const weight = Number(extendedValue(task, FIELD_WEIGHT))
+    const subtask: SubtaskDefinition = {
+      id: subtaskId,
+      label: name,
+      weight: Number.isFinite(weight) && weight > 0 ? weight : 0,
+      description: childText(task, 'Notes'),
+    }
+    // A subtask finishing with its track has no due date of its own, one
+    // assigned to the track's owner no separate assignee
+    if (end && end !== parent.end) subtask.due = end
+    if (owners[uid] && owners[uid] !== parent.owner) subtask.assignee = owners[uid]
+    subtasks.push(subtask)
+    const percent = Number(childText(task, 'PercentComplete'))
+    if (percent > 0) {
+      subtaskProgress[parent.id] = { ...subtaskProgress[parent.id], [subtaskId]: progressFromPercent(percent) }
+    }
+  })
+
+  // Lag in calendar days, from whichever unit the link was saved in
+  const calendarLag = (lag: number, lagFormat: string, predecessor: TaskDefinition) => {
+    if (PERCENT_LAG_FORMATS.has(lagFormat)) return Math.round((daysBetween(predecessor.start, predecessor.end) + 1) * lag / 1000)
+    if (ELAPSED_LAG_FORMATS.has(lagFormat)) return Math.round(lag / LAG_UNITS_PER_ELAPSED_DAY)
+    return Math.round((lag / unitsPerWorkingDay) * 7 / 5)
+  }
+
+  links.forEach(({ track, predecessorUid, type, lag, lagFormat }) => {
+    const predecessorId = trackIdsByUid[predecessorUid]
+    const predecessor = baseTracks.find(t => t.id === predecessorId)
+    if (!predecessorId || !predecessor) return
+    const dep: TaskDependency = { predecessorId, type, lag: calendarLag(lag, lagFormat, predecessor) }
+    track.dependencies = [...(track.dependencies || []), dep]
+  })
+
+  // Subtasks without stored weights share the track evenly
+  Object.values(subtaskDefinitions).forEach(subtasks => {
+    const total = subtasks.reduce((sum, subtask) => sum + subtask.weight, 0)
+    subtasks.forEach(subtask => {
+      subtask.weight = total > 0 ? subtask.weight / total : 1 / subtasks.length
+    })
+  })
+
+  // Tasks without a resource assignment still need an owner
+  baseTracks.forEach(track => {
+    if (!track.owner) track.owner = UNASSIGNED_OWNER
+  })
+
+  if (baseTracks.length === 0 && errors.length === 0) {
+    errors.push({ field: 'Tasks', message: 'contains no tasks' })
+  }
+  return errors.length > 0
+    ? { errors }
+    : { project: { baseTracks, subtaskDefinitions, subtaskProgress, milestones }, errors: [] }
+}
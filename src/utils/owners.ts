@@ -0,0 +1,78 @@
+// The owner registry: every team or agency that can own a task, with the
+// color used for its bars, badges and chart series, the gradient behind its
+// cards and, optionally, the people on it.
+//
+// Tasks refer to owners by name. A task whose owner is not registered (say,
+// from a CSV import) still renders, in the fallback color, until the owner is
+// added to the registry.
+
+import type { Owner, ScenarioPlan } from './persistence'
+import type { ProjectCalendar } from './workCalendar'
+
+export const FALLBACK_OWNER_COLOR = '#94a3b8'
+const FALLBACK_GRADIENT = { from: '#64748b', to: '#6b7280' }
+
+export const DEFAULT_OWNERS: Owner[] = [
+  { name: 'Leadership', color: '#7c3aed', gradient: { from: '#a855f7', to: '#8b5cf6' } },
+  { name: 'Marketing', color: '#f59e0b', gradient: { from: '#3b82f6', to: '#6366f1' } },
+  { name: 'Design', color: '#ec4899', gradient: { from: '#ec4899', to: '#f43f5e' } },
+  { name: 'Product', color: '#06b6d4', gradient: { from: '#22c55e', to: '#10b981' } },
+]
+
+// Colors offered to newly added owners, in order
+const OWNER_PALETTE: Array<Pick<Owner, 'color' | 'gradient'>> = [
+  { color: '#16a34a', gradient: { from: '#22c55e', to: '#15803d' } },
+  { color: '#0ea5e9', gradient: { from: '#38bdf8', to: '#0284c7' } },
+  { color: '#dc2626', gradient: { from: '#f87171', to: '#dc2626' } },
+  { color: '#ea580c', gradient: { from: '#fb923c', to: '#ea580c' } },
+  { color: '#0d9488', gradient: { from: '#2dd4bf', to: '#0f766e' } },
+  { color: '#4f46e5', gradient: { from: '#818cf8', to: '#4338ca' } },
+  { color: '#a16207', gradient: { from: '#ca8a04', to: '#854d0e' } },
+  { color: '#be185d', gradient: { from: '#f472b6', to: '#be185d' } },
+]
+
+export const findOwner = (owners: Owner[], name: string) => owners.find(owner => owner.name === name)
+
+export const ownerColor = (owners: Owner[], name: string) => findOwner(owners, name)?.color || FALLBACK_OWNER_COLOR
+
+// A registry entry for `name` in the first palette color nobody uses yet
+export function newOwner(owners: Owner[], name: string): Owner {
+  const taken = new Set(owners.map(owner => owner.color.toLowerCase()))
+  const swatch = OWNER_PALETTE.find(entry => !taken.has(entry.color)) || OWNER_PALETTE[owners.length % OWNER_PALETTE.length]
+  return { name, ...swatch }
+}
+
+// Owner name → color, for the PDF and report generators
+export const ownerColorMap = (owners: Owner[]): Record<string, string> =>
+  Object.fromEntries(owners.map(owner => [owner.name, owner.color]))
+
+// CSS background for an owner's card header or progress chip
+export const ownerGradient = (owners: Owner[], name: string) => {
+  const { from, to } = findOwner(owners, name)?.gradient || FALLBACK_GRADIENT
+  return `linear-gradient(to right, ${from}, ${to})`
+}
+
+// Owners for a selector: the registry, plus `current` if a task still uses
+// an owner that is not registered
+export const ownerOptions = (owners: Owner[], current?: string) =>
+  current && !findOwner(owners, current) ? [...owners.map(owner => owner.name), current] : owners.map(owner => owner.name)
+
+// Owner names used by tasks but missing from the registry
+export const unregisteredOwners = (owners: Owner[], taskOwners: string[]) =>
+  Array.from(new Set(taskOwners)).filter(name => !findOwner(owners, name)).sort()
+
+// Move every task in a plan from one owner to another
+export function renameOwnerInPlan<T extends Pick<ScenarioPlan, 'baseTracks' | 'customTasks' | 'taskOverrides'>>(plan: T, from: string, to: string): T {
+  const rename = <U extends { owner?: string }>(item: U): U => (item.owner === from ? { ...item, owner: to } : item)
+  return {
+    ...plan,
+    baseTracks: plan.baseTracks.map(rename),
+    customTasks: plan.customTasks.map(rename),
+    taskOverrides: Object.fromEntries(Object.entries(plan.taskOverrides).map(([taskId, override]) => [taskId, rename(override)])),
+  }
+}
+
+export const renameOwnerInCalendar = (calendar: ProjectCalendar, from: string, to: string): ProjectCalendar => ({
+  ...calendar,
+  ownerExceptions: calendar.ownerExceptions.map(exception => (exception.owner === from ? { ...exception, owner: to } : exception)),
+})
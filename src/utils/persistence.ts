@@ -0,0 +1,297 @@
+// Versioned localStorage persistence for the whole project state.
+//
+// Everything the user can change (the plan itself, its phases, timeline
+// overrides, custom tasks, deletions, subtask progress, the working calendar,
+// saved baselines, alternative scenarios, the owner and category registries
+// and display settings such as workload capacity) is stored as a single JSON blob under
+// PROJECT_STORAGE_KEY. The blob carries a schema version; when the shape
+// changes, bump CURRENT_SCHEMA_VERSION and add a migration step so blobs saved
+// by older builds keep loading. A blob this build cannot read is copied to
+// PROJECT_BACKUP_KEY and left untouched until the user's next edit.
+
+import type { TaskDependency } from './dependencies'
+import type { DayUnit } from './dates'
+import type { ProjectCalendar } from './workCalendar'
+import { categoriesFromColors, upgradePlanCategories, upgradeTaskCategories } from './categories'
+import { upgradeMilestones } from './milestones'
+
+export type TaskOverride = {
+  start?: string
+  end?: string
+  owner?: string
+  label?: string
+  dependencies?: TaskDependency[]
+  assignees?: string[]
+  categories?: string[]
+  tags?: string[]
+}
+
+export type TaskDefinition = {
+  id: string
+  label: string
+  start: string
+  end: string
+  owner: string
+  categories?: string[] // category ids, main category first
+  dependencies?: TaskDependency[]
+  assignees?: string[] // people on the owner team working on it
+  tags?: string[] // free-form labels for filtering, e.g. "print"
+}
+
+export type CustomTask = TaskDefinition
+
+export type SubtaskDefinition = {
+  id: string
+  label: string
+  weight: number
+  description: string
+  due?: string
+  assignee?: string
+}
+
+export type SubtaskState = 'todo' | 'doing' | 'done'
+
+// Where a subtask stands; `percent` refines a subtask that is under way
+export type SubtaskProgress = { state: SubtaskState; percent?: number }
+
+// `id` stays the same when the milestone is renamed or moved
+export type Milestone = { id: string; date: string; label: string }
+
+// A team or agency that owns tasks; tasks refer to it by name
+export type Owner = {
+  name: string
+  color: string
+  gradient: { from: string; to: string }
+  members?: string[]
+}
+
+// A kind of work tasks belong to; `icon` names one of the category icons
+export type Category = {
+  id: string
+  label: string
+  color: string
+  icon: string
+}
+
+// A work breakdown phase; phases nest through `parentId`
+export type Phase = { id: string; label: string; parentId?: string }
+
+export type BaselineTask = { start: string; end: string }
+
+// A named snapshot of every task's dates; `capturedAt` is an ISO timestamp
+export type Baseline = {
+  id: string
+  name: string
+  capturedAt: string
+  tasks: Record<string, BaselineTask>
+}
+
+// The parts of the plan that differ between scenarios
+export type ScenarioPlan = {
+  baseTracks: TaskDefinition[]
+  taskOverrides: Record<string, TaskOverride>
+  customTasks: CustomTask[]
+  deletedTaskIds: string[]
+}
+
+// A named alternative plan; its id doubles as the version letter in exports.
+// The active scenario's plan lives in the project's top-level fields, so only
+// the others carry a `plan`.
+export type Scenario = {
+  id: string
+  name: string
+  description: string
+  plan?: ScenarioPlan
+}
+
+export interface ProjectState {
+  baseTracks: TaskDefinition[]
+  subtaskDefinitions: Record<string, SubtaskDefinition[]>
+  milestones: Milestone[]
+  phases: Phase[]
+  taskPhases: Record<string, string>
+  taskOverrides: Record<string, TaskOverride>
+  customTasks: CustomTask[]
+  deletedTaskIds: string[]
+  subtaskProgress: Record<string, Record<string, SubtaskProgress>>
+  categories: Category[]
+  calendar: ProjectCalendar
+  dayUnit: DayUnit
+  baselines: Baseline[]
+  activeBaselineId: string | null // the baseline views compare against
+  scenarios: Scenario[]
+  activeScenarioId: string
+  owners: Owner[]
+  workloadCapacity: number // percent of a week one person can take on
+}
+
+interface PersistedProject extends ProjectState {
+  version: number
+}
+
+export const PROJECT_STORAGE_KEY = 'brandRebuildProject'
+// Where a saved blob this build cannot read is copied before anything can
+// overwrite it
+export const PROJECT_BACKUP_KEY = 'brandRebuildProject-backup'
+export const CURRENT_SCHEMA_VERSION = 12
+
+// Keys written by builds that predate the versioned blob (schema version 0)
+const LEGACY_KEYS = {
+  subtaskProgress: 'subtaskProgress',
+  categoryColors: 'categoryColors',
+}
+
+// Each migration upgrades a blob from version N to N + 1
+const migrations: Record<number, (data: any) => any> = {
+  0: (data) => ({
+    taskOverrides: {},
+    customTasks: [],
+    deletedTaskIds: [],
+    ...data,
+    version: 1,
+  }),
+  // Version 2 stores the plan (base tracks, subtask definitions, milestones);
+  // older blobs keep the built-in plan supplied as defaults
+  1: (data) => ({ ...data, version: 2 }),
+  // Version 3 adds the working calendar and day-count setting, which older
+  // blobs take from the defaults
+  2: (data) => ({ ...data, version: 3 }),
+  // Version 4 replaces subtask check marks with a todo/doing/done state
+  3: (data) => ({
+    ...data,
+    ...(data.subtaskProgress && {
+      subtaskProgress: Object.fromEntries(
+        Object.entries(data.subtaskProgress as Record<string, Record<string, boolean>>).map(([taskId, completed]) => [
+          taskId,
+          Object.fromEntries(Object.entries(completed).map(([id, done]) => [id, { state: done ? 'done' : 'todo' }])),
+        ]),
+      ),
+    }),
+    version: 4,
+  }),
+  // Version 5 adds phases and task-to-phase assignments; older blobs take the
+  // built-in phases from the defaults
+  4: (data) => ({ ...data, version: 5 }),
+  // Version 6 adds baselines; older blobs start without any
+  5: (data) => ({ ...data, version: 6 }),
+  // Version 7 adds scenarios; an older blob's plan becomes the active scenario
+  // from the defaults
+  6: (data) => ({ ...data, version: 7 }),
+  // Version 8 adds the owner registry; older blobs start with the built-in
+  // owners from the defaults
+  7: (data) => ({ ...data, version: 8 }),
+  // Version 9 adds task assignees, which are optional, and the workload
+  // capacity, which comes from the defaults
+  8: (data) => ({ ...data, version: 9 }),
+  // Version 10 replaces category colors with the category registry, and a
+  // task's single category with a list of them
+  9: ({ categoryColors, ...data }) => ({
+    ...data,
+    ...(categoryColors && { categories: categoriesFromColors(categoryColors) }),
+    ...(data.baseTracks && { baseTracks: data.baseTracks.map(upgradeTaskCategories) }),
+    ...(data.customTasks && { customTasks: data.customTasks.map(upgradeTaskCategories) }),
+    ...(data.scenarios && {
+      scenarios: data.scenarios.map((scenario: Scenario) =>
+        scenario.plan ? { ...scenario, plan: upgradePlanCategories(scenario.plan) } : scenario,
+      ),
+    }),
+    version: 10,
+  }),
+  // Version 11 adds task tags, which are optional
+  10: (data) => ({ ...data, version: 11 }),
+  // Version 12 gives every milestone an id
+  11: (data) => ({
+    ...data,
+    ...(data.milestones && { milestones: upgradeMilestones(data.milestones) }),
+    version: 12,
+  }),
+}
+
+const readJSON = (key: string) => {
+  const raw = localStorage.getItem(key)
+  if (!raw) return undefined
+  try {
+    return JSON.parse(raw)
+  } catch {
+    console.warn(`Ignoring unreadable localStorage entry "${key}"`)
+    return undefined
+  }
+}
+
+// Reassemble a version 0 blob from the legacy per-field keys, if any exist
+const readLegacyProject = () => {
+  const subtaskProgress = readJSON(LEGACY_KEYS.subtaskProgress)
+  const categoryColors = readJSON(LEGACY_KEYS.categoryColors)
+  if (subtaskProgress === undefined && categoryColors === undefined) return undefined
+
+  const legacy: Record<string, unknown> = { version: 0 }
+  if (subtaskProgress !== undefined) legacy.subtaskProgress = subtaskProgress
+  if (categoryColors !== undefined) legacy.categoryColors = categoryColors
+  return legacy
+}
+
+export const migrateProject = (data: any): any => {
+  let migrated = { ...data, version: typeof data.version === 'number' ? data.version : 0 }
+  while (migrated.version < CURRENT_SCHEMA_VERSION) {
+    const migrate = migrations[migrated.version]
+    if (!migrate) {
+      throw new Error(`No migration from project schema version ${migrated.version}`)
+    }
+    migrated = migrate(migrated)
+  }
+  return migrated
+}
+
+export interface LoadedProject {
+  state: ProjectState
+  // Why a saved blob could not be read; the blob is then in PROJECT_BACKUP_KEY
+  problem?: string
+}
+
+// Keep an unreadable blob under PROJECT_BACKUP_KEY and load the defaults
+function fallBack(defaults: ProjectState, raw: string, problem: string): LoadedProject {
+  console.warn(problem)
+  localStorage.setItem(PROJECT_BACKUP_KEY, raw)
+  return { state: defaults, problem }
+}
+
+// Load the saved project, falling back to `defaults` for anything missing.
+// Blobs written by a newer build than this one, or that fail to parse or
+// migrate, are backed up and ignored rather than misread.
+export function loadProjectState(defaults: ProjectState): LoadedProject {
+  const raw = localStorage.getItem(PROJECT_STORAGE_KEY)
+  let saved: any
+  if (raw) {
+    try {
+      saved = JSON.parse(raw)
+    } catch {
+      return fallBack(defaults, raw, 'The saved project is not valid JSON')
+    }
+  } else {
+    saved = readLegacyProject()
+  }
+  if (!saved || typeof saved !== 'object') return { state: defaults }
+
+  if (typeof saved.version === 'number' && saved.version > CURRENT_SCHEMA_VERSION) {
+    return fallBack(
+      defaults,
+      raw || JSON.stringify(saved),
+      `Saved project uses schema version ${saved.version}; this build reads up to ${CURRENT_SCHEMA_VERSION}`,
+    )
+  }
+
+  try {
+    const { version, ...state } = migrateProject(saved) as PersistedProject
+    return { state: { ...defaults, ...state } }
+  } catch (error) {
+    console.error('Failed to migrate saved project:', error)
+    return fallBack(defaults, raw || JSON.stringify(saved), `The saved project could not be upgraded: ${(error as Error).message}`)
+  }
+}
+
+export function saveProjectState(state: ProjectState) {
+  const persisted: PersistedProject = { version: CURRENT_SCHEMA_VERSION, ...state }
+  localStorage.setItem(PROJECT_STORAGE_KEY, JSON.stringify(persisted))
+  // The versioned blob now owns this data
+  Object.values(LEGACY_KEYS).forEach((key) => localStorage.removeItem(key))
+}
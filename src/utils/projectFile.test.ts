@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { mergeProjectStates, parseProjectFile, projectStateFromFile, PROJECT_FILE_FORMAT } from './projectFile'
+
+// A version 1 file: one category per task, no milestone ids
+const oldFile = {
+  format: PROJECT_FILE_FORMAT,
+  version: 1,
+  baseTracks: [
+    {
+      id: 'brief',
+      label: 'Brief',
+      start: '2026-03-02',
+      end: '2026-03-06',
+      owner: 'Design',
+      category: 'website',
+      color: 'red',
+      dependencies: [],
+    },
+  ],
+  customTasks: [
+    {
+      id: 'launch',
+      label: 'Launch',
+      start: '2026-03-09',
+      end: '2026-03-10',
+      owner: 'Marketing',
+      tags: ['Go Live'],
+      notes: 'not a task field',
+      dependencies: [{ predecessorId: 'brief', type: 'FS', lag: 0, note: 'dropped' }],
+    },
+  ],
+  taskOverrides: { brief: { start: '2026-03-03', pinned: true } },
+  deletedTaskIds: [],
+  subtaskDefinitions: {},
+  subtaskProgress: {},
+  milestones: [{ date: '2026-03-30', label: 'Launch' }],
+  categoryColors: {},
+}
+
+const parse = (file: object) => {
+  const { project, errors } = parseProjectFile(JSON.stringify(file))
+  expect(errors).toEqual([])
+  return projectStateFromFile(project!)
+}
+
+describe('project file import', () => {
+  it('keeps only known task, override and link fields', () => {
+    const state = parse(oldFile)
+    expect(state.baseTracks[0]).toEqual({
+      id: 'brief',
+      label: 'Brief',
+      start: '2026-03-02',
+      end: '2026-03-06',
+      owner: 'Design',
+      categories: ['website'],
+      dependencies: [],
+    })
+    expect(state.customTasks[0]).toEqual({
+      id: 'launch',
+      label: 'Launch',
+      start: '2026-03-09',
+      end: '2026-03-10',
+      owner: 'Marketing',
+      tags: ['go-live'],
+      dependencies: [{ predecessorId: 'brief', type: 'FS', lag: 0 }],
+    })
+    expect(state.taskOverrides).toEqual({ brief: { start: '2026-03-03' } })
+  })
+
+  it('gives milestones without an id one', () => {
+    expect(parse(oldFile).milestones).toEqual([{ id: '2026-03-30-launch', date: '2026-03-30', label: 'Launch' }])
+  })
+
+  it('merges a renamed milestone instead of duplicating it', () => {
+    const current = parse({ ...oldFile, milestones: [{ id: 'launch', date: '2026-03-30', label: 'Launch' }] })
+    const incoming = parse({ ...oldFile, milestones: [{ id: 'launch', date: '2026-03-30', label: 'Public Launch' }] })
+    expect(mergeProjectStates(current, incoming).milestones).toEqual([{ id: 'launch', date: '2026-03-30', label: 'Public Launch' }])
+  })
+})
@@ -0,0 +1,642 @@
+// Project file (.json) export and import.
+//
+// A project file is a self-contained copy of the whole plan: base tracks,
+// overrides, custom tasks, deletions, subtask definitions and progress,
+// milestones, working calendar, phases, baselines, the other scenarios' plans
+// and the owner and category registries. Importing validates every field and
+// either replaces the current project or merges the file into it.
+
+import { isPlainDate } from './dates'
+import type { DependencyType } from './dependencies'
+import type { Baseline, Phase, ProjectState, Scenario, ScenarioPlan, SubtaskProgress, SubtaskState } from './persistence'
+import { DEFAULT_CALENDAR } from './workCalendar'
+import { scenarioPlan } from './scenarios'
+import { DEFAULT_OWNERS } from './owners'
+import { categoriesFromColors, DEFAULT_CATEGORIES, upgradePlanCategories } from './categories'
+import { DEFAULT_CAPACITY } from './workload'
+import { normalizePlanTags } from './tags'
+import { upgradeMilestones } from './milestones'
+
+export const PROJECT_FILE_FORMAT = 'brand-rebuild-project'
+export const PROJECT_FILE_VERSION = 11
+
+export interface ProjectFile extends ProjectState {
+  format: typeof PROJECT_FILE_FORMAT
+  version: number
+  exportedAt: string
+  planVersion: string
+}
+
+export interface ProjectFileError {
+  field: string
+  message: string
+}
+
+export type ImportMode = 'replace' | 'merge'
+
+export function buildProjectFile(state: ProjectState, planVersion: string): ProjectFile {
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    planVersion,
+    ...state,
+  }
+}
+
+const DEPENDENCY_TYPES: DependencyType[] = ['FS', 'SS', 'FF', 'SF']
+const SUBTASK_STATES: SubtaskState[] = ['todo', 'doing', 'done']
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+const isNonEmptyString = (value: unknown) => typeof value === 'string' && value.trim().length > 0
+const isHexColor = (value: unknown) => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value)
+
+// Collects errors as "field path: message" pairs while walking the file
+class Validator {
+  errors: ProjectFileError[] = []
+
+  fail(field: string, message: string) {
+    this.errors.push({ field, message })
+  }
+
+  string(field: string, value: unknown, required = true) {
+    if (value === undefined && !required) return
+    if (!isNonEmptyString(value)) this.fail(field, 'must be a non-empty string')
+  }
+
+  date(field: string, value: unknown, required = true) {
+    if (value === undefined && !required) return
+    if (!isPlainDate(value)) this.fail(field, 'must be a date in YYYY-MM-DD format')
+  }
+
+  names(field: string, value: unknown) {
+    if (value === undefined) return
+    if (!Array.isArray(value) || !value.every(isNonEmptyString)) this.fail(field, 'must be an array of names')
+  }
+
+  dependencies(field: string, value: unknown) {
+    if (value === undefined) return
+    if (!Array.isArray(value)) {
+      this.fail(field, 'must be an array')
+      return
+    }
+    value.forEach((dep, i) => {
+      const path = `${field}[${i}]`
+      if (!isObject(dep)) {
+        this.fail(path, 'must be an object')
+        return
+      }
+      this.string(`${path}.predecessorId`, dep.predecessorId)
+      if (!DEPENDENCY_TYPES.includes(dep.type)) this.fail(`${path}.type`, `must be one of ${DEPENDENCY_TYPES.join(', ')}`)
+      if (!Number.isInteger(dep.lag)) this.fail(`${path}.lag`, 'must be a whole number of days')
+    })
+  }
+
+  task(field: string, value: unknown) {
+    if (!isObject(value)) {
+      this.fail(field, 'must be an object')
+      return
+    }
+    this.string(`${field}.id`, value.id)
+    this.string(`${field}.label`, value.label)
+    this.date(`${field}.start`, value.start)
+    this.date(`${field}.end`, value.end)
+    if (isPlainDate(value.start) && isPlainDate(value.end) && value.end < value.start) {
+      this.fail(`${field}.end`, 'must not be before start')
+    }
+    this.string(`${field}.owner`, value.owner)
+    // Files before version 9 give a task a single category
+    this.string(`${field}.category`, value.category, false)
+    this.names(`${field}.categories`, value.categories)
+    this.dependencies(`${field}.dependencies`, value.dependencies)
+    this.names(`${field}.assignees`, value.assignees)
+    this.names(`${field}.tags`, value.tags)
+  }
+
+  taskList(field: string, value: unknown) {
+    if (!Array.isArray(value)) {
+      this.fail(field, 'must be an array of tasks')
+      return
+    }
+    value.forEach((task, i) => this.task(`${field}[${i}]`, task))
+  }
+
+  // The fields a scenario plan is made of, each under `prefix`
+  plan(prefix: string, value: Record<string, any>) {
+    this.taskList(`${prefix}baseTracks`, value.baseTracks)
+    this.taskList(`${prefix}customTasks`, value.customTasks)
+
+    if (!isObject(value.taskOverrides)) {
+      this.fail(`${prefix}taskOverrides`, 'must be an object keyed by task id')
+    } else {
+      Object.entries(value.taskOverrides).forEach(([id, override]) => {
+        const path = `${prefix}taskOverrides.${id}`
+        if (!isObject(override)) {
+          this.fail(path, 'must be an object')
+          return
+        }
+        this.date(`${path}.start`, override.start, false)
+        this.date(`${path}.end`, override.end, false)
+        this.string(`${path}.owner`, override.owner, false)
+        this.string(`${path}.label`, override.label, false)
+        this.dependencies(`${path}.dependencies`, override.dependencies)
+        this.names(`${path}.assignees`, override.assignees)
+        this.names(`${path}.categories`, override.categories)
+        this.names(`${path}.tags`, override.tags)
+      })
+    }
+
+    if (!Array.isArray(value.deletedTaskIds) || value.deletedTaskIds.some((id: unknown) => typeof id !== 'string')) {
+      this.fail(`${prefix}deletedTaskIds`, 'must be an array of task ids')
+    }
+  }
+
+  // Unique task ids and dependencies that point at tasks in the same plan;
+  // only meaningful once `plan` found no errors
+  planLinks(prefix: string, value: Record<string, any>) {
+    const ids = new Set<string>()
+    const checkIds = (field: string, tasks: Array<{ id: string }>) => {
+      tasks.forEach((task, i) => {
+        if (ids.has(task.id)) this.fail(`${field}[${i}].id`, `duplicate task id "${task.id}"`)
+        ids.add(task.id)
+      })
+    }
+    checkIds(`${prefix}baseTracks`, value.baseTracks)
+    checkIds(`${prefix}customTasks`, value.customTasks)
+    const checkLinks = (field: string, deps?: Array<{ predecessorId: string }>) => {
+      (deps || []).forEach((dep, i) => {
+        if (!ids.has(dep.predecessorId)) {
+          this.fail(`${field}[${i}].predecessorId`, `unknown task "${dep.predecessorId}"`)
+        }
+      })
+    }
+    value.baseTracks.forEach((task: any, i: number) => checkLinks(`${prefix}baseTracks[${i}].dependencies`, task.dependencies))
+    value.customTasks.forEach((task: any, i: number) => checkLinks(`${prefix}customTasks[${i}].dependencies`, task.dependencies))
+    Object.entries(value.taskOverrides).forEach(([id, override]: [string, any]) => {
+      checkLinks(`${prefix}taskOverrides.${id}.dependencies`, override.dependencies)
+    })
+  }
+}
+
+// Parse and validate a project file. `project` is only set when there are no
+// errors.
+export function parseProjectFile(text: string): { project?: ProjectFile; errors: ProjectFileError[] } {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { errors: [{ field: '(file)', message: 'is not valid JSON' }] }
+  }
+  if (!isObject(data)) {
+    return { errors: [{ field: '(file)', message: 'must contain a JSON object' }] }
+  }
+
+  const v = new Validator()
+  if (data.format !== PROJECT_FILE_FORMAT) {
+    v.fail('format', `must be "${PROJECT_FILE_FORMAT}"`)
+  }
+  if (typeof data.version !== 'number') {
+    v.fail('version', 'must be a number')
+  } else if (data.version > PROJECT_FILE_VERSION) {
+    v.fail('version', `${data.version} is newer than this app supports (${PROJECT_FILE_VERSION})`)
+  }
+
+  v.plan('', data)
+
+  if (!isObject(data.subtaskDefinitions)) {
+    v.fail('subtaskDefinitions', 'must be an object keyed by task id')
+  } else {
+    Object.entries(data.subtaskDefinitions).forEach(([taskId, subtasks]) => {
+      const path = `subtaskDefinitions.${taskId}`
+      if (!Array.isArray(subtasks)) {
+        v.fail(path, 'must be an array of subtasks')
+        return
+      }
+      subtasks.forEach((subtask, i) => {
+        const subPath = `${path}[${i}]`
+        if (!isObject(subtask)) {
+          v.fail(subPath, 'must be an object')
+          return
+        }
+        v.string(`${subPath}.id`, subtask.id)
+        v.string(`${subPath}.label`, subtask.label)
+        if (typeof subtask.weight !== 'number' || subtask.weight < 0 || subtask.weight > 1) {
+          v.fail(`${subPath}.weight`, 'must be a number between 0 and 1')
+        }
+        if (typeof subtask.description !== 'string') v.fail(`${subPath}.description`, 'must be a string')
+        v.date(`${subPath}.due`, subtask.due, false)
+        v.string(`${subPath}.assignee`, subtask.assignee, false)
+      })
+    })
+  }
+
+  if (!isObject(data.subtaskProgress)) {
+    v.fail('subtaskProgress', 'must be an object keyed by task id')
+  } else {
+    // Files before version 3 store a true/false check mark per subtask
+    Object.entries(data.subtaskProgress).forEach(([taskId, entries]) => {
+      if (!isObject(entries)) {
+        v.fail(`subtaskProgress.${taskId}`, 'must be an object keyed by subtask id')
+        return
+      }
+      Object.entries(entries).forEach(([subtaskId, entry]) => {
+        const path = `subtaskProgress.${taskId}.${subtaskId}`
+        if (typeof entry === 'boolean') return
+        if (!isObject(entry) || !SUBTASK_STATES.includes(entry.state)) {
+          v.fail(path, `must have a state of ${SUBTASK_STATES.join(', ')}`)
+        } else if (entry.percent !== undefined && (typeof entry.percent !== 'number' || entry.percent < 0 || entry.percent > 100)) {
+          v.fail(`${path}.percent`, 'must be a number between 0 and 100')
+        }
+      })
+    })
+  }
+
+  if (!Array.isArray(data.milestones)) {
+    v.fail('milestones', 'must be an array')
+  } else {
+    data.milestones.forEach((milestone: unknown, i: number) => {
+      if (!isObject(milestone)) {
+        v.fail(`milestones[${i}]`, 'must be an object')
+        return
+      }
+      // Files before version 11 have no milestone ids
+      v.string(`milestones[${i}].id`, milestone.id, false)
+      v.date(`milestones[${i}].date`, milestone.date)
+      v.string(`milestones[${i}].label`, milestone.label)
+    })
+  }
+
+  // Files before version 9 store a color per category id instead of the
+  // category registry
+  if (data.categories !== undefined) {
+    if (!Array.isArray(data.categories)) {
+      v.fail('categories', 'must be an array')
+    } else {
+      data.categories.forEach((category: unknown, i: number) => {
+        const path = `categories[${i}]`
+        if (!isObject(category)) {
+          v.fail(path, 'must be an object')
+          return
+        }
+        v.string(`${path}.id`, category.id)
+        v.string(`${path}.label`, category.label)
+        if (!isHexColor(category.color)) v.fail(`${path}.color`, 'must be a hex color like #6366f1')
+        v.string(`${path}.icon`, category.icon)
+      })
+    }
+  } else if (!isObject(data.categoryColors)) {
+    v.fail('categoryColors', 'must be an object keyed by category')
+  } else {
+    Object.entries(data.categoryColors).forEach(([category, color]) => {
+      if (!isHexColor(color)) {
+        v.fail(`categoryColors.${category}`, 'must be a hex color like #6366f1')
+      }
+    })
+  }
+
+  // The calendar and day unit arrived in file version 2; older files get the
+  // defaults
+  if (data.calendar !== undefined) {
+    const calendar = data.calendar
+    if (!isObject(calendar)) {
+      v.fail('calendar', 'must be an object')
+    } else {
+      if (!Array.isArray(calendar.workingWeekdays) || calendar.workingWeekdays.some((d: unknown) => !Number.isInteger(d) || (d as number) < 0 || (d as number) > 6)) {
+        v.fail('calendar.workingWeekdays', 'must be an array of weekday numbers 0-6')
+      }
+      if (!Array.isArray(calendar.holidays)) {
+        v.fail('calendar.holidays', 'must be an array')
+      } else {
+        calendar.holidays.forEach((holiday: any, i: number) => {
+          v.date(`calendar.holidays[${i}].date`, holiday?.date)
+          v.string(`calendar.holidays[${i}].label`, holiday?.label)
+        })
+      }
+      if (!Array.isArray(calendar.ownerExceptions)) {
+        v.fail('calendar.ownerExceptions', 'must be an array')
+      } else {
+        calendar.ownerExceptions.forEach((exception: any, i: number) => {
+          const path = `calendar.ownerExceptions[${i}]`
+          v.string(`${path}.owner`, exception?.owner)
+          v.date(`${path}.date`, exception?.date)
+          if (typeof exception?.working !== 'boolean') v.fail(`${path}.working`, 'must be true or false')
+          if (typeof exception?.label !== 'string') v.fail(`${path}.label`, 'must be a string')
+        })
+      }
+    }
+  }
+  if (data.dayUnit !== undefined && data.dayUnit !== 'calendar' && data.dayUnit !== 'working') {
+    v.fail('dayUnit', 'must be "calendar" or "working"')
+  }
+
+  // Phases arrived in file version 4; older files have none
+  if (data.phases !== undefined) {
+    if (!Array.isArray(data.phases)) {
+      v.fail('phases', 'must be an array')
+    } else {
+      data.phases.forEach((phase: unknown, i: number) => {
+        if (!isObject(phase)) {
+          v.fail(`phases[${i}]`, 'must be an object')
+          return
+        }
+        v.string(`phases[${i}].id`, phase.id)
+        v.string(`phases[${i}].label`, phase.label)
+        v.string(`phases[${i}].parentId`, phase.parentId, false)
+      })
+    }
+  }
+  if (data.taskPhases !== undefined) {
+    if (!isObject(data.taskPhases)) {
+      v.fail('taskPhases', 'must be an object keyed by task id')
+    } else {
+      Object.entries(data.taskPhases).forEach(([taskId, phaseId]) => {
+        if (typeof phaseId !== 'string') v.fail(`taskPhases.${taskId}`, 'must be a phase id')
+      })
+    }
+  }
+
+  // Baselines arrived in file version 5
+  if (data.baselines !== undefined) {
+    if (!Array.isArray(data.baselines)) {
+      v.fail('baselines', 'must be an array')
+    } else {
+      data.baselines.forEach((baseline: unknown, i: number) => {
+        const path = `baselines[${i}]`
+        if (!isObject(baseline)) {
+          v.fail(path, 'must be an object')
+          return
+        }
+        v.string(`${path}.id`, baseline.id)
+        v.string(`${path}.name`, baseline.name)
+        if (typeof baseline.capturedAt !== 'string' || Number.isNaN(Date.parse(baseline.capturedAt))) {
+          v.fail(`${path}.capturedAt`, 'must be a timestamp')
+        }
+        if (!isObject(baseline.tasks)) {
+          v.fail(`${path}.tasks`, 'must be an object keyed by task id')
+          return
+        }
+        Object.entries(baseline.tasks).forEach(([taskId, dates]) => {
+          v.date(`${path}.tasks.${taskId}.start`, (dates as any)?.start)
+          v.date(`${path}.tasks.${taskId}.end`, (dates as any)?.end)
+        })
+      })
+    }
+  }
+  if (data.activeBaselineId !== undefined && data.activeBaselineId !== null && typeof data.activeBaselineId !== 'string') {
+    v.fail('activeBaselineId', 'must be a baseline id or null')
+  }
+
+  // Scenarios arrived in file version 6. Every scenario but the active one
+  // carries its own plan.
+  if (data.scenarios !== undefined) {
+    if (!Array.isArray(data.scenarios) || data.scenarios.length === 0) {
+      v.fail('scenarios', 'must be a non-empty array')
+    } else {
+      v.string('activeScenarioId', data.activeScenarioId)
+      data.scenarios.forEach((scenario: unknown, i: number) => {
+        const path = `scenarios[${i}]`
+        if (!isObject(scenario)) {
+          v.fail(path, 'must be an object')
+          return
+        }
+        v.string(`${path}.id`, scenario.id)
+        v.string(`${path}.name`, scenario.name)
+        if (typeof scenario.description !== 'string') v.fail(`${path}.description`, 'must be a string')
+        if (scenario.id === data.activeScenarioId) {
+          if (scenario.plan !== undefined) v.fail(`${path}.plan`, 'must be left out for the active scenario')
+        } else if (!isObject(scenario.plan)) {
+          v.fail(`${path}.plan`, 'must be an object')
+        } else {
+          v.plan(`${path}.plan.`, scenario.plan)
+        }
+      })
+    }
+  }
+
+  // The owner registry arrived in file version 7
+  if (data.owners !== undefined) {
+    if (!Array.isArray(data.owners)) {
+      v.fail('owners', 'must be an array')
+    } else {
+      data.owners.forEach((owner: unknown, i: number) => {
+        const path = `owners[${i}]`
+        if (!isObject(owner)) {
+          v.fail(path, 'must be an object')
+          return
+        }
+        v.string(`${path}.name`, owner.name)
+        if (!isHexColor(owner.color)) v.fail(`${path}.color`, 'must be a hex color like #6366f1')
+        if (!isObject(owner.gradient) || !isHexColor(owner.gradient.from) || !isHexColor(owner.gradient.to)) {
+          v.fail(`${path}.gradient`, 'must have hex colors "from" and "to"')
+        }
+        v.names(`${path}.members`, owner.members)
+      })
+    }
+  }
+
+  // Assignees and the workload capacity arrived in file version 8
+  if (data.workloadCapacity !== undefined && (typeof data.workloadCapacity !== 'number' || !(data.workloadCapacity > 0))) {
+    v.fail('workloadCapacity', 'must be a positive percentage')
+  }
+
+  // Cross-field checks only make sense once the shapes are right
+  if (v.errors.length === 0) {
+    v.planLinks('', data)
+    const scenarioIds = new Set<string>()
+    ;(data.scenarios || []).forEach((scenario: any, i: number) => {
+      if (scenarioIds.has(scenario.id)) v.fail(`scenarios[${i}].id`, `duplicate scenario id "${scenario.id}"`)
+      scenarioIds.add(scenario.id)
+      if (scenario.plan) v.planLinks(`scenarios[${i}].plan.`, scenario.plan)
+    })
+    if (data.scenarios && !scenarioIds.has(data.activeScenarioId)) {
+      v.fail('activeScenarioId', `unknown scenario "${data.activeScenarioId}"`)
+    }
+    const phaseIds = new Set<string>()
+    ;(data.phases || []).forEach((phase: any, i: number) => {
+      if (phaseIds.has(phase.id)) v.fail(`phases[${i}].id`, `duplicate phase id "${phase.id}"`)
+      phaseIds.add(phase.id)
+    })
+    ;(data.phases || []).forEach((phase: any, i: number) => {
+      if (phase.parentId !== undefined && !phaseIds.has(phase.parentId)) {
+        v.fail(`phases[${i}].parentId`, `unknown phase "${phase.parentId}"`)
+      }
+    })
+    Object.entries(data.taskPhases || {}).forEach(([taskId, phaseId]) => {
+      if (!phaseIds.has(phaseId as string)) v.fail(`taskPhases.${taskId}`, `unknown phase "${phaseId}"`)
+    })
+    const ownerNames = new Set<string>()
+    ;(data.owners || []).forEach((owner: any, i: number) => {
+      if (ownerNames.has(owner.name)) v.fail(`owners[${i}].name`, `duplicate owner "${owner.name}"`)
+      ownerNames.add(owner.name)
+    })
+    const categoryIds = new Set<string>()
+    ;(data.categories || []).forEach((category: any, i: number) => {
+      if (categoryIds.has(category.id)) v.fail(`categories[${i}].id`, `duplicate category "${category.id}"`)
+      categoryIds.add(category.id)
+    })
+  }
+
+  if (v.errors.length > 0) return { errors: v.errors }
+  const subtaskProgress = Object.fromEntries(
+    Object.entries(data.subtaskProgress as Record<string, Record<string, boolean | SubtaskProgress>>).map(([taskId, entries]) => [
+      taskId,
+      Object.fromEntries(Object.entries(entries).map(([id, entry]) => [
+        id,
+        typeof entry === 'boolean' ? { state: entry ? 'done' : 'todo' } : entry,
+      ])),
+    ]),
+  )
+  // Fields added in later file versions default for older files, tasks
+  // with a single category get a list, tags take their stored form and
+  // milestones without an id get one
+  const { categoryColors, ...fields } = data
+  const project = {
+    calendar: DEFAULT_CALENDAR,
+    dayUnit: 'calendar',
+    phases: [] as Phase[],
+    taskPhases: {},
+    baselines: [] as Baseline[],
+    activeBaselineId: null,
+    // Older files hold a single plan, named after the version they were exported as
+    scenarios: [{ id: data.planVersion || 'A', name: 'Imported plan', description: '' }] as Scenario[],
+    activeScenarioId: data.planVersion || 'A',
+    owners: DEFAULT_OWNERS,
+    workloadCapacity: DEFAULT_CAPACITY,
+    categories: categoryColors ? categoriesFromColors(categoryColors) : DEFAULT_CATEGORIES,
+    ...fields,
+    ...importPlan({ baseTracks: fields.baseTracks, customTasks: fields.customTasks, taskOverrides: fields.taskOverrides }),
+    ...(fields.scenarios && {
+      scenarios: fields.scenarios.map((scenario: Scenario) =>
+        scenario.plan ? { ...scenario, plan: importPlan(scenario.plan) } : scenario,
+      ),
+    }),
+    milestones: upgradeMilestones(fields.milestones),
+    subtaskProgress,
+  } as ProjectFile
+  return { project, errors: [] }
+}
+
+// The keys a task, override or link may carry; anything else in a file is
+// dropped. `category` is the single category of files before version 9.
+const TASK_FIELDS = ['id', 'label', 'start', 'end', 'owner', 'category', 'categories', 'dependencies', 'assignees', 'tags']
+const OVERRIDE_FIELDS = ['start', 'end', 'owner', 'label', 'dependencies', 'assignees', 'categories', 'tags']
+const DEPENDENCY_FIELDS = ['predecessorId', 'type', 'lag']
+
+function pickFields<T extends { dependencies?: object[] }>(value: T, fields: string[]): T {
+  const picked = Object.fromEntries(Object.entries(value).filter(([key]) => fields.includes(key))) as T
+  return value.dependencies
+    ? { ...picked, dependencies: value.dependencies.map(dep => pickFields(dep, DEPENDENCY_FIELDS)) }
+    : picked
+}
+
+const importPlan = <T extends Pick<ScenarioPlan, 'baseTracks' | 'customTasks' | 'taskOverrides'>>(plan: T) =>
+  normalizePlanTags(upgradePlanCategories({
+    ...plan,
+    baseTracks: plan.baseTracks.map(task => pickFields(task, TASK_FIELDS)),
+    customTasks: plan.customTasks.map(task => pickFields(task, TASK_FIELDS)),
+    taskOverrides: Object.fromEntries(
+      Object.entries(plan.taskOverrides).map(([taskId, override]) => [taskId, pickFields(override, OVERRIDE_FIELDS)]),
+    ),
+  }))
+
+// Strip the file envelope, leaving the project state
+export function projectStateFromFile({ format, version, exportedAt, planVersion, ...state }: ProjectFile): ProjectState {
+  return state
+}
+
+// Merge one scenario plan into another; incoming tasks and overrides win
+function mergePlans(current: ScenarioPlan, incoming: ScenarioPlan): ScenarioPlan {
+  const knownBaseIds = new Set(current.baseTracks.map(t => t.id))
+  const incomingCustomIds = new Set(incoming.customTasks.map(t => t.id))
+  return {
+    baseTracks: [
+      ...current.baseTracks.map(track => incoming.baseTracks.find(t => t.id === track.id) || track),
+      ...incoming.baseTracks.filter(track => !knownBaseIds.has(track.id)),
+    ],
+    customTasks: [
+      ...current.customTasks.filter(task => !incomingCustomIds.has(task.id)),
+      ...incoming.customTasks,
+    ],
+    taskOverrides: { ...current.taskOverrides, ...incoming.taskOverrides },
+    deletedTaskIds: Array.from(new Set([...current.deletedTaskIds, ...incoming.deletedTaskIds])),
+  }
+}
+
+// Merge `incoming` into `current`. Incoming entries win wherever both sides
+// describe the same task, subtask list, milestone, holiday, phase,
+// baseline, scenario name, owner or category. Scenarios are matched by id, and
+// the current active scenario stays active.
+export function mergeProjectStates(current: ProjectState, incoming: ProjectState): ProjectState {
+  // Milestones are matched by id, so a renamed or moved one replaces the old
+  const mergedMilestones = new Map(current.milestones.map(m => [m.id, m]))
+  incoming.milestones.forEach(m => mergedMilestones.set(m.id, m))
+
+  const holidays = new Map(current.calendar.holidays.map(h => [h.date, h]))
+  incoming.calendar.holidays.forEach(h => holidays.set(h.date, h))
+  const exceptions = new Map(current.calendar.ownerExceptions.map(e => [`${e.owner}|${e.date}`, e]))
+  incoming.calendar.ownerExceptions.forEach(e => exceptions.set(`${e.owner}|${e.date}`, e))
+
+  const knownPhaseIds = new Set(current.phases.map(p => p.id))
+  const knownBaselineIds = new Set(current.baselines.map(b => b.id))
+  const knownOwnerNames = new Set(current.owners.map(o => o.name))
+  const knownCategoryIds = new Set(current.categories.map(c => c.id))
+
+  const subtaskProgress = { ...current.subtaskProgress }
+  Object.entries(incoming.subtaskProgress).forEach(([taskId, completed]) => {
+    subtaskProgress[taskId] = { ...subtaskProgress[taskId], ...completed }
+  })
+
+  // Every scenario with its plan filled in, merged where both sides have it
+  const knownScenarioIds = new Set(current.scenarios.map(s => s.id))
+  const scenarios = [
+    ...current.scenarios.map(scenario => {
+      const other = incoming.scenarios.find(s => s.id === scenario.id)
+      const plan = scenarioPlan(current, scenario.id)!
+      const otherPlan = other && scenarioPlan(incoming, other.id)
+      return { ...scenario, ...other, plan: otherPlan ? mergePlans(plan, otherPlan) : plan }
+    }),
+    ...incoming.scenarios
+      .filter(scenario => !knownScenarioIds.has(scenario.id))
+      .map(scenario => ({ ...scenario, plan: scenarioPlan(incoming, scenario.id)! })),
+  ]
+  const active = scenarios.find(s => s.id === current.activeScenarioId)!
+
+  return {
+    ...active.plan,
+    subtaskDefinitions: { ...current.subtaskDefinitions, ...incoming.subtaskDefinitions },
+    subtaskProgress,
+    milestones: Array.from(mergedMilestones.values()).sort((a, b) => a.date.localeCompare(b.date)),
+    categories: [
+      ...current.categories.map(category => incoming.categories.find(c => c.id === category.id) || category),
+      ...incoming.categories.filter(category => !knownCategoryIds.has(category.id)),
+    ],
+    calendar: {
+      workingWeekdays: incoming.calendar.workingWeekdays,
+      holidays: Array.from(holidays.values()).sort((a, b) => a.date.localeCompare(b.date)),
+      ownerExceptions: Array.from(exceptions.values()).sort((a, b) => a.date.localeCompare(b.date)),
+    },
+    dayUnit: current.dayUnit,
+    phases: [
+      ...current.phases.map(phase => incoming.phases.find(p => p.id === phase.id) || phase),
+      ...incoming.phases.filter(phase => !knownPhaseIds.has(phase.id)),
+    ],
+    taskPhases: { ...current.taskPhases, ...incoming.taskPhases },
+    baselines: [
+      ...current.baselines.map(baseline => incoming.baselines.find(b => b.id === baseline.id) || baseline),
+      ...incoming.baselines.filter(baseline => !knownBaselineIds.has(baseline.id)),
+    ],
+    activeBaselineId: current.activeBaselineId,
+    scenarios: scenarios.map(scenario => {
+      if (scenario.id !== current.activeScenarioId) return scenario
+      const { plan: _active, ...rest } = scenario
+      return rest
+    }),
+    activeScenarioId: current.activeScenarioId,
+    workloadCapacity: current.workloadCapacity,
+    owners: [
+      ...current.owners.map(owner => incoming.owners.find(o => o.name === owner.name) || owner),
+      ...incoming.owners.filter(owner => !knownOwnerNames.has(owner.name)),
+    ],
+  }
+}
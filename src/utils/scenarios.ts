@@ -0,0 +1,173 @@
+// Scenarios: named alternative versions of the plan, and how two of them
+// differ.
+//
+// Each scenario has its own tracks, overrides, custom tasks and deletions;
+// everything else (subtasks, progress, milestones, phases, the calendar) is
+// shared. The active scenario's plan is kept in the project's top-level fields
+// so the rest of the app works on it directly; switching swaps plans in and
+// out of the scenario list.
+
+import { countDays, type ProjectCalendar } from './workCalendar'
+import { formatDays, type DayUnit } from './dates'
+import type { CustomTask, Milestone, Scenario, ScenarioPlan } from './persistence'
+
+interface ScenarioState extends ScenarioPlan {
+  scenarios: Scenario[]
+  activeScenarioId: string
+}
+
+export const planOf = ({ baseTracks, taskOverrides, customTasks, deletedTaskIds }: ScenarioPlan): ScenarioPlan => ({
+  baseTracks,
+  taskOverrides,
+  customTasks,
+  deletedTaskIds,
+})
+
+// The plan of any scenario, whether active or not
+export const scenarioPlan = (state: ScenarioState, scenarioId: string) =>
+  scenarioId === state.activeScenarioId ? planOf(state) : state.scenarios.find(s => s.id === scenarioId)?.plan
+
+// Park the active plan in its scenario and bring `scenarioId`'s plan to the top
+export function switchScenario<T extends ScenarioState>(state: T, scenarioId: string): T {
+  const target = state.scenarios.find(s => s.id === scenarioId)
+  if (!target?.plan || scenarioId === state.activeScenarioId) return state
+  return {
+    ...state,
+    ...target.plan,
+    scenarios: state.scenarios.map(scenario => {
+      if (scenario.id === state.activeScenarioId) return { ...scenario, plan: planOf(state) }
+      if (scenario.id === scenarioId) {
+        const { plan: _active, ...rest } = scenario
+        return rest
+      }
+      return scenario
+    }),
+    activeScenarioId: scenarioId,
+  }
+}
+
+// Tasks as a plan defines them: base tracks and custom tasks, minus
+// deletions, with overrides applied
+export function planTasks({ baseTracks, taskOverrides, customTasks, deletedTaskIds }: ScenarioPlan): CustomTask[] {
+  const deleted = new Set(deletedTaskIds)
+  return [...baseTracks, ...customTasks]
+    .filter(task => !deleted.has(task.id))
+    .map(task => {
+      const override = taskOverrides[task.id]
+      if (!override) return task
+      return {
+        ...task,
+        start: override.start || task.start,
+        end: override.end || task.end,
+        owner: override.owner || task.owner,
+        label: override.label || task.label,
+        dependencies: override.dependencies || task.dependencies,
+        assignees: override.assignees || task.assignees,
+        categories: override.categories || task.categories,
+        tags: override.tags || task.tags,
+      }
+    })
+}
+
+// The next free letter, so new scenarios read as versions C, D, …
+export function newScenarioId(scenarios: Scenario[]) {
+  const taken = new Set(scenarios.map(s => s.id))
+  for (let i = 0; i < 26; i++) {
+    const letter = String.fromCharCode(65 + i)
+    if (!taken.has(letter)) return letter
+  }
+  let n = 27
+  while (taken.has(`S${n}`)) n++
+  return `S${n}`
+}
+
+export interface TaskChange {
+  id: string
+  label: string
+  kind: 'added' | 'removed' | 'changed'
+  a?: CustomTask
+  b?: CustomTask
+  startShift: number
+  endShift: number
+  changedFields: Array<'owner' | 'label'> // besides the dates
+}
+
+export interface MilestoneImpact {
+  milestone: Milestone
+  dueA: number // tasks finishing by the milestone in scenario A
+  dueB: number
+  slipsPast: CustomTask[] // done by the milestone in A, after it in B
+  pulledIn: CustomTask[] // after the milestone in A, done by it in B
+}
+
+export interface ScenarioComparison {
+  changes: TaskChange[]
+  unchangedCount: number
+  endA: string
+  endB: string
+  endShift: number
+  milestones: MilestoneImpact[]
+}
+
+const latestEnd = (tasks: CustomTask[]) => tasks.reduce((max, task) => (task.end > max ? task.end : max), tasks[0]?.end || '')
+
+// Diff scenario B against scenario A. Shifts are counted in the chosen day
+// unit, positive when B is later.
+export function compareScenarios(
+  a: CustomTask[],
+  b: CustomTask[],
+  milestones: Milestone[],
+  unit: DayUnit,
+  calendar: ProjectCalendar,
+): ScenarioComparison {
+  const byIdA = new Map(a.map(task => [task.id, task]))
+  const byIdB = new Map(b.map(task => [task.id, task]))
+  const shift = (from: string, to: string, owner: string) => countDays(from, to, { unit, calendar, owner })
+
+  const changes: TaskChange[] = []
+  let unchangedCount = 0
+  a.forEach(taskA => {
+    const taskB = byIdB.get(taskA.id)
+    if (!taskB) {
+      changes.push({ id: taskA.id, label: taskA.label, kind: 'removed', a: taskA, startShift: 0, endShift: 0, changedFields: [] })
+      return
+    }
+    const changedFields = (['owner', 'label'] as const).filter(field => taskA[field] !== taskB[field])
+    const startShift = shift(taskA.start, taskB.start, taskB.owner)
+    const endShift = shift(taskA.end, taskB.end, taskB.owner)
+    if (taskA.start === taskB.start && taskA.end === taskB.end && changedFields.length === 0) {
+      unchangedCount++
+      return
+    }
+    changes.push({ id: taskA.id, label: taskB.label, kind: 'changed', a: taskA, b: taskB, startShift, endShift, changedFields })
+  })
+  b.filter(task => !byIdA.has(task.id)).forEach(taskB => {
+    changes.push({ id: taskB.id, label: taskB.label, kind: 'added', b: taskB, startShift: 0, endShift: 0, changedFields: [] })
+  })
+
+  const endA = latestEnd(a)
+  const endB = latestEnd(b)
+  const milestoneImpacts = milestones.map(milestone => {
+    const dueBy = (task?: CustomTask) => !!task && task.end <= milestone.date
+    return {
+      milestone,
+      dueA: a.filter(task => dueBy(task)).length,
+      dueB: b.filter(task => dueBy(task)).length,
+      slipsPast: b.filter(task => dueBy(byIdA.get(task.id)) && !dueBy(task)),
+      pulledIn: b.filter(task => byIdA.has(task.id) && !dueBy(byIdA.get(task.id)) && dueBy(task)),
+    }
+  })
+
+  return {
+    changes: changes.sort((x, y) => Math.abs(y.endShift) - Math.abs(x.endShift) || x.label.localeCompare(y.label)),
+    unchangedCount,
+    endA,
+    endB,
+    endShift: endA && endB ? countDays(endA, endB, { unit, calendar }) : 0,
+    milestones: milestoneImpacts,
+  }
+}
+
+// "+5 days", "-2 working days", "No change"
+export const formatShift = (days: number, unit: DayUnit) =>
+  days === 0 ? 'No change' : `${days > 0 ? '+' : ''}${formatDays(days, unit)}`
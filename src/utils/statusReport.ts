@@ -0,0 +1,405 @@
+// Multi-page status report PDF, assembled from sections the user picks and
+// orders in the report builder. Presets (named section layouts) are kept in
+// localStorage alongside the project.
+
+import type { jsPDF } from 'jspdf'
+import { addDays, daysBetween, formatDate as formatPlainDate } from './dates'
+import type { Milestone } from './persistence'
+import { countTaskStatuses, getTaskStatus, taskStatusInfo, taskStatusOrder, type TaskStatus } from './taskStatus'
+
+export type ReportSectionId = 'cover' | 'kpis' | 'statusPie' | 'ownerBars' | 'overdue' | 'upcoming' | 'owners'
+
+export interface ReportSection {
+  id: ReportSectionId
+  enabled: boolean
+}
+
+export interface ReportPreset {
+  id: string
+  name: string
+  sections: ReportSection[]
+}
+
+export const reportSectionLabels: Record<ReportSectionId, { title: string; description: string }> = {
+  cover: { title: 'Cover page', description: 'Title, report date and overall progress' },
+  kpis: { title: 'Key metrics', description: 'Overall progress and task counts by status' },
+  statusPie: { title: 'Status breakdown', description: 'Pie chart of tasks by status' },
+  ownerBars: { title: 'Progress by owner', description: 'Average progress per owner' },
+  overdue: { title: 'Overdue tasks', description: 'Unfinished tasks past their end date' },
+  upcoming: { title: 'Next 30 days', description: 'Tasks starting or due in the next 30 days' },
+  owners: { title: 'Owner sections', description: 'One section per owner with their tasks' },
+}
+
+export const DEFAULT_REPORT_SECTIONS: ReportSection[] = [
+  { id: 'cover', enabled: true },
+  { id: 'kpis', enabled: true },
+  { id: 'statusPie', enabled: true },
+  { id: 'ownerBars', enabled: true },
+  { id: 'overdue', enabled: true },
+  { id: 'upcoming', enabled: true },
+  { id: 'owners', enabled: false },
+]
+
+const PRESETS_KEY = 'brandRebuildReportPresets'
+
+export function loadReportPresets(): ReportPreset[] {
+  try {
+    const saved = localStorage.getItem(PRESETS_KEY)
+    const presets = saved ? JSON.parse(saved) : []
+    return Array.isArray(presets) ? presets : []
+  } catch (error) {
+    console.warn('Failed to read report presets:', error)
+    return []
+  }
+}
+
+export function saveReportPresets(presets: ReportPreset[]) {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets))
+}
+
+interface ReportTask {
+  id: string
+  label: string
+  start: string
+  end: string
+  owner: string
+}
+
+export interface StatusReportData {
+  title: string
+  tasks: ReportTask[]
+  progress: Record<string, number>
+  currentDate: string
+  milestones: Milestone[]
+  ownerColors: Record<string, string>
+}
+
+type RGB = [number, number, number]
+
+// A4 portrait, in mm
+const PAGE_WIDTH = 210
+const PAGE_HEIGHT = 297
+const MARGIN = 16
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const BOTTOM = PAGE_HEIGHT - MARGIN - 6
+
+const TEXT_COLOR: RGB = [15, 23, 42]
+
+const formatDate = (s: string) => formatPlainDate(s, { month: 'short', day: 'numeric', year: 'numeric' }, 'en-US')
+
+const hexToRgb = (hex: string): RGB => {
+  const value = parseInt(hex.replace('#', ''), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+// Same labels and colors as the app's views
+const statusInfo = Object.fromEntries(
+  taskStatusOrder.map(status => [status, { label: taskStatusInfo[status].label, color: hexToRgb(taskStatusInfo[status].color) }])
+) as Record<TaskStatus, { label: string; color: RGB }>
+
+// Writes flowing content top to bottom, starting a new page when the next
+// block doesn't fit
+class ReportWriter {
+  y = MARGIN
+  private started = false
+  constructor(private doc: jsPDF) {}
+
+  newPage() {
+    if (this.started) this.doc.addPage()
+    this.started = true
+    this.y = MARGIN
+  }
+
+  ensureSpace(height: number) {
+    if (!this.started || this.y + height > BOTTOM) this.newPage()
+  }
+
+  heading(text: string, subtitle?: string) {
+    this.ensureSpace(subtitle ? 24 : 18)
+    if (this.y > MARGIN) this.y += 4
+    this.doc.setFontSize(14)
+    this.doc.setTextColor(15, 23, 42)
+    this.doc.text(text, MARGIN, this.y + 5)
+    this.y += 8
+    if (subtitle) {
+      this.doc.setFontSize(8.5)
+      this.doc.setTextColor(100, 116, 139)
+      this.doc.text(subtitle, MARGIN, this.y + 2)
+      this.y += 5
+    }
+    this.doc.setDrawColor(226, 232, 240)
+    this.doc.setLineWidth(0.3)
+    this.doc.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y)
+    this.y += 4
+  }
+
+  note(text: string) {
+    this.ensureSpace(8)
+    this.doc.setFontSize(9)
+    this.doc.setTextColor(100, 116, 139)
+    this.doc.text(text, MARGIN, this.y + 4)
+    this.y += 8
+  }
+
+  // Simple table; the first column wraps, the header repeats on new pages
+  table(headers: string[], widths: number[], rows: string[][], rowColors?: Array<RGB | undefined>) {
+    const drawHeader = () => {
+      this.doc.setFillColor(241, 245, 249)
+      this.doc.rect(MARGIN, this.y, CONTENT_WIDTH, 7, 'F')
+      this.doc.setFontSize(8)
+      this.doc.setTextColor(71, 85, 105)
+      let x = MARGIN
+      headers.forEach((header, i) => {
+        this.doc.text(header, x + 2, this.y + 4.8)
+        x += widths[i]
+      })
+      this.y += 7
+    }
+
+    this.ensureSpace(14)
+    drawHeader()
+    rows.forEach((row, r) => {
+      this.doc.setFontSize(8.5)
+      const lines = this.doc.splitTextToSize(row[0], widths[0] - 4) as string[]
+      const height = Math.max(7, lines.length * 4 + 3)
+      if (this.y + height > BOTTOM) {
+        this.newPage()
+        drawHeader()
+      }
+      let x = MARGIN
+      row.forEach((cell, i) => {
+        // Row colors tint the last column (e.g. a status)
+        const color = rowColors?.[r] && i === row.length - 1 ? rowColors[r]! : TEXT_COLOR
+        this.doc.setTextColor(...color)
+        this.doc.text(i === 0 ? lines : cell, x + 2, this.y + 4.8)
+        x += widths[i]
+      })
+      this.y += height
+      this.doc.setDrawColor(241, 245, 249)
+      this.doc.setLineWidth(0.2)
+      this.doc.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y)
+    })
+    this.y += 2
+  }
+}
+
+// Pie wedges are drawn as filled polygons along the arc
+function wedge(doc: jsPDF, cx: number, cy: number, r: number, from: number, to: number) {
+  const steps = Math.max(2, Math.ceil(((to - from) / (Math.PI * 2)) * 72))
+  const points: Array<[number, number]> = [[cx, cy]]
+  for (let i = 0; i <= steps; i++) {
+    const angle = from + ((to - from) * i) / steps
+    points.push([cx + r * Math.cos(angle), cy + r * Math.sin(angle)])
+  }
+  const segments = points.slice(1).map((p, i) => [p[0] - points[i][0], p[1] - points[i][1]])
+  doc.lines(segments, cx, cy, [1, 1], 'F', true)
+}
+
+export function drawStatusReport(doc: jsPDF, sections: ReportSection[], data: StatusReportData) {
+  const { tasks, progress, currentDate, ownerColors } = data
+  const writer = new ReportWriter(doc)
+  const statusOf = (task: ReportTask) => getTaskStatus(task, progress[task.id] || 0, currentDate).status
+  const counts = countTaskStatuses(tasks.map(statusOf))
+  const overallProgress = tasks.length
+    ? Math.round(tasks.reduce((sum, task) => sum + (progress[task.id] || 0), 0) / tasks.length)
+    : 0
+
+  const owners = Array.from(new Set(tasks.map(task => task.owner))).sort()
+  const ownerStats = owners.map(owner => {
+    const ownerTasks = tasks.filter(task => task.owner === owner)
+    return {
+      owner,
+      tasks: ownerTasks.sort((a, b) => a.start.localeCompare(b.start)),
+      avgProgress: Math.round(ownerTasks.reduce((sum, task) => sum + (progress[task.id] || 0), 0) / ownerTasks.length),
+      completed: ownerTasks.filter(task => statusOf(task) === 'completed').length,
+      overdue: ownerTasks.filter(task => statusOf(task) === 'overdue').length,
+    }
+  })
+
+  const drawSection: Record<ReportSectionId, () => void> = {
+    cover: () => {
+      writer.newPage()
+      doc.setFillColor(79, 70, 229)
+      doc.rect(0, 0, PAGE_WIDTH, 90, 'F')
+      doc.setTextColor(255, 255, 255)
+      doc.setFontSize(26)
+      doc.text(data.title, MARGIN, 50)
+      doc.setFontSize(13)
+      doc.text(`Status report • ${formatDate(currentDate)}`, MARGIN, 62)
+
+      doc.setTextColor(15, 23, 42)
+      doc.setFontSize(48)
+      doc.text(`${overallProgress}%`, MARGIN, 130)
+      doc.setFontSize(11)
+      doc.setTextColor(100, 116, 139)
+      doc.text('overall progress', MARGIN, 139)
+
+      doc.setFillColor(226, 232, 240)
+      doc.rect(MARGIN, 146, CONTENT_WIDTH, 4, 'F')
+      doc.setFillColor(79, 70, 229)
+      doc.rect(MARGIN, 146, (CONTENT_WIDTH * overallProgress) / 100, 4, 'F')
+
+      let y = 168
+      doc.setFontSize(11)
+      doc.setTextColor(15, 23, 42)
+      doc.text(`${counts.completed} of ${tasks.length} tasks completed • ${counts.overdue} overdue`, MARGIN, y)
+      const upcoming = data.milestones.filter(m => m.date >= currentDate).sort((a, b) => a.date.localeCompare(b.date))
+      upcoming.slice(0, 3).forEach(milestone => {
+        y += 8
+        const days = daysBetween(currentDate, milestone.date)
+        doc.text(`${milestone.label}: ${formatDate(milestone.date)} (${days} day${days !== 1 ? 's' : ''})`, MARGIN, y)
+      })
+      // Content after the cover starts on its own page
+      writer.y = BOTTOM
+    },
+
+    kpis: () => {
+      writer.heading('Key Metrics')
+      const cards: Array<[string, string, RGB]> = [
+        ['Overall Progress', `${overallProgress}%`, [79, 70, 229]],
+        ...taskStatusOrder.map(
+          status => [statusInfo[status].label, String(counts[status]), statusInfo[status].color] as [string, string, RGB]
+        ),
+      ]
+      // Four cards per row
+      const perRow = 4
+      const rows = Math.ceil(cards.length / perRow)
+      writer.ensureSpace(26 * rows)
+      const gap = 3
+      const width = (CONTENT_WIDTH - gap * (perRow - 1)) / perRow
+      cards.forEach(([label, value, color], i) => {
+        const x = MARGIN + (i % perRow) * (width + gap)
+        const y = writer.y + Math.floor(i / perRow) * 26
+        doc.setFillColor(...color)
+        doc.roundedRect(x, y, width, 22, 2, 2, 'F')
+        doc.setTextColor(255, 255, 255)
+        doc.setFontSize(8)
+        doc.text(label, x + 3, y + 6)
+        doc.setFontSize(18)
+        doc.text(value, x + 3, y + 17)
+      })
+      writer.y += 26 * rows
+    },
+
+    statusPie: () => {
+      writer.heading('Status Breakdown', `${tasks.length} tasks`)
+      writer.ensureSpace(70)
+      const r = 30
+      const cx = MARGIN + r + 4
+      const cy = writer.y + r + 2
+      let angle = -Math.PI / 2
+      const entries = taskStatusOrder.filter(status => counts[status] > 0)
+      entries.forEach(status => {
+        const sweep = (counts[status] / tasks.length) * Math.PI * 2
+        doc.setFillColor(...statusInfo[status].color)
+        if (entries.length === 1) doc.circle(cx, cy, r, 'F')
+        else wedge(doc, cx, cy, r, angle, angle + sweep)
+        angle += sweep
+      })
+      entries.forEach((status, i) => {
+        const y = writer.y + 12 + i * 9
+        doc.setFillColor(...statusInfo[status].color)
+        doc.rect(cx + r + 16, y - 3.5, 4, 4, 'F')
+        doc.setFontSize(10)
+        doc.setTextColor(15, 23, 42)
+        const pct = Math.round((counts[status] / tasks.length) * 100)
+        doc.text(`${statusInfo[status].label}: ${counts[status]} (${pct}%)`, cx + r + 23, y)
+      })
+      writer.y += r * 2 + 8
+    },
+
+    ownerBars: () => {
+      writer.heading('Progress by Owner')
+      const labelWidth = 38
+      const barWidth = CONTENT_WIDTH - labelWidth - 16
+      writer.ensureSpace(ownerStats.length * 10 + 4)
+      ownerStats.forEach(({ owner, avgProgress, tasks: ownerTasks }) => {
+        writer.ensureSpace(10)
+        doc.setFontSize(9)
+        doc.setTextColor(15, 23, 42)
+        doc.text(owner, MARGIN, writer.y + 5)
+        doc.setFontSize(7)
+        doc.setTextColor(100, 116, 139)
+        doc.text(`${ownerTasks.length} task${ownerTasks.length !== 1 ? 's' : ''}`, MARGIN, writer.y + 8.5)
+        doc.setFillColor(241, 245, 249)
+        doc.rect(MARGIN + labelWidth, writer.y + 1.5, barWidth, 5, 'F')
+        doc.setFillColor(...hexToRgb(ownerColors[owner] || '#94a3b8'))
+        doc.rect(MARGIN + labelWidth, writer.y + 1.5, (barWidth * avgProgress) / 100, 5, 'F')
+        doc.setFontSize(9)
+        doc.setTextColor(15, 23, 42)
+        doc.text(`${avgProgress}%`, MARGIN + labelWidth + barWidth + 2, writer.y + 5.5)
+        writer.y += 11
+      })
+    },
+
+    overdue: () => {
+      const overdue = tasks
+        .filter(task => statusOf(task) === 'overdue')
+        .sort((a, b) => a.end.localeCompare(b.end))
+      writer.heading('Overdue Tasks', `${overdue.length} unfinished task${overdue.length !== 1 ? 's' : ''} past their end date`)
+      if (overdue.length === 0) {
+        writer.note('Nothing is overdue.')
+        return
+      }
+      writer.table(
+        ['Task', 'Owner', 'Due', 'Overdue', 'Progress'],
+        [78, 30, 28, 24, 18],
+        overdue.map(task => {
+          const days = daysBetween(task.end, currentDate)
+          return [task.label, task.owner, formatDate(task.end), `${days} day${days !== 1 ? 's' : ''}`, `${progress[task.id] || 0}%`]
+        })
+      )
+    },
+
+    upcoming: () => {
+      const items = tasks.flatMap(task => {
+        if (statusOf(task) === 'completed') return []
+        const events: Array<{ task: ReportTask; what: string; date: string }> = []
+        const untilStart = daysBetween(currentDate, task.start)
+        const untilEnd = daysBetween(currentDate, task.end)
+        if (untilStart >= 0 && untilStart <= 30) events.push({ task, what: 'Starts', date: task.start })
+        if (untilEnd >= 0 && untilEnd <= 30) events.push({ task, what: 'Due', date: task.end })
+        return events
+      }).sort((a, b) => a.date.localeCompare(b.date))
+      writer.heading('Next 30 Days', `${formatDate(currentDate)} to ${formatDate(addDays(currentDate, 30))}`)
+      if (items.length === 0) {
+        writer.note('No tasks start or are due in the next 30 days.')
+        return
+      }
+      writer.table(
+        ['Task', 'Owner', 'Event', 'Date', 'In'],
+        [78, 30, 18, 30, 22],
+        items.map(({ task, what, date }) => {
+          const days = daysBetween(currentDate, date)
+          return [task.label, task.owner, what, formatDate(date), days === 0 ? 'today' : `${days} day${days !== 1 ? 's' : ''}`]
+        })
+      )
+    },
+
+    owners: () => {
+      ownerStats.forEach(({ owner, tasks: ownerTasks, avgProgress, completed, overdue }) => {
+        writer.heading(owner, `${avgProgress}% average progress • ${completed}/${ownerTasks.length} completed${overdue ? ` • ${overdue} overdue` : ''}`)
+        const statuses = ownerTasks.map(statusOf)
+        writer.table(
+          ['Task', 'Start', 'End', 'Progress', 'Status'],
+          [74, 28, 28, 18, 30],
+          ownerTasks.map((task, i) => [task.label, formatDate(task.start), formatDate(task.end), `${progress[task.id] || 0}%`, statusInfo[statuses[i]].label]),
+          statuses.map(status => statusInfo[status].color)
+        )
+      })
+    },
+  }
+
+  sections.filter(section => section.enabled).forEach(section => drawSection[section.id]())
+  if (!sections.some(section => section.enabled)) writer.note('No sections selected.')
+
+  // Page footers
+  const pages = doc.getNumberOfPages()
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page)
+    doc.setFontSize(7.5)
+    doc.setTextColor(148, 163, 184)
+    doc.text(`${data.title} • ${formatDate(currentDate)}`, MARGIN, PAGE_HEIGHT - MARGIN + 4)
+    doc.text(`Page ${page} of ${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN + 4, { align: 'right' })
+  }
+}
@@ -0,0 +1,90 @@
+// Subtask lists: weights, validation and the weighted progress they roll up to.
+//
+// Weights are fractions of the parent task and should add up to 1. Each
+// subtask is to do, doing (optionally with a percentage) or done, and a task's
+// progress is the weighted sum of its subtasks' percentages.
+
+import { isPlainDate } from './dates'
+import type { SubtaskDefinition, SubtaskProgress, SubtaskState } from './persistence'
+
+// Totals within half a percentage point of 100% count as complete, which
+// absorbs rounding from editing weights as whole percentages
+export const WEIGHT_TOLERANCE = 0.005
+
+export const subtaskWeightTotal = (subtasks: SubtaskDefinition[]) =>
+  subtasks.reduce((sum, subtask) => sum + subtask.weight, 0)
+
+// Scale weights so they add up to 1, keeping their proportions. Lists whose
+// weights are all zero are split evenly.
+export function normalizeSubtaskWeights(subtasks: SubtaskDefinition[]): SubtaskDefinition[] {
+  const total = subtaskWeightTotal(subtasks)
+  if (total <= 0) return evenSubtaskWeights(subtasks)
+  return subtasks.map(subtask => ({ ...subtask, weight: subtask.weight / total }))
+}
+
+export const evenSubtaskWeights = (subtasks: SubtaskDefinition[]): SubtaskDefinition[] =>
+  subtasks.map(subtask => ({ ...subtask, weight: 1 / subtasks.length }))
+
+// Problems that stop a subtask list from being saved, as readable messages
+export function validateSubtasks(subtasks: SubtaskDefinition[]) {
+  const errors: string[] = []
+  subtasks.forEach((subtask, i) => {
+    if (!subtask.label.trim()) errors.push(`Subtask ${i + 1} needs a name`)
+    if (!Number.isFinite(subtask.weight) || subtask.weight < 0 || subtask.weight > 1) {
+      errors.push(`"${subtask.label || `Subtask ${i + 1}`}" needs a weight between 0% and 100%`)
+    }
+    if (subtask.due !== undefined && !isPlainDate(subtask.due)) {
+      errors.push(`"${subtask.label || `Subtask ${i + 1}`}" has an invalid due date`)
+    }
+  })
+  const total = subtaskWeightTotal(subtasks)
+  if (subtasks.length > 0 && Math.abs(total - 1) > WEIGHT_TOLERANCE) {
+    errors.push(`Weights add up to ${Math.round(total * 1000) / 10}% instead of 100%`)
+  }
+  return errors
+}
+
+// A readable id derived from the label, unique among `existingIds`
+export function newSubtaskId(label: string, existingIds: string[]) {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'subtask'
+  let id = base
+  for (let n = 2; existingIds.includes(id); n++) id = `${base}-${n}`
+  return id
+}
+
+export const subtaskStateOrder: SubtaskState[] = ['todo', 'doing', 'done']
+
+export const subtaskStateInfo: Record<SubtaskState, { label: string; color: string }> = {
+  todo: { label: 'To Do', color: '#94a3b8' },
+  doing: { label: 'Doing', color: '#3b82f6' },
+  done: { label: 'Done', color: '#10b981' },
+}
+
+// Clicking a subtask moves it along todo → doing → done and back to todo
+export const nextSubtaskState = (state: SubtaskState): SubtaskState =>
+  subtaskStateOrder[(subtaskStateOrder.indexOf(state) + 1) % subtaskStateOrder.length]
+
+export const subtaskStateOf = (progress?: SubtaskProgress): SubtaskState => progress?.state ?? 'todo'
+
+// How far along one subtask is, 0–100; a subtask marked doing without a
+// percentage counts as just started
+export function subtaskPercent(progress?: SubtaskProgress) {
+  if (progress?.state === 'done') return 100
+  if (progress?.state === 'doing') return Math.min(100, Math.max(0, progress.percent ?? 0))
+  return 0
+}
+
+// The entry for a typed-in percentage: 100 or more is done, anything else
+// keeps the subtask under way
+export const progressFromPercent = (percent: number): SubtaskProgress =>
+  percent >= 100 ? { state: 'done' } : { state: 'doing', percent: Math.max(0, Math.round(percent)) }
+
+// Due before `currentDate` and not done yet
+export const isSubtaskOverdue = (subtask: SubtaskDefinition, progress: SubtaskProgress | undefined, currentDate: string) =>
+  !!subtask.due && subtask.due < currentDate && subtaskStateOf(progress) !== 'done'
+
+// Weighted progress of one task, 0–100
+export function subtaskProgressPercent(subtasks: SubtaskDefinition[], progress: Record<string, SubtaskProgress>) {
+  const total = subtasks.reduce((sum, subtask) => sum + subtask.weight * subtaskPercent(progress[subtask.id]), 0)
+  return Math.round(total)
+}
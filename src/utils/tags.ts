@@ -0,0 +1,29 @@
+// Free-form task tags, like "print" or "needs-legal". Unlike categories they
+// have no registry: a tag exists while some task carries it. Tags are stored
+// lowercase with dashes for spaces, so "Needs Legal" and "needs-legal" are the
+// same tag and every tag can be typed into a filter query unquoted.
+
+import type { ScenarioPlan } from './persistence'
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-')
+
+// Tags for a list separated by commas, as typed in the task dialogs, or by
+// semicolons, as the CSV export writes them
+export const parseTags = (value: string) => Array.from(new Set(value.split(/[,;]/).map(normalizeTag).filter(Boolean)))
+
+export const formatTags = (tags: string[] = []) => tags.join(', ')
+
+// Every tag in use, alphabetically
+export const tagsInUse = (tasks: Array<{ tags?: string[] }>) =>
+  Array.from(new Set(tasks.flatMap(task => task.tags || []))).sort()
+
+const normalizeTags = <T extends { tags?: string[] }>(item: T): T =>
+  item.tags ? { ...item, tags: Array.from(new Set(item.tags.map(normalizeTag).filter(Boolean))) } : item
+
+// Tags from outside the app (project files) in the stored form
+export const normalizePlanTags = <T extends Pick<ScenarioPlan, 'baseTracks' | 'customTasks' | 'taskOverrides'>>(plan: T): T => ({
+  ...plan,
+  baseTracks: plan.baseTracks.map(normalizeTags),
+  customTasks: plan.customTasks.map(normalizeTags),
+  taskOverrides: Object.fromEntries(Object.entries(plan.taskOverrides).map(([taskId, override]) => [taskId, normalizeTags(override)])),
+})
@@ -0,0 +1,89 @@
+// Task status engine shared by every view, the status filter and the reports.
+//
+// A task's status comes from its dates, today's date and its weighted subtask
+// progress. While a task is running, its schedule variance (actual progress
+// minus the progress expected from elapsed time) splits it into on track,
+// at risk and behind.
+
+import { daysBetween } from './dates'
+
+export type TaskStatus = 'not-started' | 'in-progress' | 'at-risk' | 'behind' | 'overdue' | 'completed'
+
+// Percentage points below the expected progress at which a running task is
+// flagged
+export const AT_RISK_VARIANCE = -10
+export const BEHIND_VARIANCE = -25
+
+// Display order, from not yet started to done
+export const taskStatusOrder: TaskStatus[] = ['not-started', 'in-progress', 'at-risk', 'behind', 'overdue', 'completed']
+
+export const taskStatusInfo: Record<TaskStatus, { label: string; color: string; description: string }> = {
+  'not-started': { label: 'Not Started', color: '#6b7280', description: 'Starts in the future' },
+  'in-progress': { label: 'In Progress', color: '#3b82f6', description: 'Running and on track' },
+  'at-risk': {
+    label: 'At Risk',
+    color: '#f59e0b',
+    description: `${-AT_RISK_VARIANCE} or more points behind the progress expected by now`,
+  },
+  behind: {
+    label: 'Behind Schedule',
+    color: '#f97316',
+    description: `${-BEHIND_VARIANCE} or more points behind the progress expected by now`,
+  },
+  overdue: { label: 'Overdue', color: '#ef4444', description: 'Past its end date and not complete' },
+  completed: { label: 'Completed', color: '#10b981', description: 'All subtasks done' },
+}
+
+// Badge variant per status; the two slipping states are outlined in their color
+export const taskStatusBadgeVariant: Record<TaskStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  'not-started': 'secondary',
+  'in-progress': 'outline',
+  'at-risk': 'outline',
+  behind: 'outline',
+  overdue: 'destructive',
+  completed: 'default',
+}
+
+export const isSlipping = (status: TaskStatus) => status === 'at-risk' || status === 'behind'
+
+interface DatedTask {
+  start: string
+  end: string
+}
+
+export interface TaskStatusResult {
+  status: TaskStatus
+  actualProgress: number // 0–100, weighted by subtask
+  expectedProgress: number // 0–100, share of the task's days elapsed
+  variance: number // actual minus expected, in percentage points
+}
+
+// Progress a task should have if work advances evenly from start to end
+export function expectedProgress(task: DatedTask, currentDate: string) {
+  const duration = Math.max(1, daysBetween(task.start, task.end))
+  const elapsed = daysBetween(task.start, currentDate)
+  return Math.round(Math.min(100, Math.max(0, (elapsed / duration) * 100)))
+}
+
+export function getTaskStatus(task: DatedTask, actualProgress: number, currentDate: string): TaskStatusResult {
+  const expected = expectedProgress(task, currentDate)
+  const variance = actualProgress - expected
+  let status: TaskStatus
+  if (actualProgress >= 100) status = 'completed'
+  else if (currentDate < task.start) status = 'not-started'
+  else if (currentDate > task.end) status = 'overdue'
+  else if (variance <= BEHIND_VARIANCE) status = 'behind'
+  else if (variance <= AT_RISK_VARIANCE) status = 'at-risk'
+  else status = 'in-progress'
+  return { status, actualProgress, expectedProgress: expected, variance }
+}
+
+// Number of tasks in each status, with every status present
+export function countTaskStatuses(statuses: TaskStatus[]) {
+  const counts = Object.fromEntries(taskStatusOrder.map(status => [status, 0])) as Record<TaskStatus, number>
+  statuses.forEach(status => { counts[status]++ })
+  return counts
+}
+
+// "+12 pts", "-30 pts"
+export const formatVariance = (variance: number) => `${variance > 0 ? '+' : ''}${variance} pts`
@@ -0,0 +1,140 @@
+// Work breakdown structure: nestable phases that group tasks and roll up their
+// dates and progress.
+//
+// Phases form a tree through `parentId`, and a task joins a phase through its
+// `phaseId`. A phase spans the earliest start to the latest end of every task
+// beneath it, at any depth. Its progress is those tasks' progress weighted by
+// duration, so a three-month task counts for more than a one-day one.
+
+import { daysBetween } from './dates'
+import type { Phase } from './persistence'
+
+interface PhasedTask {
+  id: string
+  start: string
+  end: string
+  phaseId?: string
+}
+
+export interface PhaseRollup {
+  start: string
+  end: string
+  progress: number // 0–100, weighted by task duration
+  taskCount: number
+}
+
+export interface WbsNode<T extends PhasedTask> {
+  phase: Phase
+  code: string // outline number such as '2.1'
+  depth: number
+  children: WbsNode<T>[] // sub-phases
+  tasks: T[] // tasks directly in this phase, by start date
+  rollup?: PhaseRollup // undefined when no task sits anywhere beneath
+}
+
+const taskWeight = (task: PhasedTask) => Math.max(1, daysBetween(task.start, task.end))
+
+export function rollupTasks(tasks: PhasedTask[], progress: Record<string, number>): PhaseRollup | undefined {
+  if (tasks.length === 0) return undefined
+  const totalWeight = tasks.reduce((sum, task) => sum + taskWeight(task), 0)
+  const weighted = tasks.reduce((sum, task) => sum + taskWeight(task) * (progress[task.id] || 0), 0)
+  return {
+    start: tasks.reduce((min, task) => (task.start < min ? task.start : min), tasks[0].start),
+    end: tasks.reduce((max, task) => (task.end > max ? task.end : max), tasks[0].end),
+    progress: Math.round(weighted / totalWeight),
+    taskCount: tasks.length,
+  }
+}
+
+// The phase and its ancestors, innermost first. A parent link that loops back
+// or points at a missing phase ends the chain.
+export function phaseAncestry(phases: Phase[], phaseId: string) {
+  const chain: Phase[] = []
+  let phase = phases.find(p => p.id === phaseId)
+  while (phase && !chain.includes(phase)) {
+    chain.push(phase)
+    const parentId = phase.parentId
+    phase = parentId ? phases.find(p => p.id === parentId) : undefined
+  }
+  return chain
+}
+
+// "Post-launch › Web Enhancements"
+export const phasePath = (phases: Phase[], phaseId: string) =>
+  phaseAncestry(phases, phaseId).reverse().map(phase => phase.label).join(' › ')
+
+// Whether `phaseId` can move under `parentId` without nesting inside itself
+export const canNestUnder = (phases: Phase[], phaseId: string, parentId: string) =>
+  !phaseAncestry(phases, parentId).some(phase => phase.id === phaseId)
+
+// Build the phase tree with each phase's tasks and rollup. Tasks in no phase
+// (or in one that no longer exists) come back as `unphased`.
+export function buildWbs<T extends PhasedTask>(phases: Phase[], tasks: T[], progress: Record<string, number>) {
+  const known = new Set(phases.map(phase => phase.id))
+  // The ancestry only stops at an existing parent when the links loop; such
+  // phases are shown at the top level rather than dropped
+  const inLoop = (phase: Phase) => {
+    const outermost = phaseAncestry(phases, phase.id).pop()
+    return !!outermost?.parentId && known.has(outermost.parentId)
+  }
+  const parentOf = (phase: Phase) =>
+    phase.parentId && known.has(phase.parentId) && !inLoop(phase) ? phase.parentId : undefined
+
+  const build = (parentId: string | undefined, prefix: string, depth: number): WbsNode<T>[] =>
+    phases
+      .filter(phase => parentOf(phase) === parentId)
+      .map((phase, i) => {
+        const code = prefix ? `${prefix}.${i + 1}` : String(i + 1)
+        const children = build(phase.id, code, depth + 1)
+        const own = tasks.filter(task => task.phaseId === phase.id).sort((a, b) => a.start.localeCompare(b.start))
+        return {
+          phase,
+          code,
+          depth,
+          children,
+          tasks: own,
+          rollup: rollupTasks([...own, ...children.flatMap(child => tasksBeneath(child))], progress),
+        }
+      })
+
+  return {
+    roots: build(undefined, '', 0),
+    unphased: tasks.filter(task => !task.phaseId || !known.has(task.phaseId)),
+  }
+}
+
+// Every task in a phase and its sub-phases
+export function tasksBeneath<T extends PhasedTask>(node: WbsNode<T>): T[] {
+  return [...node.tasks, ...node.children.flatMap(child => tasksBeneath(child))]
+}
+
+// The tree in outline order, parents before their children
+export function flattenWbs<T extends PhasedTask>(nodes: WbsNode<T>[]): WbsNode<T>[] {
+  return nodes.flatMap(node => [node, ...flattenWbs(node.children)])
+}
+
+// Remove a phase; its sub-phases and tasks move up to its parent
+export function removePhase(phases: Phase[], taskPhases: Record<string, string>, phaseId: string) {
+  const removed = phases.find(phase => phase.id === phaseId)
+  const parentId = removed?.parentId
+  const nextPhases = phases
+    .filter(phase => phase.id !== phaseId)
+    .map(({ parentId: ownParent, ...phase }) => {
+      const nextParent = ownParent === phaseId ? parentId : ownParent
+      return nextParent ? { ...phase, parentId: nextParent } : phase
+    })
+  const nextTaskPhases: Record<string, string> = {}
+  Object.entries(taskPhases).forEach(([taskId, id]) => {
+    if (id !== phaseId) nextTaskPhases[taskId] = id
+    else if (parentId) nextTaskPhases[taskId] = parentId
+  })
+  return { phases: nextPhases, taskPhases: nextTaskPhases }
+}
+
+// A readable id derived from the label, unique among `phases`
+export function newPhaseId(label: string, phases: Phase[]) {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'phase'
+  let id = base
+  for (let n = 2; phases.some(phase => phase.id === id); n++) id = `${base}_${n}`
+  return id
+}
@@ -0,0 +1,86 @@
+// Project working calendar: which weekdays are worked, company holidays, and
+// per-owner exceptions (a team working a Saturday, or taking an offsite day).
+
+import { businessDaysBetween, daysBetween, weekdayOf, type DayUnit } from './dates'
+
+export type Holiday = { date: string; label: string }
+
+export type OwnerException = {
+  owner: string
+  date: string
+  working: boolean
+  label: string
+}
+
+export interface ProjectCalendar {
+  workingWeekdays: number[] // 0 = Sunday … 6 = Saturday
+  holidays: Holiday[]
+  ownerExceptions: OwnerException[]
+}
+
+export const weekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const shutdown = (dates: string[]) => dates.map(date => ({ date, label: 'Winter shutdown' }))
+
+export const DEFAULT_CALENDAR: ProjectCalendar = {
+  workingWeekdays: [1, 2, 3, 4, 5],
+  holidays: [
+    { date: '2025-11-27', label: 'Thanksgiving' },
+    { date: '2025-11-28', label: 'Day after Thanksgiving' },
+    ...shutdown(['2025-12-24', '2025-12-25', '2025-12-26', '2025-12-29', '2025-12-30', '2025-12-31', '2026-01-01']),
+    { date: '2026-05-25', label: 'Memorial Day' },
+    { date: '2026-07-03', label: 'Independence Day (observed)' },
+    { date: '2026-09-07', label: 'Labor Day' },
+    { date: '2026-11-26', label: 'Thanksgiving' },
+    { date: '2026-11-27', label: 'Day after Thanksgiving' },
+  ],
+  ownerExceptions: [],
+}
+
+// Lookup tables are rebuilt only when the calendar object changes
+const lookups = new WeakMap<ProjectCalendar, {
+  weekdays: Set<number>
+  holidays: Set<string>
+  exceptions: Map<string, boolean>
+}>()
+
+function lookup(calendar: ProjectCalendar) {
+  let tables = lookups.get(calendar)
+  if (!tables) {
+    tables = {
+      weekdays: new Set(calendar.workingWeekdays),
+      holidays: new Set(calendar.holidays.map(h => h.date)),
+      exceptions: new Map(calendar.ownerExceptions.map(e => [`${e.owner}|${e.date}`, e.working])),
+    }
+    lookups.set(calendar, tables)
+  }
+  return tables
+}
+
+// An owner exception beats a holiday, which beats the weekday rule
+export function isWorkingDay(date: string, calendar: ProjectCalendar, owner?: string) {
+  const { weekdays, holidays, exceptions } = lookup(calendar)
+  if (owner) {
+    const exception = exceptions.get(`${owner}|${date}`)
+    if (exception !== undefined) return exception
+  }
+  if (holidays.has(date)) return false
+  return weekdays.has(weekdayOf(date))
+}
+
+// Working days in [from, to), negative when `to` is before `from` — the
+// working-day counterpart of a plain calendar-day difference
+export const workingDaysBetween = (from: string, to: string, calendar: ProjectCalendar, owner?: string) =>
+  businessDaysBetween(from, to, date => isWorkingDay(date, calendar, owner))
+
+export interface DayCountOptions {
+  unit: DayUnit
+  calendar: ProjectCalendar
+  owner?: string
+}
+
+// Days from `from` to `to` in the chosen unit, for durations, countdowns and
+// days remaining. Positions on the timeline always use calendar days.
+export function countDays(from: string, to: string, { unit, calendar, owner }: DayCountOptions) {
+  return unit === 'working' ? workingDaysBetween(from, to, calendar, owner) : daysBetween(from, to)
+}
@@ -0,0 +1,141 @@
+// Per-person workload: how much of each week every assignee spends on tasks.
+//
+// A person assigned to a task carries all of it; a person assigned only some
+// of its subtasks carries those subtasks' share of the weight. Within a week,
+// a task counts for the fraction of that week's working days it spans, so two
+// full-time tasks in the same week make 200%. Weeks start on Monday.
+
+import { addDays, daysBetween, startOfWeek } from './dates'
+import { isWorkingDay, type ProjectCalendar } from './workCalendar'
+import type { Owner, SubtaskDefinition } from './persistence'
+
+interface WorkloadTask {
+  id: string
+  label: string
+  start: string
+  end: string
+  owner: string
+  assignees?: string[]
+}
+
+export interface Allocation {
+  taskId: string
+  label: string
+  percent: number // of the person's week
+}
+
+export interface PersonWeek {
+  percent: number
+  allocations: Allocation[]
+  over: boolean // beyond capacity
+}
+
+export interface PersonWorkload {
+  person: string
+  team?: string // the owner whose members include the person
+  weeks: PersonWeek[] // aligned with Workload.weeks
+  peak: number
+  overCount: number
+}
+
+export interface Workload {
+  weeks: string[] // Mondays
+  people: PersonWorkload[]
+}
+
+export const DEFAULT_CAPACITY = 100
+
+// Tasks to pick out on the Gantt chart, around the dates that matter
+export interface GanttFocus {
+  taskIds: string[]
+  label: string
+  start: string
+  end: string
+}
+
+// Everyone a task involves, with the share of the task each carries
+export function taskShares(task: WorkloadTask, subtasks: SubtaskDefinition[] = []): Map<string, number> {
+  const shares = new Map<string, number>()
+  subtasks.forEach(subtask => {
+    if (subtask.assignee) shares.set(subtask.assignee, Math.min(1, (shares.get(subtask.assignee) || 0) + subtask.weight))
+  })
+  ;(task.assignees || []).forEach(person => shares.set(person, 1))
+  return shares
+}
+
+// The days a task occupies: [start, end), or just the start for a one-day task
+const taskDays = (task: Pick<WorkloadTask, 'start' | 'end'>) => {
+  const span = Math.max(1, daysBetween(task.start, task.end))
+  return Array.from({ length: span }, (_, i) => addDays(task.start, i))
+}
+
+export const roundPercent = (percent: number) => Math.round(percent * 10) / 10
+
+// Mondays from the week holding `start` through `end`
+export function workloadWeeks(range: { start: string; end: string }) {
+  const weeks: string[] = []
+  for (let week = startOfWeek(range.start); week <= range.end; week = addDays(week, 7)) weeks.push(week)
+  return weeks
+}
+
+// The fraction of each week's working days a task spans, keyed by the week's
+// index in `weekIndex`; weeks outside it are left out
+export function weekFractions(task: Pick<WorkloadTask, 'start' | 'end' | 'owner'>, weekIndex: Map<string, number>, calendar: ProjectCalendar) {
+  const worked = new Map<string, number>()
+  taskDays(task).forEach(date => {
+    if (!isWorkingDay(date, calendar, task.owner)) return
+    const week = startOfWeek(date)
+    worked.set(week, (worked.get(week) || 0) + 1)
+  })
+  const fractions = new Map<number, number>()
+  worked.forEach((days, week) => {
+    const index = weekIndex.get(week)
+    if (index === undefined) return
+    const weekDays = Array.from({ length: 7 }, (_, i) => addDays(week, i)).filter(date => isWorkingDay(date, calendar, task.owner)).length
+    fractions.set(index, days / weekDays)
+  })
+  return fractions
+}
+
+export function buildWorkload(
+  tasks: WorkloadTask[],
+  subtaskDefinitions: Record<string, SubtaskDefinition[]>,
+  owners: Owner[],
+  range: { start: string; end: string },
+  calendar: ProjectCalendar,
+  capacity = DEFAULT_CAPACITY,
+): Workload {
+  const weeks = workloadWeeks(range)
+  const weekIndex = new Map(weeks.map((week, i) => [week, i]))
+
+  const loads = new Map<string, Allocation[][]>()
+  tasks.forEach(task => {
+    const shares = taskShares(task, subtaskDefinitions[task.id])
+    if (shares.size === 0) return
+    weekFractions(task, weekIndex, calendar).forEach((fraction, index) => {
+      shares.forEach((share, person) => {
+        if (!loads.has(person)) loads.set(person, weeks.map(() => []))
+        loads.get(person)![index].push({ taskId: task.id, label: task.label, percent: roundPercent(fraction * share * 100) })
+      })
+    })
+  })
+
+  const people = Array.from(loads.entries()).map(([person, byWeek]) => {
+    const personWeeks = byWeek.map(allocations => {
+      const percent = roundPercent(allocations.reduce((sum, a) => sum + a.percent, 0))
+      return { percent, allocations, over: percent > capacity }
+    })
+    return {
+      person,
+      team: owners.find(owner => owner.members?.includes(person))?.name,
+      weeks: personWeeks,
+      peak: Math.max(0, ...personWeeks.map(week => week.percent)),
+      overCount: personWeeks.filter(week => week.over).length,
+    }
+  })
+
+  return {
+    weeks,
+    people: people.sort((a, b) => b.overCount - a.overCount || b.peak - a.peak || a.person.localeCompare(b.person)),
+  }
+}